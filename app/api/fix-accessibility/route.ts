@@ -0,0 +1,43 @@
+import type { NextRequest } from "next/server";
+import type { A11yFinding } from "@/lib/a11y-audit";
+import { streamPipeline } from "@/lib/pipeline/orchestrator";
+import { A11Y_FIX_PIPELINE } from "@/lib/pipeline/pipelines";
+import { COMPONENT_PATH, routeForFile } from "@/lib/sketch-pages";
+
+/**
+ * Feeds accessibility audit findings back to the model, applies its patch
+ * and re-audits the result
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json();
+  const findings: A11yFinding[] | undefined = body.findings;
+
+  if (!findings?.length || (!body.code && !body.sandboxId)) {
+    return new Response(
+      JSON.stringify({
+        error: "Audit findings and the current code or sandbox are required",
+      }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    );
+  }
+
+  // The file the client is showing: the component or one of the pages
+  const filePath = String(body.path ?? COMPONENT_PATH);
+  if (routeForFile(filePath) === null) {
+    return new Response(
+      JSON.stringify({ error: `Not a generated file: ${filePath}` }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    );
+  }
+
+  return streamPipeline(
+    {
+      colorPalette: body.colorPalette,
+      sandboxId: body.sandboxId,
+      currentCode: body.code,
+      path: filePath,
+      findings,
+    },
+    A11Y_FIX_PIPELINE,
+  );
+}
@@ -0,0 +1,22 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { cancelJob } from "@/lib/job-runner";
+
+/**
+ * Cancels a running generation job. The job stops its model calls and
+ * sandbox commands and ends its stream with a cancelled event.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+
+  if (!cancelJob(id)) {
+    return NextResponse.json(
+      { error: "No running job with this ID" },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
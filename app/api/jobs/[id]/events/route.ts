@@ -0,0 +1,23 @@
+import type { NextRequest } from "next/server";
+import { streamJobEvents } from "@/lib/job-runner";
+
+/**
+ * Replays a generation job's events after `since` (the last event id the
+ * client saw, 0 for all) and follows the job until it finishes
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const since = Number(request.nextUrl.searchParams.get("since") ?? 0);
+
+  if (!Number.isInteger(since) || since < 0) {
+    return new Response(
+      JSON.stringify({ error: "since must be a non-negative integer" }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    );
+  }
+
+  return streamJobEvents(id, since);
+}
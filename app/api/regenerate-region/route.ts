@@ -0,0 +1,44 @@
+import type { NextRequest } from "next/server";
+import { streamPipeline } from "@/lib/pipeline/orchestrator";
+import { REGION_PIPELINE } from "@/lib/pipeline/pipelines";
+import { COMPONENT_PATH, routeForFile } from "@/lib/sketch-pages";
+import type { SketchSelection } from "@/types/canvas";
+
+/**
+ * Regenerates only the JSX subtree that a canvas selection covers.
+ * The model returns SEARCH/REPLACE patches that are applied to the
+ * current code; the sandbox keeps the previous version if the build breaks.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json();
+  const code: string | undefined = body.code;
+  const selection: SketchSelection | undefined = body.selection;
+
+  if (!code || !selection?.graph?.nodes?.length) {
+    return new Response(
+      JSON.stringify({ error: "Current code and a selection are required" }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    );
+  }
+
+  // The file the client is showing: the component or one of the pages
+  const filePath = String(body.path ?? COMPONENT_PATH);
+  if (routeForFile(filePath) === null) {
+    return new Response(
+      JSON.stringify({ error: `Not a generated file: ${filePath}` }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    );
+  }
+
+  return streamPipeline(
+    {
+      image: body.image,
+      customPrompt: body.customPrompt,
+      sandboxId: body.sandboxId,
+      currentCode: code,
+      path: filePath,
+      selection,
+    },
+    REGION_PIPELINE,
+  );
+}
@@ -1,6 +1,24 @@
+import { posix } from "node:path";
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-import { Sandbox } from "e2b";
+import { connectSandbox } from "@/lib/e2b-sandbox";
+import { type AppSandbox, SANDBOX_APP_DIR } from "@/lib/sandbox/types";
+import { routeForFile } from "@/lib/sketch-pages";
+
+const MUTATING_ACTIONS = ["write", "mkdir", "delete", "rename"];
+
+// Resolves a client path against the app dir; null if it points outside
+function resolveAppPath(target: string): string | null {
+  const resolved = posix.resolve(SANDBOX_APP_DIR, target);
+  return resolved === SANDBOX_APP_DIR ||
+    resolved.startsWith(`${SANDBOX_APP_DIR}/`)
+    ? resolved
+    : null;
+}
+
+function isGeneratedFile(appPath: string): boolean {
+  return routeForFile(appPath.slice(SANDBOX_APP_DIR.length + 1)) !== null;
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,12 +31,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const target = resolveAppPath(path || SANDBOX_APP_DIR);
+    const destination = newPath ? resolveAppPath(newPath) : undefined;
+    if (!target || destination === null) {
+      return NextResponse.json(
+        { error: "Path must be inside the app directory" },
+        { status: 400 },
+      );
+    }
+
     // Connect to existing sandbox by ID
-    let sandbox: Sandbox;
+    let sandbox: AppSandbox;
     try {
-      sandbox = await Sandbox.connect(sandboxId, {
-        apiKey: process.env.E2B_API_KEY,
-      });
+      sandbox = await connectSandbox(sandboxId);
     } catch {
       return NextResponse.json(
         { error: "Sandbox session not found or expired" },
@@ -26,12 +51,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // On the host, config or script edits would run at the next build
+    if (
+      !sandbox.allowsShell &&
+      MUTATING_ACTIONS.includes(action) &&
+      !(
+        isGeneratedFile(target) &&
+        (!destination || isGeneratedFile(destination))
+      )
+    ) {
+      return NextResponse.json(
+        { error: "The local sandbox only allows editing the generated files" },
+        { status: 403 },
+      );
+    }
+
     switch (action) {
       case "list": {
         // List directory contents
-        const targetPath = path || "/home/user/app";
-        const result = await sandbox.commands.run(`ls -la "${targetPath}"`, {
-          cwd: "/home/user/app",
+        const result = await sandbox.commands.run(["ls", "-la", target], {
+          cwd: SANDBOX_APP_DIR,
         });
 
         // Parse ls output into structured data
@@ -46,7 +85,7 @@ export async function POST(request: NextRequest) {
             const isDirectory = permissions.startsWith("d");
             return {
               name,
-              path: `${targetPath}/${name}`.replace("//", "/"),
+              path: `${target}/${name}`.replace("//", "/"),
               isDirectory,
               permissions,
               size: parts[4],
@@ -67,7 +106,7 @@ export async function POST(request: NextRequest) {
             { status: 400 },
           );
         }
-        const fileContent = await sandbox.files.read(path);
+        const fileContent = await sandbox.files.read(target);
         return NextResponse.json({ content: fileContent });
       }
 
@@ -79,7 +118,7 @@ export async function POST(request: NextRequest) {
             { status: 400 },
           );
         }
-        await sandbox.files.write(path, content);
+        await sandbox.files.write(target, content);
         return NextResponse.json({ success: true });
       }
 
@@ -91,42 +130,55 @@ export async function POST(request: NextRequest) {
             { status: 400 },
           );
         }
-        await sandbox.commands.run(`mkdir -p "${path}"`);
+        await sandbox.commands.run(["mkdir", "-p", target]);
         return NextResponse.json({ success: true });
       }
 
       case "delete": {
         // Delete file or directory
-        if (!path) {
+        if (!path || target === SANDBOX_APP_DIR) {
           return NextResponse.json(
             { error: "Path is required" },
             { status: 400 },
           );
         }
-        await sandbox.commands.run(`rm -rf "${path}"`);
+        await sandbox.commands.run(["rm", "-rf", target]);
         return NextResponse.json({ success: true });
       }
 
       case "rename": {
         // Rename/move file
-        if (!path || !newPath) {
+        if (!path || !destination || target === SANDBOX_APP_DIR) {
           return NextResponse.json(
             { error: "Path and newPath are required" },
             { status: 400 },
           );
         }
-        await sandbox.commands.run(`mv "${path}" "${newPath}"`);
+        await sandbox.commands.run(["mv", target, destination]);
         return NextResponse.json({ success: true });
       }
 
       case "tree": {
         // Get full directory tree
-        const targetPath = path || "/home/user/app";
+        // Dependency and build dirs would flood the 200-entry listing
         const result = await sandbox.commands.run(
-          `find "${targetPath}" -type f -o -type d | head -200`,
-          { cwd: "/home/user/app" },
+          [
+            "find",
+            target,
+            "(",
+            "-name",
+            "node_modules",
+            "-o",
+            "-name",
+            ".next",
+            ")",
+            "-prune",
+            "-o",
+            "-print",
+          ],
+          { cwd: SANDBOX_APP_DIR },
         );
-        const paths = result.stdout.split("\n").filter(Boolean);
+        const paths = result.stdout.split("\n").filter(Boolean).slice(0, 200);
         return NextResponse.json({ paths });
       }
 
@@ -1,6 +1,7 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-import { Sandbox } from "e2b";
+import { connectSandbox } from "@/lib/e2b-sandbox";
+import type { AppSandbox } from "@/lib/sandbox/types";
 
 export async function POST(request: NextRequest) {
   try {
@@ -21,11 +22,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Connect to existing sandbox by ID
-    let sandbox: Sandbox;
+    let sandbox: AppSandbox;
     try {
-      sandbox = await Sandbox.connect(sandboxId, {
-        apiKey: process.env.E2B_API_KEY,
-      });
+      sandbox = await connectSandbox(sandboxId);
     } catch {
       return NextResponse.json(
         { error: "Sandbox session not found or expired" },
@@ -33,6 +32,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!sandbox.allowsShell) {
+      return NextResponse.json(
+        {
+          error:
+            "The terminal is disabled for the local sandbox; set LOCAL_SANDBOX_SHELL=1 to enable it",
+        },
+        { status: 403 },
+      );
+    }
+
     const result = await sandbox.commands.run(command, {
       cwd: "/home/user/app",
       timeoutMs: 60000, // 1 minute timeout
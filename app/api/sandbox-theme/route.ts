@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { connectSandbox, writeTheme } from "@/lib/e2b-sandbox";
+import type { ColorPalette } from "@/types/canvas";
+
+/**
+ * Restyles a running preview by rewriting its theme variables
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const sandboxId: string | undefined = body.sandboxId;
+    const palette: ColorPalette | undefined = body.colorPalette;
+
+    if (!sandboxId) {
+      return NextResponse.json(
+        { error: "Sandbox ID is required" },
+        { status: 400 },
+      );
+    }
+
+    if (!palette) {
+      return NextResponse.json(
+        { error: "Color palette is required" },
+        { status: 400 },
+      );
+    }
+
+    const sandbox = await connectSandbox(sandboxId);
+    await writeTheme(sandbox, palette);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: errMsg, success: false },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import type { NextRequest } from "next/server";
+import { streamPipeline } from "@/lib/pipeline/orchestrator";
+import { DIFF_PIPELINE } from "@/lib/pipeline/pipelines";
+import { isEmptyDiff } from "@/lib/sketch-diff";
+import { COMPONENT_PATH, routeForFile } from "@/lib/sketch-pages";
+import type { SketchDiff } from "@/types/canvas";
+
+/**
+ * Edits the existing component from an element-level sketch diff instead
+ * of regenerating it. The base code is read back from the sandbox so
+ * manual edits made in the preview's code tab are preserved.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json();
+  const diff: SketchDiff | undefined = body.diff;
+
+  if (!diff || isEmptyDiff(diff) || (!body.code && !body.sandboxId)) {
+    return new Response(
+      JSON.stringify({
+        error: "A non-empty diff and the current code or sandbox are required",
+      }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    );
+  }
+
+  // The file the client is showing: the component or one of the pages
+  const filePath = String(body.path ?? COMPONENT_PATH);
+  if (routeForFile(filePath) === null) {
+    return new Response(
+      JSON.stringify({ error: `Not a generated file: ${filePath}` }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    );
+  }
+
+  return streamPipeline(
+    {
+      image: body.image,
+      sceneGraph: body.sceneGraph,
+      customPrompt: body.customPrompt,
+      sandboxId: body.sandboxId,
+      currentCode: body.code,
+      path: filePath,
+      diff,
+    },
+    DIFF_PIPELINE,
+  );
+}
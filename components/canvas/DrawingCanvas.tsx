@@ -1,9 +1,10 @@
 "use client";
 
 import dynamic from "next/dynamic";
-import { Loader2 } from "lucide-react";
+import { GitCompare, Loader2, ScanEye } from "lucide-react";
 import { useCallback, useState, useMemo, useEffect, useRef } from "react";
 import { toast } from "sonner";
+import { jobEventsUrl, useEventStream } from "@/hooks/use-event-stream";
 import { useGenerationHistory } from "@/hooks/use-generation-history";
 import { useSandboxPrewarm } from "@/hooks/use-sandbox-prewarm";
 import { AppSidebar } from "@/components/sidebar/AppSidebar";
@@ -13,21 +14,24 @@ import {
   SidebarTrigger,
 } from "@/components/ui/sidebar";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { E2BPreview } from "@/components/preview/E2BPreview";
-import type { CanvasMode } from "@/types/canvas";
+import type { CanvasMode, SceneGraph, SketchElement } from "@/types/canvas";
 import {
   compressImage,
   estimateImageSize,
   formatBytes,
 } from "@/lib/image-utils";
 import { RateLimiter } from "@/lib/rate-limiter";
+import { selectSubgraph } from "@/lib/scene-graph";
+import { compileSceneGraphToCode } from "@/lib/sketch-compiler";
+import { countChanges, diffSketch, isEmptyDiff } from "@/lib/sketch-diff";
 import { sketchCache, hashImage, createCacheKey } from "@/lib/sketch-cache";
-import {
-  validateGeneratedCode,
-  attemptCodeFix,
-  showValidationFeedback,
-} from "@/lib/code-validator";
-import { autoInstallComponents, suggestImportFixes } from "@/lib/auto-install";
+import { extractPartialCode } from "@/lib/code-stream";
+import type { FidelityReport } from "@/lib/visual-fidelity";
+import type { A11yFinding } from "@/lib/a11y-audit";
+import { addUsage, EMPTY_USAGE } from "@/lib/model-usage";
+import type { GenerationUsage } from "@/types/events";
 
 // Dynamic import to avoid SSR issues with Excalidraw
 const ExcalidrawWrapper = dynamic(() => import("./ExcalidrawWrapper"), {
@@ -39,23 +43,53 @@ const ExcalidrawWrapper = dynamic(() => import("./ExcalidrawWrapper"), {
   ),
 });
 
+// Job of the generation in flight, kept across reloads of the tab
+const ACTIVE_JOB_KEY = "drawui_active_job";
+// Model usage summed over the tab's generations and updates
+const SESSION_USAGE_KEY = "drawui_session_usage";
+
+function loadSessionUsage(): GenerationUsage {
+  try {
+    const stored = sessionStorage.getItem(SESSION_USAGE_KEY);
+    return stored ? JSON.parse(stored) : EMPTY_USAGE;
+  } catch {
+    return EMPTY_USAGE;
+  }
+}
+
 export default function DrawingCanvas() {
   const [mode, setMode] = useState<CanvasMode>("drawing");
   const [generatedCode, setGeneratedCode] = useState<string>("");
+  // Sandbox page the code lives in; unset for the single-page component
+  const [generatedPath, setGeneratedPath] = useState<string>();
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isCompressing, setIsCompressing] = useState(false);
   const [pendingImageData, setPendingImageData] = useState<string>("");
+  const [pendingSceneGraph, setPendingSceneGraph] = useState<SceneGraph>();
+  const [draftCode, setDraftCode] = useState<string>("");
+  const [selectedElementIds, setSelectedElementIds] = useState<string[]>([]);
+  const [canvasHighlight, setCanvasHighlight] = useState<{
+    elementId: string;
+    requestedAt: number;
+  } | null>(null);
+  const [pendingElements, setPendingElements] = useState<SketchElement[]>([]);
   const [imageSize, setImageSize] = useState<number>(0);
   const [styleGuide, setStyleGuide] = useState<string>("Modern & Professional");
   const [customPrompt, setCustomPrompt] = useState<string>("");
+  const [refineLayout, setRefineLayout] = useState(false);
   const [, setQualityScore] = useState<number>(0);
+  const [fidelity, setFidelity] = useState<FidelityReport | null>(null);
+  const [a11yFindings, setA11yFindings] = useState<A11yFinding[] | null>(null);
   const [streamingLogs, setStreamingLogs] = useState<string[]>([]);
-  const [, setStreamingCode] = useState<string>("");
+  const [streamingCode, setStreamingCode] = useState<string>("");
+  const [streamingPath, setStreamingPath] = useState<string>();
   const [, setCurrentIteration] = useState<number>(0);
   const [e2bSandboxUrl, setE2bSandboxUrl] = useState<string | null>(null);
   const [e2bSandboxId, setE2bSandboxId] = useState<string | undefined>(
     undefined,
   );
+  const [sessionUsage, setSessionUsage] =
+    useState<GenerationUsage>(EMPTY_USAGE);
   const [colorPalette, setColorPalette] = useState({
     primary: "#3b82f6",
     secondary: "#8b5cf6",
@@ -80,11 +114,42 @@ export default function DrawingCanvas() {
 
   // Generation history
   const history = useGenerationHistory();
+  const { read: readStream } = useEventStream();
   const generationStartTime = useRef<number>(0);
+  // Sketch elements the running generation was started from
+  const generationElementsRef = useRef<SketchElement[]>([]);
+  // Palette last written into the sandbox's theme
+  const themedPaletteRef = useRef(colorPalette);
+  // Generation or update job the cancel button stops
+  const activeJobRef = useRef<string | null>(null);
+  // Usage reported by the run in flight, stored with its history entry
+  const runUsageRef = useRef<GenerationUsage | undefined>(undefined);
+
+  // Loaded after mount so the server render matches the first client one
+  useEffect(() => {
+    setSessionUsage(loadSessionUsage());
+  }, []);
+
+  const recordUsage = useCallback((usage: GenerationUsage) => {
+    runUsageRef.current = usage;
+    setSessionUsage((prev) => {
+      const next = addUsage(prev, usage);
+      sessionStorage.setItem(SESSION_USAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
 
   // Capture and compress image data
   const handleCapture = useCallback(
-    async (imageData: string, _elementsHash: string) => {
+    async (
+      imageData: string,
+      _elementsHash: string,
+      sceneGraph: SceneGraph,
+      elements: SketchElement[],
+    ) => {
+      setPendingSceneGraph(sceneGraph);
+      setPendingElements(elements);
+      setDraftCode(compileSceneGraphToCode(sceneGraph));
       if (imageData) {
         setIsCompressing(true);
         try {
@@ -132,6 +197,8 @@ export default function DrawingCanvas() {
         customPrompt,
         colorPalette,
         generationTime: duration,
+        elements: generationElementsRef.current,
+        usage: runUsageRef.current,
       });
 
       toast.success("🚀 E2B Sandbox ready!", {
@@ -150,6 +217,113 @@ export default function DrawingCanvas() {
     });
   }, []);
 
+  // Applies the events of a generation job, whether just started or
+  // reattached after a reload
+  const consumeGeneration = useCallback(
+    async (response: Response) => {
+      // Raw model output streamed so far (still wrapped in a code fence)
+      let streamedText = "";
+
+      const settle = () => {
+        activeJobRef.current = null;
+        sessionStorage.removeItem(ACTIVE_JOB_KEY);
+      };
+
+      await readStream(response, {
+        job: (data) => {
+          activeJobRef.current = data.jobId;
+          sessionStorage.setItem(ACTIVE_JOB_KEY, data.jobId);
+        },
+        iteration: (data) => {
+          setCurrentIteration(data.current);
+          setStreamingLogs((prev) => [
+            ...prev,
+            `\n🔄 Iteration ${data.current}/${data.max}`,
+          ]);
+        },
+        log: (data) => setStreamingLogs((prev) => [...prev, data.message]),
+        page: (data) => {
+          // Pages of a multi-page sketch stream one after another
+          streamedText = "";
+          setStreamingCode("");
+          setStreamingPath(data.path);
+        },
+        "code-delta": (data) => {
+          streamedText += data.delta;
+          setStreamingCode(extractPartialCode(streamedText));
+        },
+        code: (data) => setStreamingCode(data.code),
+        quality: (data) => setQualityScore(data.score),
+        fidelity: setFidelity,
+        a11y: (data) => setA11yFindings(data.findings),
+        refine: (data) => {
+          if (data.status === "started") {
+            setStreamingLogs((prev) => [
+              ...prev,
+              `\n🎯 Refinement ${data.round}/${data.maxRounds} (fidelity ${data.score}/100)`,
+            ]);
+          }
+        },
+        sandbox: (data) => {
+          // E2B sandbox is ready
+          setE2bSandboxUrl(data.url);
+          setE2bSandboxId(data.sandboxId);
+        },
+        usage: recordUsage,
+        complete: async (data) => {
+          settle();
+          setGeneratedPath(data.pages?.[0]?.path);
+          await handleE2BGenerationComplete(
+            data.code,
+            data.sandboxUrl,
+            data.sandboxId,
+            data.iterations ?? 0,
+          );
+          setIsAnalyzing(false);
+        },
+        error: (data) => {
+          settle();
+          handleLiveGenerationError(data.message);
+          setIsAnalyzing(false);
+        },
+        cancelled: (data) => {
+          settle();
+          toast.info(data.message);
+          setIsAnalyzing(false);
+        },
+      });
+    },
+    [
+      readStream,
+      recordUsage,
+      handleE2BGenerationComplete,
+      handleLiveGenerationError,
+    ],
+  );
+
+  // Reattach to a generation that was still running when the tab reloaded
+  const reattachedRef = useRef(false);
+  useEffect(() => {
+    if (reattachedRef.current) return;
+    reattachedRef.current = true;
+
+    const jobId = sessionStorage.getItem(ACTIVE_JOB_KEY);
+    if (!jobId) return;
+
+    generationStartTime.current = performance.now();
+    runUsageRef.current = undefined;
+    setIsAnalyzing(true);
+    setStreamingLogs(["🔌 Reattaching to the running generation..."]);
+    fetch(jobEventsUrl(jobId))
+      .then(consumeGeneration)
+      .catch((err) => {
+        activeJobRef.current = null;
+        sessionStorage.removeItem(ACTIVE_JOB_KEY);
+        handleLiveGenerationError(err.message);
+        setIsAnalyzing(false);
+      });
+  }, [consumeGeneration, handleLiveGenerationError]);
+
   // Manual generation triggered by button with rate limiting
   const handleGenerate = useCallback(async () => {
     if (!pendingImageData) {
@@ -171,6 +345,7 @@ export default function DrawingCanvas() {
 
     if (cachedCode) {
       setGeneratedCode(cachedCode);
+      setGeneratedPath(undefined);
       setMode("preview");
       toast.success("Loaded from cache!", {
         description: "Identical sketch found",
@@ -183,6 +358,7 @@ export default function DrawingCanvas() {
         customPrompt,
         colorPalette,
         generationTime: 0,
+        elements: pendingElements,
       });
 
       return;
@@ -198,19 +374,26 @@ export default function DrawingCanvas() {
     }
 
     generationStartTime.current = performance.now();
+    generationElementsRef.current = pendingElements;
+    runUsageRef.current = undefined;
     rateLimiter.recordRequest();
     setIsAnalyzing(true);
 
     // Reset streaming state
     setStreamingLogs([]);
     setStreamingCode("");
+    setStreamingPath(undefined);
     setCurrentIteration(0);
+    setFidelity(null);
+    setA11yFindings(null);
     // Keep the sandbox URL/ID if we have a pre-warmed one
     if (!prewarmedSandboxId) {
       setE2bSandboxUrl(null);
       setE2bSandboxId(undefined);
     }
 
+    themedPaletteRef.current = colorPalette;
+
     // Start streaming generation with E2B (use existing sandbox if available)
     fetch("/api/generate-e2b", {
       method: "POST",
@@ -220,103 +403,213 @@ export default function DrawingCanvas() {
         styleGuide,
         customPrompt,
         colorPalette,
+        sceneGraph: pendingSceneGraph,
+        refine: refineLayout,
         sandboxId: activeSandboxId, // Pass existing sandbox ID for reuse
       }),
     })
-      .then(async (response) => {
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-
-        if (!reader) {
-          toast.error("Failed to start generation");
-          setIsAnalyzing(false);
-          return;
-        }
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const text = decoder.decode(value);
-          const lines = text.split("\n");
-
-          for (const line of lines) {
-            if (line.startsWith("event:")) {
-              const event = line.substring(7).trim();
-              const dataLineIndex = lines.indexOf(line) + 1;
-              const dataLine = lines[dataLineIndex];
-
-              if (dataLine?.startsWith("data:")) {
-                const data = JSON.parse(dataLine.substring(6));
-
-                switch (event) {
-                  case "start":
-                    setStreamingLogs((prev) => [...prev, data.message]);
-                    break;
-
-                  case "iteration":
-                    setCurrentIteration(data.current);
-                    setStreamingLogs((prev) => [
-                      ...prev,
-                      `\n🔄 Iteration ${data.current}/${data.max}`,
-                    ]);
-                    break;
-
-                  case "log":
-                    setStreamingLogs((prev) => [...prev, data.message]);
-                    break;
-
-                  case "code":
-                    setStreamingCode(data.code);
-                    break;
-
-                  case "quality":
-                    setQualityScore(data.score);
-                    break;
-
-                  case "sandbox":
-                    // E2B sandbox is ready
-                    setE2bSandboxUrl(data.url);
-                    setE2bSandboxId(data.sandboxId);
-                    break;
-
-                  case "complete":
-                    await handleE2BGenerationComplete(
-                      data.code,
-                      data.sandboxUrl,
-                      data.sandboxId,
-                      data.iterations,
-                    );
-                    setIsAnalyzing(false);
-                    break;
-
-                  case "error":
-                    handleLiveGenerationError(data.message);
-                    setIsAnalyzing(false);
-                    break;
-                }
-              }
-            }
-          }
-        }
-      })
+      .then(consumeGeneration)
       .catch((err) => {
         handleLiveGenerationError(err.message);
         setIsAnalyzing(false);
       });
   }, [
     pendingImageData,
+    pendingSceneGraph,
+    pendingElements,
     styleGuide,
     customPrompt,
     colorPalette,
+    refineLayout,
     rateLimiter,
     activeSandboxId,
     prewarmedSandboxId,
-    handleE2BGenerationComplete,
+    consumeGeneration,
     handleLiveGenerationError,
     history.addEntry,
   ]);
 
+  // Region, diff and accessibility updates all patch the existing component
+  // as jobs, which reattach after a reload like a generation
+  const runIncrementalUpdate = useCallback(
+    async (
+      endpoint: string,
+      payload: Record<string, unknown>,
+      successDescription: string,
+    ) => {
+      if (!rateLimiter.canMakeRequest()) {
+        const resetTime = Math.ceil(rateLimiter.getResetTime() / 1000);
+        toast.error("Rate limit exceeded", {
+          description: `Please wait ${resetTime} seconds before generating again`,
+        });
+        return;
+      }
+
+      generationStartTime.current = performance.now();
+      runUsageRef.current = undefined;
+      rateLimiter.recordRequest();
+      setIsAnalyzing(true);
+      setStreamingLogs([]);
+
+      const settle = () => {
+        activeJobRef.current = null;
+        sessionStorage.removeItem(ACTIVE_JOB_KEY);
+      };
+
+      try {
+        const response = await fetch(endpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            image: pendingImageData,
+            code: generatedCode,
+            customPrompt,
+            sandboxId: e2bSandboxId,
+            path: generatedPath,
+            ...payload,
+          }),
+        });
+
+        await readStream(response, {
+          job: (data) => {
+            activeJobRef.current = data.jobId;
+            sessionStorage.setItem(ACTIVE_JOB_KEY, data.jobId);
+          },
+          log: (data) => setStreamingLogs((prev) => [...prev, data.message]),
+          a11y: (data) => setA11yFindings(data.findings),
+          usage: recordUsage,
+          complete: (data) => {
+            settle();
+            const duration =
+              (performance.now() - generationStartTime.current) / 1000;
+            setGeneratedCode(data.code);
+            history.addEntry({
+              code: data.code,
+              thumbnail: pendingImageData,
+              styleGuide,
+              customPrompt,
+              colorPalette,
+              generationTime: duration,
+              elements: pendingElements,
+              usage: runUsageRef.current,
+            });
+            setMode("preview");
+            toast.success("Component updated", {
+              description: successDescription,
+            });
+          },
+          error: (data) => {
+            settle();
+            handleLiveGenerationError(data.message);
+          },
+          cancelled: () => {
+            settle();
+            toast.info("Update cancelled");
+          },
+        });
+      } catch (error) {
+        settle();
+        handleLiveGenerationError(
+          error instanceof Error ? error.message : "Unknown error",
+        );
+      } finally {
+        setIsAnalyzing(false);
+      }
+    },
+    [
+      generatedCode,
+      generatedPath,
+      pendingImageData,
+      pendingElements,
+      styleGuide,
+      customPrompt,
+      colorPalette,
+      e2bSandboxId,
+      rateLimiter,
+      history.addEntry,
+      handleLiveGenerationError,
+      recordUsage,
+      readStream,
+    ],
+  );
+
+  // Stop the generation or update job in flight
+  const handleCancel = useCallback(async () => {
+    const jobId = activeJobRef.current;
+    if (!jobId) return;
+    setStreamingLogs((prev) => [...prev, "🛑 Cancelling..."]);
+    const response = await fetch(
+      `/api/jobs/${encodeURIComponent(jobId)}/cancel`,
+      { method: "POST" },
+    ).catch(() => null);
+    if (!response?.ok) {
+      toast.error("Could not cancel the generation");
+    }
+  }, []);
+
+  // Regenerate only the part of the component covered by the selection
+  const handleRegenerateRegion = useCallback(async () => {
+    const selection =
+      pendingSceneGraph &&
+      selectSubgraph(pendingSceneGraph, selectedElementIds);
+
+    if (!selection || !generatedCode) {
+      toast.error("Nothing to regenerate", {
+        description: "Select elements of an already generated sketch",
+      });
+      return;
+    }
+
+    await runIncrementalUpdate(
+      "/api/regenerate-region",
+      { selection },
+      `${selection.elementIds.length} selected element${selection.elementIds.length > 1 ? "s" : ""} regenerated`,
+    );
+  }, [
+    pendingSceneGraph,
+    selectedElementIds,
+    generatedCode,
+    runIncrementalUpdate,
+  ]);
+
+  // Sketch changes since the elements of the current history entry
+  const sketchDiff = useMemo(() => {
+    const baseElements = history.currentEntry?.elements;
+    if (!baseElements || pendingElements.length === 0) return null;
+    const diff = diffSketch(baseElements, pendingElements);
+    return isEmptyDiff(diff) ? null : diff;
+  }, [history.currentEntry, pendingElements]);
+
+  // Edit the existing component from the sketch diff instead of regenerating
+  const handleUpdateFromDiff = useCallback(async () => {
+    if (!sketchDiff) return;
+
+    const changes = countChanges(sketchDiff);
+    await runIncrementalUpdate(
+      "/api/update-from-diff",
+      { diff: sketchDiff, sceneGraph: pendingSceneGraph },
+      `${changes} sketch change${changes > 1 ? "s" : ""} applied`,
+    );
+  }, [sketchDiff, pendingSceneGraph, runIncrementalUpdate]);
+
+  // Hand the audit findings to the model for an in-place fix
+  const handleFixAccessibility = useCallback(
+    async (findings: A11yFinding[]) => {
+      await runIncrementalUpdate(
+        "/api/fix-accessibility",
+        { findings, colorPalette },
+        `${findings.length} accessibility finding${findings.length > 1 ? "s" : ""} addressed`,
+      );
+    },
+    [colorPalette, runIncrementalUpdate],
+  );
+
+  // Clicking an element in the preview jumps to its shape on the canvas
+  const handlePreviewElementSelect = useCallback((elementId: string) => {
+    setMode("drawing");
+    setCanvasHighlight({ elementId, requestedAt: Date.now() });
+  }, []);
+
   const toggleMode = () => {
     setMode((prev) => (prev === "drawing" ? "preview" : "drawing"));
   };
@@ -395,6 +688,32 @@ export default function DrawingCanvas() {
     [handleUndo, handleRedo, handleGenerate, toggleMode],
   );
 
+  // Restyle the running preview when the palette changes; the generated
+  // code only uses the theme's semantic classes
+  useEffect(() => {
+    if (!e2bSandboxId || themedPaletteRef.current === colorPalette) return;
+    const timer = setTimeout(() => {
+      themedPaletteRef.current = colorPalette;
+      fetch("/api/sandbox-theme", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sandboxId: e2bSandboxId, colorPalette }),
+      })
+        .then(async (response) => {
+          if (!response.ok) {
+            const result = await response.json();
+            throw new Error(result.error || "Theme update failed");
+          }
+        })
+        .catch((error) => {
+          toast.error("Could not restyle the preview", {
+            description: error.message,
+          });
+        });
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [colorPalette, e2bSandboxId]);
+
   // Handle terminal commands in E2B sandbox
   const handleRunCommand = useCallback(
     async (
@@ -456,11 +775,14 @@ export default function DrawingCanvas() {
         isCompressing={isCompressing}
         canGenerate={!!pendingImageData}
         onGenerate={handleGenerate}
+        onCancel={handleCancel}
         hasCode={!!generatedCode}
         styleGuide={styleGuide}
         onStyleGuideChange={setStyleGuide}
         customPrompt={customPrompt}
         onCustomPromptChange={setCustomPrompt}
+        refineLayout={refineLayout}
+        onRefineLayoutChange={setRefineLayout}
         colorPalette={colorPalette}
         onColorPaletteChange={setColorPalette}
         historyEntries={history.entries}
@@ -474,6 +796,7 @@ export default function DrawingCanvas() {
         canRedo={history.canRedo}
         imageSize={imageSize}
         remainingRequests={rateLimiter.getRemainingRequests()}
+        sessionUsage={sessionUsage}
         generatedCode={generatedCode}
         onShortcut={handleShortcut}
       />
@@ -512,6 +835,31 @@ export default function DrawingCanvas() {
             )}
             {generatedCode && (
               <div className="ml-auto flex items-center gap-2">
+                {mode === "drawing" &&
+                  sketchDiff &&
+                  selectedElementIds.length === 0 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={handleUpdateFromDiff}
+                      disabled={isAnalyzing}
+                    >
+                      <GitCompare className="h-3 w-3 mr-1" />
+                      Update from {countChanges(sketchDiff)} change
+                      {countChanges(sketchDiff) > 1 ? "s" : ""}
+                    </Button>
+                  )}
+                {mode === "drawing" && selectedElementIds.length > 0 && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleRegenerateRegion}
+                    disabled={isAnalyzing}
+                  >
+                    <ScanEye className="h-3 w-3 mr-1" />
+                    Regenerate selection
+                  </Button>
+                )}
                 {isCompressing && (
                   <div className="text-xs text-muted-foreground flex items-center gap-2">
                     <Loader2 className="h-3 w-3 animate-spin" />
@@ -531,7 +879,11 @@ export default function DrawingCanvas() {
             <div
               className={`w-full h-full absolute inset-0 ${mode === "drawing" ? "z-10" : "z-0 invisible"}`}
             >
-              <ExcalidrawWrapper onCapture={handleCapture} />
+              <ExcalidrawWrapper
+                onCapture={handleCapture}
+                onSelectionChange={setSelectedElementIds}
+                highlight={canvasHighlight}
+              />
             </div>
 
             {/* Website Preview */}
@@ -543,6 +895,14 @@ export default function DrawingCanvas() {
                 sandboxId={activeSandboxId}
                 isLoading={isAnalyzing}
                 logs={streamingLogs}
+                streamingCode={streamingCode}
+                streamingPath={streamingPath}
+                draftCode={draftCode}
+                focusElementId={selectedElementIds[0]}
+                fidelity={fidelity}
+                accessibilityFindings={a11yFindings}
+                onFixAccessibility={handleFixAccessibility}
+                onElementSelect={handlePreviewElementSelect}
                 onRunCommand={handleRunCommand}
               />
             </div>
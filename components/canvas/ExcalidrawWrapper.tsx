@@ -5,16 +5,30 @@ import "@excalidraw/excalidraw/index.css";
 import "@/app/excalidraw-custom.css";
 import { useCallback, useRef, useEffect } from "react";
 import { hashString } from "@/lib/canvas-utils";
+import { buildSceneGraph } from "@/lib/scene-graph";
+import { toSketchElements } from "@/lib/sketch-diff";
+import type { SceneGraph, SketchElement } from "@/types/canvas";
 
 interface ExcalidrawWrapperProps {
-  onCapture: (imageData: string, elementsHash: string) => void;
+  onCapture: (
+    imageData: string,
+    elementsHash: string,
+    sceneGraph: SceneGraph,
+    elements: SketchElement[],
+  ) => void;
+  onSelectionChange?: (elementIds: string[]) => void;
+  // Selects and scrolls to a shape; `requestedAt` re-triggers the same id
+  highlight?: { elementId: string; requestedAt: number } | null;
 }
 
 export default function ExcalidrawWrapper({
   onCapture,
+  onSelectionChange,
+  highlight,
 }: ExcalidrawWrapperProps) {
   const excalidrawAPIRef = useRef<any>(null);
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const selectionKeyRef = useRef("");
 
   const captureAndAnalyze = useCallback(
     async (elements: readonly any[]) => {
@@ -75,7 +89,12 @@ export default function ExcalidrawWrapper({
         console.log(`📸 Captured in ${captureTime.toFixed(0)}ms`);
 
         // Send to parent
-        onCapture(imageData, elementsHash);
+        onCapture(
+          imageData,
+          elementsHash,
+          buildSceneGraph(elements),
+          toSketchElements(elements),
+        );
       } catch (error) {
         console.error("Failed to capture canvas:", error);
       }
@@ -84,7 +103,18 @@ export default function ExcalidrawWrapper({
   );
 
   const handleChange = useCallback(
-    (elements: readonly any[], _appState: any) => {
+    (elements: readonly any[], appState: any) => {
+      // Selection is reported right away, only the capture is debounced
+      const selectedIds = Object.entries(appState?.selectedElementIds ?? {})
+        .filter(([, selected]) => selected)
+        .map(([id]) => id)
+        .sort();
+      const selectionKey = selectedIds.join(",");
+      if (selectionKey !== selectionKeyRef.current) {
+        selectionKeyRef.current = selectionKey;
+        onSelectionChange?.(selectedIds);
+      }
+
       if (elements.length === 0) {
         return;
       }
@@ -103,7 +133,7 @@ export default function ExcalidrawWrapper({
         captureAndAnalyze(elements);
       }, 2000);
     },
-    [captureAndAnalyze],
+    [captureAndAnalyze, onSelectionChange],
   );
 
   const handleExcalidrawAPI = useCallback((api: any) => {
@@ -111,6 +141,21 @@ export default function ExcalidrawWrapper({
     excalidrawAPIRef.current = api;
   }, []);
 
+  useEffect(() => {
+    const api = excalidrawAPIRef.current;
+    if (!api || !highlight) return;
+
+    const element = api
+      .getSceneElements()
+      .find((el: { id: string }) => el.id === highlight.elementId);
+    if (!element) return;
+
+    api.updateScene({
+      appState: { selectedElementIds: { [element.id]: true } },
+    });
+    api.scrollToContent(element, { animate: true });
+  }, [highlight]);
+
   // Cleanup debounce timer on unmount
   useEffect(() => {
     return () => {
@@ -10,6 +10,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { stripElementIds } from "@/lib/element-ids";
 import {
   exportToCodeSandbox,
   exportToStackBlitz,
@@ -22,7 +23,10 @@ interface ExportMenuProps {
   disabled?: boolean;
 }
 
-export function ExportMenu({ code, disabled }: ExportMenuProps) {
+export function ExportMenu({ code: sourceCode, disabled }: ExportMenuProps) {
+  // Element id attributes only matter inside DrawUI's preview
+  const code = stripElementIds(sourceCode);
+
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
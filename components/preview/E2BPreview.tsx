@@ -1,6 +1,7 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import Image from "next/image";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import {
   Loader2,
   ExternalLink,
@@ -12,18 +13,46 @@ import {
   PanelLeft,
   Code,
   Save,
+  Target,
+  Accessibility,
+  Wand2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
 import { FileExplorer } from "@/components/sandbox/FileExplorer";
+import type { A11yFinding, A11yImpact } from "@/lib/a11y-audit";
+import { ELEMENT_SELECT_MESSAGE, findElementLine } from "@/lib/element-ids";
 import { cn } from "@/lib/utils";
+import { FIDELITY_THRESHOLD, type FidelityReport } from "@/lib/visual-fidelity";
+
+const IMPACT_ORDER: A11yImpact[] = ["critical", "serious", "moderate", "minor"];
+
+const IMPACT_STYLES: Record<A11yImpact, string> = {
+  critical: "bg-red-500/20 text-red-300",
+  serious: "bg-orange-500/20 text-orange-300",
+  moderate: "bg-yellow-500/20 text-yellow-300",
+  minor: "bg-slate-500/20 text-slate-300",
+};
 
 interface E2BPreviewProps {
   sandboxUrl: string | null;
   sandboxId?: string;
   isLoading?: boolean;
   logs?: string[];
+  streamingCode?: string;
+  streamingPath?: string;
+  draftCode?: string; // offline layout draft shown until a file is opened
+  focusElementId?: string; // canvas selection to scroll the code tab to
+  onElementSelect?: (elementId: string) => void; // element clicked in preview
+  fidelity?: FidelityReport | null; // rendered layout vs. the sketch
+  accessibilityFindings?: A11yFinding[] | null;
+  onFixAccessibility?: (findings: A11yFinding[]) => void;
   onRunCommand?: (
     command: string,
   ) => Promise<{ stdout: string; stderr: string; exitCode: number }>;
@@ -34,16 +63,25 @@ export function E2BPreview({
   sandboxId,
   isLoading = false,
   logs = [],
+  streamingCode = "",
+  streamingPath = "app/component.tsx",
+  draftCode = "",
+  focusElementId,
+  onElementSelect,
+  fidelity,
+  accessibilityFindings,
+  onFixAccessibility,
   onRunCommand,
 }: E2BPreviewProps) {
-  const [activeTab, setActiveTab] = useState<"preview" | "terminal" | "code">(
-    "preview",
-  );
+  const [activeTab, setActiveTab] = useState<
+    "preview" | "terminal" | "code" | "a11y"
+  >("preview");
   const [showFileExplorer, setShowFileExplorer] = useState(true);
 
   // Preview state
   const [iframeKey, setIframeKey] = useState(0);
   const [iframeLoaded, setIframeLoaded] = useState(false);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
 
   // Code editor state
   const [currentFilePath, setCurrentFilePath] = useState<string | null>(null);
@@ -61,6 +99,35 @@ export function E2BPreview({
   const [isRunningCommand, setIsRunningCommand] = useState(false);
   const terminalRef = useRef<HTMLDivElement>(null);
 
+  // Streaming code state
+  const streamingCodeRef = useRef<HTMLPreElement>(null);
+  const followingStreamRef = useRef(false);
+  const isStreamingCode = isLoading && !!streamingCode;
+  const isShowingDraft = !isStreamingCode && !currentFilePath && !!draftCode;
+
+  // Element-to-code linking
+  const codeViewRef = useRef<HTMLElement | null>(null);
+  const setCodeView = useCallback((node: HTMLElement | null) => {
+    codeViewRef.current = node;
+  }, []);
+  const focusLine = useMemo(() => {
+    if (!focusElementId) return -1;
+    return findElementLine(
+      isShowingDraft ? draftCode : currentFileContent,
+      focusElementId,
+    );
+  }, [focusElementId, isShowingDraft, draftCode, currentFileContent]);
+
+  // Most severe accessibility findings first
+  const a11yFindings = useMemo(
+    () =>
+      [...(accessibilityFindings ?? [])].sort(
+        (a, b) =>
+          IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact),
+      ),
+    [accessibilityFindings],
+  );
+
   // Auto-scroll terminal
   useEffect(() => {
     if (terminalRef.current) {
@@ -68,6 +135,49 @@ export function E2BPreview({
     }
   }, [terminalHistory]);
 
+  // Show the code tab while the component is being generated,
+  // then return to the preview once generation finishes
+  useEffect(() => {
+    if (isStreamingCode && !followingStreamRef.current) {
+      followingStreamRef.current = true;
+      setActiveTab("code");
+    } else if (!isLoading && followingStreamRef.current) {
+      followingStreamRef.current = false;
+      setActiveTab("preview");
+    }
+  }, [isStreamingCode, isLoading]);
+
+  // Auto-scroll streaming code
+  useEffect(() => {
+    if (streamingCodeRef.current && streamingCode) {
+      streamingCodeRef.current.scrollTop =
+        streamingCodeRef.current.scrollHeight;
+    }
+  }, [streamingCode]);
+
+  // Clicks inside the sandbox app are reported by its DrawUI bridge
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      if (event.data?.type !== ELEMENT_SELECT_MESSAGE) return;
+      if (typeof event.data.elementId === "string") {
+        onElementSelect?.(event.data.elementId);
+      }
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [onElementSelect]);
+
+  // Scroll the code view to the JSX of the selected shape
+  useEffect(() => {
+    const view = codeViewRef.current;
+    if (!view || focusLine < 0 || activeTab !== "code") return;
+
+    const lineHeight = Number.parseFloat(getComputedStyle(view).lineHeight);
+    view.scrollTop = Math.max(0, (focusLine - 2) * (lineHeight || 16));
+  }, [focusLine, activeTab]);
+
   const handleRefresh = useCallback(() => {
     setIframeKey((prev) => prev + 1);
     setIframeLoaded(false);
@@ -230,6 +340,71 @@ export function E2BPreview({
           <div className="flex items-center gap-1 flex-shrink-0">
             {sandboxUrl && activeTab === "preview" && (
               <>
+                {fidelity && (
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className={cn(
+                          "h-7 px-2 text-xs gap-1",
+                          fidelity.score >= FIDELITY_THRESHOLD
+                            ? "text-green-400 hover:text-green-300"
+                            : "text-yellow-400 hover:text-yellow-300",
+                        )}
+                        title="How closely the preview follows the sketch"
+                      >
+                        <Target className="h-3.5 w-3.5" />
+                        {fidelity.score}%
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent align="end" className="w-80 space-y-3">
+                      <div className="text-sm font-medium">
+                        Visual fidelity: {fidelity.score}/100
+                      </div>
+                      {fidelity.screenshot && (
+                        // A data URL from the sandbox, so there's nothing to optimize
+                        <Image
+                          src={fidelity.screenshot}
+                          alt="Rendered preview"
+                          width={640}
+                          height={400}
+                          unoptimized
+                          className="h-auto max-h-48 w-full rounded border object-cover object-top"
+                        />
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {fidelity.matched.length} matched ·{" "}
+                        {fidelity.missing.length} missing ·{" "}
+                        {fidelity.extra.length} extra
+                      </p>
+                      {[
+                        ...fidelity.missing.map((id) => ({
+                          id,
+                          label: "missing",
+                        })),
+                        ...fidelity.matched
+                          .filter((match) => match.iou < 0.5)
+                          .sort((a, b) => a.iou - b.iou)
+                          .map((match) => ({
+                            id: match.elementId,
+                            label: `${match.kind}, overlap ${Math.round(match.iou * 100)}%`,
+                          })),
+                      ]
+                        .slice(0, 8)
+                        .map(({ id, label }) => (
+                          <button
+                            key={id}
+                            type="button"
+                            onClick={() => onElementSelect?.(id)}
+                            className="block w-full truncate text-left font-mono text-xs hover:underline"
+                          >
+                            #{id} — {label}
+                          </button>
+                        ))}
+                    </PopoverContent>
+                  </Popover>
+                )}
                 <Button
                   variant="ghost"
                   size="sm"
@@ -278,7 +453,7 @@ export function E2BPreview({
             size="sm"
             onClick={() => setActiveTab("code")}
             className="h-7 px-3 text-xs"
-            disabled={!currentFilePath}
+            disabled={!currentFilePath && !isStreamingCode && !draftCode}
           >
             <Code className="h-3 w-3 mr-1" />
             Code
@@ -286,6 +461,21 @@ export function E2BPreview({
               <span className="ml-1 text-yellow-400">●</span>
             )}
           </Button>
+          <Button
+            variant={activeTab === "a11y" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setActiveTab("a11y")}
+            className="h-7 px-3 text-xs"
+            disabled={!accessibilityFindings}
+          >
+            <Accessibility className="h-3 w-3 mr-1" />
+            A11y
+            {a11yFindings.length > 0 && (
+              <span className="ml-1 rounded-full bg-red-500/20 px-1.5 text-[10px] text-red-300">
+                {a11yFindings.length}
+              </span>
+            )}
+          </Button>
         </div>
 
         {/* Content */}
@@ -335,6 +525,7 @@ export function E2BPreview({
               {/* Iframe */}
               {sandboxUrl && (
                 <iframe
+                  ref={iframeRef}
                   key={iframeKey}
                   src={sandboxUrl}
                   title="E2B Sandbox Preview"
@@ -354,6 +545,11 @@ export function E2BPreview({
                     <p className="text-sm text-slate-600 mt-1">
                       Your component will appear here in a live sandbox
                     </p>
+                    {draftCode && (
+                      <p className="text-sm text-slate-600 mt-1">
+                        An offline layout draft is ready in the Code tab
+                      </p>
+                    )}
                   </div>
                 </div>
               )}
@@ -421,6 +617,70 @@ export function E2BPreview({
             </div>
           )}
 
+          {/* Accessibility Tab */}
+          {activeTab === "a11y" && (
+            <div className="absolute inset-0 flex flex-col bg-slate-950">
+              <div className="flex items-center justify-between px-3 py-2 bg-slate-900 border-b border-slate-800">
+                <span className="text-xs text-slate-400">
+                  {a11yFindings.length === 0
+                    ? "No accessibility issues found"
+                    : `${a11yFindings.length} accessibility issue(s)`}
+                </span>
+                {onFixAccessibility && a11yFindings.length > 0 && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onFixAccessibility(a11yFindings)}
+                    disabled={isLoading}
+                    className="h-7 px-3 text-xs"
+                  >
+                    {isLoading ? (
+                      <Loader2 className="h-3 w-3 animate-spin mr-1" />
+                    ) : (
+                      <Wand2 className="h-3 w-3 mr-1" />
+                    )}
+                    Fix automatically
+                  </Button>
+                )}
+              </div>
+              <div className="flex-1 overflow-auto p-2 space-y-1">
+                {a11yFindings.map((finding, i) => (
+                  <button
+                    key={`${finding.ruleId}-${i}`}
+                    type="button"
+                    onClick={() =>
+                      finding.elementId && onElementSelect?.(finding.elementId)
+                    }
+                    disabled={!finding.elementId}
+                    className="flex w-full items-start gap-2 rounded px-2 py-1.5 text-left text-xs hover:bg-slate-800 disabled:hover:bg-transparent"
+                  >
+                    <span
+                      className={cn(
+                        "shrink-0 rounded px-1.5 py-0.5 text-[10px] uppercase",
+                        IMPACT_STYLES[finding.impact],
+                      )}
+                    >
+                      {finding.impact}
+                    </span>
+                    <span className="min-w-0 flex-1">
+                      <span className="text-slate-200">{finding.message}</span>
+                      {finding.snippet && (
+                        <code className="mt-0.5 block truncate font-mono text-[10px] text-slate-500">
+                          {finding.snippet}
+                        </code>
+                      )}
+                    </span>
+                    {finding.elementId && (
+                      <span className="shrink-0 font-mono text-[10px] text-slate-500">
+                        #{finding.elementId}
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Code Tab */}
           {activeTab === "code" && (
             <div className="absolute inset-0 flex flex-col bg-slate-950">
@@ -429,8 +689,15 @@ export function E2BPreview({
                 <div className="flex items-center gap-2 min-w-0">
                   <Code className="h-4 w-4 text-slate-400 flex-shrink-0" />
                   <span className="text-xs text-slate-300 font-mono truncate">
-                    {currentFilePath || "No file selected"}
+                    {isStreamingCode
+                      ? streamingPath
+                      : isShowingDraft
+                        ? "Offline draft (layout only)"
+                        : currentFilePath || "No file selected"}
                   </span>
+                  {isStreamingCode && (
+                    <Loader2 className="h-3 w-3 animate-spin text-slate-400" />
+                  )}
                   {hasUnsavedChanges && (
                     <span className="text-xs text-yellow-400">●</span>
                   )}
@@ -438,7 +705,7 @@ export function E2BPreview({
                 <Button
                   size="sm"
                   onClick={handleSaveFile}
-                  disabled={!hasUnsavedChanges || isSaving}
+                  disabled={!hasUnsavedChanges || isSaving || isStreamingCode}
                   className="h-7 px-3 text-xs"
                 >
                   {isSaving ? (
@@ -452,12 +719,27 @@ export function E2BPreview({
 
               {/* Code editor */}
               <div className="flex-1 overflow-hidden">
-                {isLoadingFile ? (
+                {isStreamingCode ? (
+                  <pre
+                    ref={streamingCodeRef}
+                    className="w-full h-full overflow-auto p-3 font-mono text-xs text-slate-300 whitespace-pre"
+                  >
+                    {streamingCode}
+                  </pre>
+                ) : isLoadingFile ? (
                   <div className="flex items-center justify-center h-full">
                     <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
                   </div>
+                ) : isShowingDraft ? (
+                  <pre
+                    ref={setCodeView}
+                    className="w-full h-full overflow-auto p-3 font-mono text-xs text-slate-300 whitespace-pre"
+                  >
+                    {draftCode}
+                  </pre>
                 ) : currentFilePath ? (
                   <Textarea
+                    ref={setCodeView}
                     value={editableCode}
                     onChange={(e) => handleCodeChange(e.target.value)}
                     className="w-full h-full resize-none font-mono text-xs bg-slate-950 border-0 rounded-none focus-visible:ring-0 text-slate-300"
@@ -8,10 +8,12 @@ import {
   Undo2,
   Redo2,
   Palette,
+  AlertTriangle,
   Download,
   Keyboard,
   Wand2,
   FileText,
+  Square,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -35,6 +37,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Dialog,
@@ -48,6 +51,12 @@ import { HistoryPanel } from "@/components/history/HistoryPanel";
 import { HistoryList } from "@/components/history/HistoryList";
 import { ExportMenu } from "@/components/export/ExportMenu";
 import { KeyboardShortcuts } from "@/components/accessibility/KeyboardShortcuts";
+import {
+  hasContrastIssues,
+  PaletteContrast,
+} from "@/components/sidebar/PaletteContrast";
+import { formatCost, formatTokens } from "@/lib/model-usage";
+import type { GenerationUsage } from "@/types/events";
 import type { GenerationHistoryEntry } from "@/types/history";
 
 interface AppSidebarProps {
@@ -57,11 +66,14 @@ interface AppSidebarProps {
   isCompressing: boolean;
   canGenerate: boolean;
   onGenerate: () => void;
+  onCancel?: () => void;
   hasCode: boolean;
   styleGuide: string;
   onStyleGuideChange: (style: string) => void;
   customPrompt: string;
   onCustomPromptChange: (prompt: string) => void;
+  refineLayout: boolean;
+  onRefineLayoutChange: (refine: boolean) => void;
   colorPalette: {
     primary: string;
     secondary: string;
@@ -81,6 +93,7 @@ interface AppSidebarProps {
   canRedo: boolean;
   imageSize?: number;
   remainingRequests?: number;
+  sessionUsage?: GenerationUsage; // model usage of this tab's runs
   generatedCode: string;
   onShortcut?: (action: string) => void;
 }
@@ -202,6 +215,20 @@ export function AppSidebar(props: AppSidebarProps) {
                   </span>
                 </SidebarMenuButton>
               </SidebarMenuItem>
+              {props.isGenerating && props.onCancel && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton
+                    onClick={props.onCancel}
+                    tooltip="Cancel generation"
+                    className="text-destructive hover:text-destructive group-data-[collapsible=icon]:justify-center"
+                  >
+                    <Square className="h-4 w-4" />
+                    <span className="group-data-[collapsible=icon]:sr-only">
+                      Cancel
+                    </span>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
@@ -290,6 +317,9 @@ export function AppSidebar(props: AppSidebarProps) {
                         ))}
                     </div>
                     <Palette className="h-4 w-4 ml-auto" />
+                    {hasContrastIssues(props.colorPalette) && (
+                      <AlertTriangle className="h-3 w-3 text-destructive" />
+                    )}
                   </Button>
                 </DialogTrigger>
                 <DialogContent className="max-w-md">
@@ -325,6 +355,9 @@ export function AppSidebar(props: AppSidebarProps) {
                                 ))}
                               </div>
                               <span className="text-xs">{name}</span>
+                              {hasContrastIssues(palette) && (
+                                <AlertTriangle className="h-3 w-3 ml-auto text-destructive" />
+                              )}
                             </Button>
                           ),
                         )}
@@ -355,6 +388,10 @@ export function AppSidebar(props: AppSidebarProps) {
                         )}
                       </div>
                     </div>
+                    <PaletteContrast
+                      palette={props.colorPalette}
+                      onPaletteChange={props.onColorPaletteChange}
+                    />
                   </div>
                 </DialogContent>
               </Dialog>
@@ -393,6 +430,20 @@ export function AppSidebar(props: AppSidebarProps) {
                 </DialogContent>
               </Dialog>
             </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <Label
+                htmlFor="refine-layout"
+                className="text-xs text-muted-foreground"
+              >
+                Refine layout to match sketch
+              </Label>
+              <Switch
+                id="refine-layout"
+                checked={props.refineLayout}
+                onCheckedChange={props.onRefineLayoutChange}
+              />
+            </div>
           </SidebarGroupContent>
         </SidebarGroup>
 
@@ -456,7 +507,9 @@ export function AppSidebar(props: AppSidebarProps) {
         </SidebarGroup>
 
         {/* Stats */}
-        {(props.imageSize || props.remainingRequests !== undefined) && (
+        {(props.imageSize ||
+          props.remainingRequests !== undefined ||
+          !!props.sessionUsage?.calls) && (
           <>
             <SidebarSeparator className="group-data-[collapsible=icon]:hidden" />
             <SidebarGroup className="group-data-[collapsible=icon]:hidden">
@@ -474,6 +527,29 @@ export function AppSidebar(props: AppSidebarProps) {
                       <span>{props.remainingRequests}/5</span>
                     </div>
                   )}
+                  {!!props.sessionUsage?.calls && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">
+                          Model calls
+                        </span>
+                        <span>{props.sessionUsage.calls}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">
+                          Tokens in/out
+                        </span>
+                        <span>
+                          {formatTokens(props.sessionUsage.promptTokens)} /{" "}
+                          {formatTokens(props.sessionUsage.responseTokens)}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Est. cost</span>
+                        <span>{formatCost(props.sessionUsage.costUsd)}</span>
+                      </div>
+                    </>
+                  )}
                 </div>
               </SidebarGroupContent>
             </SidebarGroup>
@@ -0,0 +1,89 @@
+"use client";
+
+import { AlertTriangle, Check, Wand2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { adjustPaletteForAA, checkPaletteContrast } from "@/lib/color-contrast";
+import { cn } from "@/lib/utils";
+import type { ColorPalette } from "@/types/canvas";
+
+interface PaletteContrastProps {
+  palette: ColorPalette;
+  onPaletteChange: (palette: ColorPalette) => void;
+}
+
+/**
+ * True when any of the palette's pairs fails WCAG AA
+ */
+export function hasContrastIssues(palette: ColorPalette): boolean {
+  return checkPaletteContrast(palette).some((pair) => !pair.passes);
+}
+
+/**
+ * WCAG AA contrast of the palette's pairs, with a one-click fix that nudges
+ * the failing colors' lightness
+ */
+export function PaletteContrast({
+  palette,
+  onPaletteChange,
+}: PaletteContrastProps) {
+  const pairs = checkPaletteContrast(palette);
+  const failing = pairs.filter((pair) => !pair.passes);
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs">Contrast (WCAG AA)</Label>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        {pairs.map((pair) => (
+          <div
+            key={pair.foreground}
+            className="flex items-center justify-between gap-2"
+          >
+            <span className="capitalize text-muted-foreground">
+              {pair.foreground}
+            </span>
+            <span
+              className={cn(
+                "flex items-center gap-1 tabular-nums",
+                pair.passes ? "text-emerald-600" : "text-destructive",
+              )}
+            >
+              {pair.passes ? (
+                <Check className="h-3 w-3" />
+              ) : (
+                <AlertTriangle className="h-3 w-3" />
+              )}
+              {pair.ratio}:1
+            </span>
+          </div>
+        ))}
+      </div>
+      {failing.length > 0 && (
+        <Alert variant="destructive" className="py-2">
+          <AlertTriangle />
+          <AlertTitle className="text-xs">Low contrast</AlertTitle>
+          <AlertDescription className="text-xs">
+            <p>
+              {failing
+                .map(
+                  (pair) =>
+                    `${pair.foreground} on ${pair.background} needs ${pair.required}:1`,
+                )
+                .join(", ")}
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onPaletteChange(adjustPaletteForAA(palette))}
+              className="mt-1 h-7 gap-1 text-xs"
+            >
+              <Wand2 className="h-3 w-3" />
+              Adjust for AA
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import {
   History,
   Download,
   Palette,
+  AlertTriangle,
   Settings,
   Keyboard,
   Loader2,
@@ -42,6 +43,10 @@ import { Textarea } from "@/components/ui/textarea";
 import { HistoryPanel } from "@/components/history/HistoryPanel";
 import { ExportMenu } from "@/components/export/ExportMenu";
 import { KeyboardShortcuts } from "@/components/accessibility/KeyboardShortcuts";
+import {
+  hasContrastIssues,
+  PaletteContrast,
+} from "@/components/sidebar/PaletteContrast";
 import type { GenerationHistoryEntry } from "@/types/history";
 
 interface SidebarProps {
@@ -297,6 +302,9 @@ export function Sidebar(props: SidebarProps) {
                           ))}
                       </div>
                       <Palette className="h-4 w-4 ml-auto" />
+                      {hasContrastIssues(props.colorPalette) && (
+                        <AlertTriangle className="h-3 w-3 text-destructive" />
+                      )}
                     </Button>
                   </DialogTrigger>
                   <DialogContent className="max-w-md">
@@ -333,6 +341,9 @@ export function Sidebar(props: SidebarProps) {
                                   />
                                 </div>
                                 <span className="text-xs">{name}</span>
+                                {hasContrastIssues(palette) && (
+                                  <AlertTriangle className="h-3 w-3 ml-auto text-destructive" />
+                                )}
                               </Button>
                             ),
                           )}
@@ -366,6 +377,10 @@ export function Sidebar(props: SidebarProps) {
                           )}
                         </div>
                       </div>
+                      <PaletteContrast
+                        palette={props.colorPalette}
+                        onPaletteChange={props.onColorPaletteChange}
+                      />
                     </div>
                   </DialogContent>
                 </Dialog>
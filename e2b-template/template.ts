@@ -4,6 +4,21 @@ export const template = Template()
   .fromBaseImage()
   .setWorkdir("/home/user/app")
   .aptInstall(["curl", "git"])
+  // Shared libraries for the headless Chrome used by the fidelity check
+  .aptInstall([
+    "libasound2",
+    "libatk-bridge2.0-0",
+    "libatk1.0-0",
+    "libcups2",
+    "libdrm2",
+    "libgbm1",
+    "libnss3",
+    "libpango-1.0-0",
+    "libxcomposite1",
+    "libxdamage1",
+    "libxkbcommon0",
+    "libxrandr2",
+  ])
   // Copy all project files
   .copyItems([
     { src: "files/package.json", dest: "/home/user/app/package.json" },
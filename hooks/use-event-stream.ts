@@ -0,0 +1,80 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import { readEventStream, type StreamHandlers } from "@/lib/stream-events";
+
+// Reattempts after a dropped connection before giving up
+const MAX_RECONNECTS = 3;
+const RECONNECT_DELAY_MS = 1000;
+
+export function jobEventsUrl(jobId: string, since = 0): string {
+  return `/api/jobs/${encodeURIComponent(jobId)}/events?since=${since}`;
+}
+
+/**
+ * Consumes the SSE responses of the generation and update routes.
+ * Streams of a job reconnect from the last event id when the connection
+ * drops; other streams reject so callers never wait on a dead stream.
+ * The stream is cancelled on unmount.
+ */
+export function useEventStream() {
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => controller.current?.abort();
+  }, []);
+
+  const read = useCallback(
+    async (response: Response, handlers: StreamHandlers) => {
+      const current = new AbortController();
+      controller.current = current;
+
+      let jobId: string | undefined;
+      let lastEventId = 0;
+      const tracked: StreamHandlers = {
+        ...handlers,
+        job: (data) => {
+          jobId = data.jobId;
+          return handlers.job?.(data);
+        },
+      };
+
+      try {
+        for (let attempt = 0; ; attempt++) {
+          if (!response.ok || !response.body) {
+            const data = await response.json().catch(() => ({}));
+            throw new Error(data.error || "Failed to start the stream");
+          }
+
+          let terminated = false;
+          try {
+            ({ terminated } = await readEventStream(response.body, tracked, {
+              signal: current.signal,
+              onEventId: (id) => {
+                lastEventId = Number(id);
+              },
+            }));
+          } catch (error) {
+            if (!jobId) throw error;
+          }
+          if (terminated || current.signal.aborted) return;
+
+          if (!jobId || attempt >= MAX_RECONNECTS) {
+            throw new Error("Connection lost before the stream finished");
+          }
+          await new Promise((resolve) =>
+            setTimeout(resolve, RECONNECT_DELAY_MS),
+          );
+          response = await fetch(jobEventsUrl(jobId, lastEventId), {
+            signal: current.signal,
+          });
+        }
+      } finally {
+        if (controller.current === current) controller.current = null;
+      }
+    },
+    [],
+  );
+
+  return { read };
+}
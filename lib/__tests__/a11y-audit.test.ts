@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  type A11yFinding,
+  auditComponentCode,
+  auditPalette,
+  DOM_AUDIT_SOURCE,
+} from "../a11y-audit";
+import { checkPaletteContrast } from "../color-contrast";
+
+function auditDom(html: string): A11yFinding[] {
+  document.body.innerHTML = html;
+  const audit = new Function(`return ${DOM_AUDIT_SOURCE}`)();
+  return audit(document);
+}
+
+describe("a11y-audit", () => {
+  it("should report images, fields and headings in the rendered page", () => {
+    const findings = auditDom(`
+      <main data-drawui-id="hero">
+        <h1>Welcome</h1>
+        <h3>Skipped a level</h3>
+        <img src="/logo.png">
+        <img src="/decor.png" alt="">
+        <label for="email">Email</label>
+        <input id="email">
+        <input placeholder="Search">
+      </main>
+    `);
+    const ruleIds = findings.map((finding) => finding.ruleId);
+
+    expect(ruleIds.filter((id) => id === "image-alt")).toHaveLength(1);
+    expect(ruleIds.filter((id) => id === "label")).toHaveLength(1);
+    expect(ruleIds).toContain("heading-order");
+    expect(findings.find((f) => f.ruleId === "label")?.elementId).toBe("hero");
+  });
+
+  it("should require a title inside dialogs", () => {
+    const findings =
+      auditComponentCode(`export default function GeneratedWebsite() {
+  return (
+    <>
+      <Dialog>
+        <DialogContent data-drawui-id="signup">Form</DialogContent>
+      </Dialog>
+      <Sheet>
+        <SheetContent>
+          <SheetTitle>Menu</SheetTitle>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}`);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      ruleId: "dialog-title",
+      elementId: "signup",
+    });
+  });
+
+  it("should flag hand-rolled modal overlays", () => {
+    const findings =
+      auditComponentCode(`export default function GeneratedWebsite() {
+  const [open, setOpen] = useState(false);
+  return (
+    <div>
+      <div className="fixed inset-0 -z-10 bg-gradient-to-b" />
+      {open && <div className="fixed inset-0 bg-black/50">Menu</div>}
+    </div>
+  );
+}`);
+
+    expect(findings.map((finding) => finding.ruleId)).toEqual(["focus-trap"]);
+  });
+
+  it("should check palette pairs against WCAG AA", () => {
+    const [text] = checkPaletteContrast({
+      primary: "#000",
+      secondary: "#000",
+      accent: "#000",
+      background: "#ffffff",
+      text: "#000000",
+    });
+    expect(text.ratio).toBe(21);
+
+    const findings = auditPalette({
+      primary: "#0ea5e9",
+      secondary: "#0284c7",
+      accent: "#06b6d4",
+      background: "#ffffff",
+      text: "#aaaaaa",
+    });
+    expect(findings[0]).toMatchObject({
+      ruleId: "palette-contrast",
+      impact: "serious",
+    });
+    expect(findings[0].message).toContain("needs 4.5:1");
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { fixImports } from "../auto-install";
+
+describe("fixImports", () => {
+  it("should insert missing imports below the directive", () => {
+    const { code, fixes } = fixImports(`"use client";
+
+export default function GeneratedWebsite() {
+  const [open, setOpen] = useState(false);
+  return (
+    <Button onClick={() => setOpen(!open)}>
+      <Check />
+    </Button>
+  );
+}`);
+
+    expect(code).toMatch(/^"use client";\n\nimport { useState } from "react";/);
+    expect(code).toContain('import { Button } from "@/components/ui/button";');
+    expect(code).toContain('import { Check } from "lucide-react";');
+    expect(fixes).toHaveLength(3);
+  });
+
+  it("should merge duplicates, drop unused names and fix wrong paths", () => {
+    const { code } = fixImports(`import { Card } from "@/components/ui/card";
+import { CardContent } from "@/components/ui/card-content";
+import { motion } from "react";
+import { Star, Heart } from "lucide-react";
+import { Star as Starred } from "lucide-react";
+
+export default function GeneratedWebsite() {
+  return (
+    <Card>
+      <CardContent>
+        <motion.div>
+          <Star />
+        </motion.div>
+      </CardContent>
+    </Card>
+  );
+}`);
+
+    expect(code).toContain(
+      'import { Card, CardContent } from "@/components/ui/card";',
+    );
+    expect(code).toContain('import { motion } from "framer-motion";');
+    expect(code).toContain('import { Star } from "lucide-react";');
+    expect(code).not.toContain("Heart");
+    expect(code).not.toContain("Starred");
+    expect(code).not.toContain('from "react"');
+  });
+
+  it("should turn default shadcn imports into named imports", () => {
+    const { code } = fixImports(`import Button from "@/components/ui/button";
+export default function A() {
+  return <Button />;
+}`);
+
+    expect(code).toContain('import { Button } from "@/components/ui/button";');
+  });
+
+  it("should leave correct code and broken code untouched", () => {
+    const valid = `import { Button } from "@/components/ui/button";
+
+export default function A() {
+  return <Button />;
+}`;
+    expect(fixImports(valid)).toEqual({ code: valid, fixes: [] });
+
+    const broken = "export default function A() { return <div>; }";
+    expect(fixImports(broken).code).toBe(broken);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { analyzeCode, inspectDefaultExport } from "../code-analysis";
+
+const rules = (code: string) =>
+  analyzeCode(code).map((d) => `${d.line}:${d.column} ${d.ruleId}`);
+
+describe("code-analysis", () => {
+  it("should not be fooled by braces inside strings", () => {
+    const code = `export default function GeneratedWebsite() {
+  const label = "{ not a brace (";
+  return <p>{label}</p>;
+}`;
+
+    expect(analyzeCode(code)).toEqual([]);
+  });
+
+  it("should locate syntax errors", () => {
+    const [diagnostic] = analyzeCode(
+      "export default function A() {\n  return <div><span></div>;\n}",
+    );
+
+    expect(diagnostic.ruleId).toBe("syntax-error");
+    expect(diagnostic.severity).toBe("error");
+    expect(diagnostic.line).toBe(2);
+  });
+
+  it("should report used but unimported identifiers", () => {
+    const code = `import { Card } from "@/components/ui/card";
+export default function GeneratedWebsite() {
+  const [open] = useState(false);
+  return (
+    <Card data-open={open}>
+      <Badge icon={Star}>{Math.round(1.5)}</Badge>
+      <div className="p-4" />
+    </Card>
+  );
+}`;
+
+    expect(rules(code)).toEqual([
+      "3:18 unimported-identifier",
+      "6:8 unimported-identifier",
+      "6:20 unimported-identifier",
+    ]);
+    expect(analyzeCode(code).map((d) => d.identifier)).toEqual([
+      "useState",
+      "Badge",
+      "Star",
+    ]);
+  });
+
+  it("should report duplicate imports", () => {
+    const code = `import { Button } from "@/components/ui/button";
+import { Button } from "@/components/ui/button";
+export default function A() {
+  return <Button />;
+}`;
+
+    expect(analyzeCode(code).map((d) => [d.severity, d.line])).toEqual([
+      ["warning", 2],
+      ["error", 2],
+    ]);
+  });
+
+  it("should report invalid JSX nesting", () => {
+    const code = `import { Button } from "@/components/ui/button";
+export default function A() {
+  return (
+    <main>
+      <p><div /></p>
+      <Button><a href="#">Go</a></Button>
+      <Button asChild><a href="#">Go</a></Button>
+      <ul>{[1, 2].map((i) => <li key={i}>{i}</li>)}</ul>
+    </main>
+  );
+}`;
+
+    expect(analyzeCode(code).map((d) => `${d.line} ${d.message}`)).toEqual([
+      "5 <div> cannot appear inside <p>",
+      "6 <a> cannot be nested inside <button>",
+    ]);
+  });
+
+  it("should inspect the default export", () => {
+    expect(
+      inspectDefaultExport("const Page = () => <div />;\nexport default Page;"),
+    ).toEqual({ name: "Page", isFunction: true, returnsJsx: true });
+    expect(
+      inspectDefaultExport("export default function A() { return null; }"),
+    ).toMatchObject({ returnsJsx: false });
+    expect(inspectDefaultExport("export const a = 1;")).toBeNull();
+  });
+});
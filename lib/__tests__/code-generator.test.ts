@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 import type { GeneratedComponent } from "@/types/canvas";
+import { analyzeCode } from "../code-analysis";
 import { extractUsedComponents, generateReactCode } from "../code-generator";
 
 describe("code-generator", () => {
@@ -53,14 +54,14 @@ describe("code-generator", () => {
 
       const code = generateReactCode(components);
 
-      expect(code).toContain("import { Button }");
-      expect(code).toContain("export default function GeneratedUI");
+      expect(code).toContain(
+        'import { Button } from "@/components/ui/button";',
+      );
+      expect(code).toContain("export default function GeneratedWebsite");
       expect(code).toContain("<Button");
       expect(code).toContain('variant="default"');
       expect(code).toContain("Click me");
-      expect(code).toContain("position: 'absolute'");
-      expect(code).toContain("left: 100");
-      expect(code).toContain("top: 100");
+      expect(code).not.toContain("position");
     });
 
     it("should handle multiple components", () => {
@@ -85,15 +86,174 @@ describe("code-generator", () => {
 
       const code = generateReactCode(components);
 
-      expect(code).toContain("import { Button, Input }");
+      expect(code).toContain(
+        'import { Button } from "@/components/ui/button";',
+      );
+      expect(code).toContain('import { Input } from "@/components/ui/input";');
       expect(code).toContain("<Button");
       expect(code).toContain("<Input");
+      expect(code).toContain("flex flex-col");
+    });
+
+    it("should lay out side-by-side components as a flex row", () => {
+      const components: GeneratedComponent[] = [
+        {
+          id: "1",
+          type: "card",
+          props: { children: "First" },
+          position: { x: 0, y: 0, width: 200, height: 100 },
+          sourceDrawingHash: "hash",
+          timestamp: 1000,
+        },
+        {
+          id: "2",
+          type: "card",
+          props: { children: "Second" },
+          position: { x: 250, y: 10, width: 200, height: 100 },
+          sourceDrawingHash: "hash",
+          timestamp: 1000,
+        },
+      ];
+
+      const code = generateReactCode(components);
+
+      expect(code).toContain("flex flex-wrap items-center");
+      expect(code).toContain("flex-1 min-w-0");
+      expect(code.indexOf("First")).toBeLessThan(code.indexOf("Second"));
+    });
+
+    it("should emit a responsive grid for aligned boxes", () => {
+      const components: GeneratedComponent[] = [0, 1, 2, 3].map((i) => ({
+        id: String(i),
+        type: "card",
+        props: {},
+        position: {
+          x: (i % 2) * 250,
+          y: Math.floor(i / 2) * 150,
+          width: 200,
+          height: 100,
+        },
+        sourceDrawingHash: "hash",
+        timestamp: 1000,
+      }));
+
+      const code = generateReactCode(components);
+
+      expect(code).toContain("grid grid-cols-1 sm:grid-cols-2");
+      expect(code).toContain("min-h-[100px]");
+    });
+
+    it("should cap the grid at twelve columns", () => {
+      const components: GeneratedComponent[] = Array.from(
+        { length: 28 },
+        (_, i) => ({
+          id: String(i),
+          type: "card",
+          props: {},
+          position: {
+            x: (i % 14) * 60,
+            y: Math.floor(i / 14) * 80,
+            width: 50,
+            height: 60,
+          },
+          sourceDrawingHash: "hash",
+          timestamp: 1000,
+        }),
+      );
+
+      const code = generateReactCode(components);
+
+      expect(code).toContain("grid grid-cols-1 sm:grid-cols-12");
+      expect(code).not.toContain("sm:grid-cols-14");
+    });
+
+    it("should nest components inside their container", () => {
+      const components: GeneratedComponent[] = [
+        {
+          id: "card",
+          type: "card",
+          props: {},
+          position: { x: 0, y: 0, width: 400, height: 300 },
+          sourceDrawingHash: "hash",
+          timestamp: 1000,
+        },
+        {
+          id: "button",
+          type: "button",
+          props: { children: "Save" },
+          position: { x: 20, y: 240, width: 100, height: 40 },
+          sourceDrawingHash: "hash",
+          timestamp: 1000,
+        },
+      ];
+
+      const code = generateReactCode(components);
+
+      expect(code).toMatch(
+        /<Card[^>]*>\s*<Button>\s*Save\s*<\/Button>\s*<\/Card>/,
+      );
+    });
+
+    it("should tag components with their element id when annotating", () => {
+      const components: GeneratedComponent[] = [
+        {
+          id: "cta",
+          type: "button",
+          props: { children: "Go" },
+          position: { x: 0, y: 0, width: 120, height: 40 },
+          sourceDrawingHash: "hash",
+          timestamp: 1000,
+        },
+      ];
+
+      expect(generateReactCode(components)).not.toContain("data-drawui-id");
+      expect(generateReactCode(components, { annotate: true })).toContain(
+        '<Button data-drawui-id="cta">',
+      );
+    });
+
+    it("should keep braces, angle brackets and quotes in text literal", () => {
+      const components: GeneratedComponent[] = [
+        {
+          id: "logo",
+          type: "label",
+          props: { children: "Acme {beta}" },
+          position: { x: 0, y: 0, width: 120, height: 20 },
+          sourceDrawingHash: "hash",
+          timestamp: 1000,
+        },
+        {
+          id: "cta",
+          type: "button",
+          props: { children: "Sign <up>" },
+          position: { x: 0, y: 40, width: 120, height: 40 },
+          sourceDrawingHash: "hash",
+          timestamp: 1000,
+        },
+        {
+          id: "email",
+          type: "input",
+          props: { placeholder: 'Your "work" email' },
+          position: { x: 0, y: 100, width: 300, height: 40 },
+          sourceDrawingHash: "hash",
+          timestamp: 1000,
+        },
+      ];
+
+      const code = generateReactCode(components);
+
+      expect(code).toContain('{"Acme {beta}"}');
+      expect(code).toContain('{"Sign <up>"}');
+      expect(code).toContain('placeholder={"Your \\"work\\" email"}');
+      expect(analyzeCode(code)).not.toContainEqual(
+        expect.objectContaining({ ruleId: "syntax-error" }),
+      );
     });
 
     it("should handle empty components array", () => {
       const code = generateReactCode([]);
 
-      expect(code).toContain("export default function GeneratedUI");
+      expect(code).toContain("export default function GeneratedWebsite");
       expect(code).toContain("No components generated yet");
     });
   });
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { applyPatches, parsePatches } from "../code-patch";
+
+const code = `export default function Component() {
+  return (
+    <div>
+      <header className="h-16">
+        <h1>Old title</h1>
+      </header>
+      <main>Body</main>
+    </div>
+  );
+}`;
+
+describe("code-patch", () => {
+  describe("parsePatches", () => {
+    it("should extract every SEARCH/REPLACE block", () => {
+      const patches = parsePatches(`Here you go:
+<<<<<<< SEARCH
+<h1>Old title</h1>
+=======
+<h1>New title</h1>
+>>>>>>> REPLACE
+<<<<<<< SEARCH
+<main>Body</main>
+=======
+>>>>>>> REPLACE`);
+
+      expect(patches).toEqual([
+        { search: "<h1>Old title</h1>", replace: "<h1>New title</h1>" },
+        { search: "<main>Body</main>", replace: "" },
+      ]);
+    });
+  });
+
+  describe("applyPatches", () => {
+    it("should replace an exact match", () => {
+      const result = applyPatches(code, [
+        { search: "<h1>Old title</h1>", replace: "<h1>New title</h1>" },
+      ]);
+
+      expect(result).toContain("<h1>New title</h1>");
+      expect(result).toContain("<main>Body</main>");
+    });
+
+    it("should match subtrees regardless of indentation", () => {
+      const result = applyPatches(code, [
+        {
+          search: `<header className="h-16">
+  <h1>Old title</h1>
+</header>`,
+          replace: `      <nav className="h-16">Nav</nav>`,
+        },
+      ]);
+
+      expect(result).not.toContain("<header");
+      expect(result).toContain(`      <nav className="h-16">Nav</nav>
+      <main>Body</main>`);
+    });
+
+    it("should throw when the search block is not found", () => {
+      expect(() =>
+        applyPatches(code, [{ search: "<footer />", replace: "" }]),
+      ).toThrow("Patch did not match");
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+  adjustForContrast,
+  adjustPaletteForAA,
+  checkPaletteContrast,
+  contrastRatio,
+  parseHexColor,
+  type RGB,
+} from "../color-contrast";
+
+function ratio(a: string, b: string) {
+  return contrastRatio(parseHexColor(a) as RGB, parseHexColor(b) as RGB);
+}
+
+describe("color-contrast", () => {
+  it("should darken on light backgrounds and lighten on dark ones", () => {
+    const onLight = adjustForContrast("#fb923c", "#fff7ed", 3);
+    expect(ratio(onLight, "#fff7ed")).toBeGreaterThanOrEqual(3);
+    expect(ratio(onLight, "#fff7ed")).toBeLessThan(3.2);
+
+    const onDark = adjustForContrast("#555555", "#111111", 4.5);
+    expect(ratio(onDark, "#111111")).toBeGreaterThanOrEqual(4.5);
+    expect(parseHexColor(onDark)?.r).toBeGreaterThan(0x55);
+  });
+
+  it("should keep the hue of adjusted colors", () => {
+    const adjusted = parseHexColor(adjustForContrast("#0ea5e9", "#ffffff", 3));
+    // Still a sky blue: blue > green > red
+    expect(adjusted?.b).toBeGreaterThan(adjusted?.g ?? 0);
+    expect(adjusted?.g).toBeGreaterThan(adjusted?.r ?? 0);
+  });
+
+  it("should only change failing palette colors", () => {
+    const palette = {
+      primary: "#f97316",
+      secondary: "#ea580c",
+      accent: "#fb923c",
+      background: "#fff7ed",
+      text: "#7c2d12",
+    };
+    const adjusted = adjustPaletteForAA(palette);
+
+    expect(checkPaletteContrast(adjusted).every((pair) => pair.passes)).toBe(
+      true,
+    );
+    expect(adjusted.secondary).toBe(palette.secondary);
+    expect(adjusted.text).toBe(palette.text);
+    expect(adjusted.background).toBe(palette.background);
+    expect(adjusted.primary).not.toBe(palette.primary);
+  });
+});
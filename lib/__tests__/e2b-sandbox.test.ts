@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { writeComponentWithBuildCheck } from "../e2b-sandbox";
+import type { AppSandbox, CommandResult } from "../sandbox/types";
+
+// In-memory sandbox whose build runs the given function
+function fakeSandbox(build: () => Promise<CommandResult>) {
+  const files = new Map<string, string>();
+  const sandbox: AppSandbox = {
+    sandboxId: "fake",
+    allowsShell: false,
+    files: {
+      read: async (path) => files.get(path) ?? "",
+      write: async (path, content) => {
+        files.set(path, content);
+      },
+      list: async () => [],
+    },
+    commands: { run: build },
+    getHost: () => "localhost",
+    getUrl: () => "http://localhost",
+    kill: async () => {},
+  };
+  return { sandbox, files };
+}
+
+const PAGE = "/home/user/app/app/page.tsx";
+
+describe("writeComponentWithBuildCheck", () => {
+  it("should keep the patch when the build passes", async () => {
+    const { sandbox, files } = fakeSandbox(async () => ({
+      stdout: "",
+      stderr: "",
+      exitCode: 0,
+    }));
+
+    await writeComponentWithBuildCheck(
+      sandbox,
+      "app/page.tsx",
+      "patched",
+      "previous",
+      () => {},
+    );
+    expect(files.get(PAGE)).toBe("patched");
+  });
+
+  it("should restore the previous code when the build fails", async () => {
+    const { sandbox, files } = fakeSandbox(async () => ({
+      stdout: "Type error",
+      stderr: "",
+      exitCode: 1,
+    }));
+
+    await expect(
+      writeComponentWithBuildCheck(
+        sandbox,
+        "app/page.tsx",
+        "patched",
+        "previous",
+        () => {},
+      ),
+    ).rejects.toThrow("kept the previous version");
+    expect(files.get(PAGE)).toBe("previous");
+  });
+
+  it("should restore the previous code when the build is aborted", async () => {
+    const { sandbox, files } = fakeSandbox(async () => {
+      throw new Error("Update cancelled");
+    });
+
+    await expect(
+      writeComponentWithBuildCheck(
+        sandbox,
+        "app/page.tsx",
+        "patched",
+        "previous",
+        () => {},
+      ),
+    ).rejects.toThrow("Update cancelled");
+    expect(files.get(PAGE)).toBe("previous");
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { findElementLine, stripElementIds } from "../element-ids";
+
+const code = `export default function Component() {
+  return (
+    <div data-drawui-id="root" className="p-6">
+      <Button data-drawui-id='cta'>Sign up</Button>
+      <Card data-drawui-id={"card"} />
+    </div>
+  );
+}`;
+
+describe("element-ids", () => {
+  it("should find the line tagged with an element id", () => {
+    expect(findElementLine(code, "root")).toBe(2);
+    expect(findElementLine(code, "cta")).toBe(3);
+    expect(findElementLine(code, "missing")).toBe(-1);
+  });
+
+  it("should strip every id attribute for export", () => {
+    const stripped = stripElementIds(code);
+
+    expect(stripped).not.toContain("data-drawui-id");
+    expect(stripped).toContain('<div className="p-6">');
+    expect(stripped).toContain("<Button>Sign up</Button>");
+    expect(stripped).toContain("<Card />");
+  });
+});
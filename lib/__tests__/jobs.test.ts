@@ -0,0 +1,101 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { cancelJob, startJob, streamJobEvents } from "../job-runner";
+import { createFileJobStore } from "../jobs/file";
+import { createMemoryJobStore } from "../jobs/memory";
+import type { JobStore } from "../jobs/types";
+import { readEventStream, type StreamHandlers } from "../stream-events";
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  for (const dir of tempDirs.splice(0)) {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+async function exerciseStore(store: JobStore) {
+  const job = await store.create("sketch");
+  await store.append(job.id, { event: "log", data: { message: "one" } });
+  await store.append(job.id, { event: "log", data: { message: "two" } });
+  await store.append(job.id, {
+    event: "complete",
+    data: { code: "x", success: true },
+  });
+
+  expect((await store.events(job.id, 0)).map((event) => event.seq)).toEqual([
+    1, 2, 3,
+  ]);
+  expect(await store.events(job.id, 2)).toEqual([
+    { seq: 3, event: "complete", data: { code: "x", success: true } },
+  ]);
+  expect((await store.get(job.id))?.status).toBe("complete");
+}
+
+describe("job stores", () => {
+  it("should number events and settle jobs in memory", async () => {
+    await exerciseStore(createMemoryJobStore());
+  });
+
+  it("should number events and settle jobs on disk", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "drawui-jobs-test-"));
+    tempDirs.push(dir);
+    await exerciseStore(createFileJobStore(dir));
+  });
+
+  it("should reject ids that aren't its own", async () => {
+    const store = createFileJobStore(os.tmpdir());
+    expect(await store.get("../../etc/passwd")).toBeNull();
+  });
+});
+
+async function readJob(jobId: string, since: number, handlers: StreamHandlers) {
+  const { body } = await streamJobEvents(jobId, since);
+  if (!body) throw new Error("Expected an event stream");
+  return readEventStream(body, handlers);
+}
+
+describe("job runner", () => {
+  it("should replay the events of a job after the given id", async () => {
+    const job = await startJob("sketch", async (emit) => {
+      emit("log", { message: "generating" });
+      emit("complete", { code: "done", success: true });
+    });
+
+    const all: string[] = [];
+    await readJob(job.id, 0, {
+      job: (data) => all.push(`job:${data.jobId}`),
+      log: (data) => all.push(data.message),
+      complete: (data) => all.push(`complete:${data.code}`),
+    });
+    expect(all).toEqual([`job:${job.id}`, "generating", "complete:done"]);
+
+    const resumed = await readJob(job.id, 2, {});
+    expect(resumed).toEqual({ lastEventId: "3", terminated: true });
+  });
+
+  it("should abort the signal of a cancelled job", async () => {
+    const job = await startJob("sketch", async (emit, signal) => {
+      await new Promise((resolve) =>
+        signal.addEventListener("abort", resolve, { once: true }),
+      );
+      emit("cancelled", { message: "Generation cancelled" });
+    });
+
+    expect(cancelJob(job.id)).toBe(true);
+    const events: string[] = [];
+    const result = await readJob(job.id, 0, {
+      cancelled: (data) => events.push(data.message),
+    });
+
+    expect(events).toEqual(["Generation cancelled"]);
+    expect(result.terminated).toBe(true);
+    expect(cancelJob("missing")).toBe(false);
+  });
+
+  it("should answer 404 for unknown jobs", async () => {
+    expect((await streamJobEvents("missing")).status).toBe(404);
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  addUsage,
+  createUsageMeter,
+  EMPTY_USAGE,
+  estimateCost,
+  formatCost,
+  meteredProvider,
+} from "../model-usage";
+import { createFixtureProvider } from "../providers/fixture";
+
+describe("estimateCost", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("prices tokens per million at the model's list price", () => {
+    const cost = estimateCost("gemini-2.5-pro", {
+      promptTokens: 1_000_000,
+      responseTokens: 100_000,
+    });
+    expect(cost).toBeCloseTo(2.25);
+  });
+
+  it("leaves the cost unset for unknown models", () => {
+    expect(
+      estimateCost("unknown-model", { promptTokens: 10, responseTokens: 10 }),
+    ).toBeUndefined();
+  });
+
+  it("uses the price overrides from the environment", () => {
+    vi.stubEnv("MODEL_PRICE_INPUT", "1");
+    vi.stubEnv("MODEL_PRICE_OUTPUT", "2");
+    expect(
+      estimateCost("unknown-model", {
+        promptTokens: 1_000_000,
+        responseTokens: 1_000_000,
+      }),
+    ).toBeCloseTo(3);
+  });
+});
+
+describe("usage meter", () => {
+  it("sums the tokens and cost of every recorded call", () => {
+    const meter = createUsageMeter("gemini-2.5-flash");
+    meter.record({ promptTokens: 1_000_000, responseTokens: 0 });
+    meter.record({ promptTokens: 0, responseTokens: 1_000_000 });
+
+    expect(meter.total.calls).toBe(2);
+    expect(meter.total.promptTokens).toBe(1_000_000);
+    expect(meter.total.responseTokens).toBe(1_000_000);
+    expect(meter.total.costUsd).toBeCloseTo(2.8);
+  });
+
+  it("keeps the cost of priced runs when summing with unpriced ones", () => {
+    const unpriced = { calls: 1, promptTokens: 5, responseTokens: 5 };
+    expect(addUsage(EMPTY_USAGE, unpriced).costUsd).toBeUndefined();
+    expect(addUsage(unpriced, { ...unpriced, costUsd: 0.5 }).costUsd).toBe(0.5);
+  });
+
+  it("records every generate call and chat message of a provider", async () => {
+    const meter = createUsageMeter("fixture");
+    const provider = meteredProvider(createFixtureProvider(), meter);
+
+    await provider.generate(["Draw a button"]);
+    for await (const _chunk of provider.generateStream(["Draw a form"])) {
+      // drain the stream
+    }
+    const chat = provider.startChat({ history: ["Fix the build"] });
+    await chat.send("Try again");
+    await chat.send("And again");
+
+    expect(meter.total.calls).toBe(4);
+    expect(meter.total.promptTokens).toBeGreaterThan(0);
+    expect(meter.total.responseTokens).toBeGreaterThan(0);
+    expect(meter.total.costUsd).toBe(0);
+  });
+});
+
+describe("formatCost", () => {
+  it("formats small, regular and unknown costs", () => {
+    expect(formatCost(0.001)).toBe("<$0.01");
+    expect(formatCost(1.234)).toBe("$1.23");
+    expect(formatCost(undefined)).toBe("unknown");
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  createThemeCss,
+  createThemeVariables,
+  toHslVariable,
+} from "../palette-theme";
+
+const palette = {
+  primary: "#2563eb",
+  secondary: "#8b5cf6",
+  accent: "#ec4899",
+  background: "#ffffff",
+  text: "#1f2937",
+};
+
+describe("palette-theme", () => {
+  it("should format colors as shadcn HSL triplets", () => {
+    expect(toHslVariable("#ffffff")).toBe("0 0% 100%");
+    expect(toHslVariable("#3b82f6")).toBe("217.2 91.2% 59.8%");
+  });
+
+  it("should map the palette onto the semantic variables", () => {
+    const { light, dark } = createThemeVariables(palette);
+
+    expect(light.background).toBe("0 0% 100%");
+    expect(light.foreground).toBe(toHslVariable(palette.text));
+    expect(light.primary).toBe(toHslVariable(palette.primary));
+    expect(light["primary-foreground"]).toBe(light.background);
+    expect(light.ring).toBe(light.primary);
+
+    // Dark mode swaps background and text
+    expect(dark.background).toBe(toHslVariable(palette.text));
+    expect(dark.foreground).toBe(light.background);
+  });
+
+  it("should only shift brand colors in the dark theme", () => {
+    const { light, dark } = createThemeVariables({
+      ...palette,
+      primary: "#fef9c3",
+      secondary: "#111827",
+    });
+
+    // Chosen colors stay as picked, even with low contrast
+    expect(light.primary).toBe(toHslVariable("#fef9c3"));
+    expect(light.secondary).toBe(toHslVariable("#111827"));
+    // A near-black brand color would vanish on the dark background
+    expect(dark.secondary).not.toBe(toHslVariable("#111827"));
+  });
+
+  it("should write a complete globals.css", () => {
+    const css = createThemeCss(palette);
+
+    expect(css).toContain("@tailwind base;");
+    expect(css).toMatch(/:root \{\n {4}--background: 0 0% 100%;/);
+    expect(css).toContain("--radius: 0.5rem;");
+    expect(css).toContain(".dark {");
+    expect(css).toContain("@apply bg-background text-foreground;");
+  });
+});
@@ -0,0 +1,221 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { GenerationUsage, StreamEventName } from "@/types/events";
+import { createUsageMeter } from "../model-usage";
+import { auditStage } from "../pipeline/audit";
+import { buildStage } from "../pipeline/build";
+import { runPipeline, streamPipeline } from "../pipeline/orchestrator";
+import { REGION_PIPELINE } from "../pipeline/pipelines";
+import type {
+  Pipeline,
+  PipelineContext,
+  Stage,
+  StageResult,
+} from "../pipeline/types";
+import { openFileStage } from "../pipeline/update";
+import type { AppSandbox } from "../sandbox/types";
+import { readEventStream } from "../stream-events";
+
+function createContext(
+  maxAttempts: number,
+  signal = new AbortController().signal,
+) {
+  const events: StreamEventName[] = [];
+  const ctx: PipelineContext = {
+    request: {},
+    emit: (event) => events.push(event),
+    log: () => {},
+    signal,
+    provider: null,
+    usage: createUsageMeter("test"),
+    targets: [],
+    files: [],
+    errors: [],
+    buildPassed: false,
+    attempt: 0,
+    maxAttempts,
+    iterations: 0,
+  };
+  return { ctx, events };
+}
+
+function stage(name: Stage["name"], run: Stage["run"]): Stage {
+  return { name, run };
+}
+
+// A stage that records its name and always returns the same result
+function recording(
+  ran: string[],
+  name: Stage["name"],
+  result: StageResult = "continue",
+): Stage {
+  return stage(name, async () => {
+    ran.push(name);
+    return result;
+  });
+}
+
+describe("runPipeline", () => {
+  it("should run every stage once when none asks for a retry", async () => {
+    const ran: string[] = [];
+    const pipeline: Pipeline = {
+      name: "test",
+      stages: [recording(ran, "generate"), recording(ran, "validate")],
+    };
+    const { ctx, events } = createContext(1);
+
+    await runPipeline(pipeline, ctx);
+
+    expect(ran).toEqual(["generate", "validate"]);
+    expect(events).not.toContain("iteration");
+  });
+
+  it("should restart from the first stage on retry until attempts run out", async () => {
+    const ran: string[] = [];
+    const pipeline: Pipeline = {
+      name: "test",
+      stages: [
+        recording(ran, "generate"),
+        stage("audit", async (ctx) => {
+          ran.push("audit");
+          return ctx.attempt < 2 ? "retry" : "continue";
+        }),
+        recording(ran, "refine"),
+      ],
+      maxAttempts: 3,
+    };
+    const { ctx, events } = createContext(3);
+
+    await runPipeline(pipeline, ctx);
+
+    expect(ran).toEqual(["generate", "audit", "generate", "audit", "refine"]);
+    expect(events.filter((event) => event === "iteration")).toHaveLength(2);
+  });
+
+  it("should stop after the last attempt even if stages keep retrying", async () => {
+    const ran: string[] = [];
+    const pipeline: Pipeline = {
+      name: "test",
+      stages: [recording(ran, "generate", "retry")],
+      maxAttempts: 2,
+    };
+    const { ctx } = createContext(2);
+
+    await runPipeline(pipeline, ctx);
+
+    expect(ran).toEqual(["generate", "generate"]);
+  });
+
+  it("should stop before the next stage once cancelled", async () => {
+    const ran: string[] = [];
+    const controller = new AbortController();
+    const pipeline: Pipeline = {
+      name: "test",
+      stages: [
+        stage("generate", async () => {
+          ran.push("generate");
+          controller.abort(new Error("Generation cancelled"));
+          return "continue";
+        }),
+        recording(ran, "build"),
+      ],
+    };
+    const { ctx } = createContext(1, controller.signal);
+
+    await expect(runPipeline(pipeline, ctx)).rejects.toThrow(
+      "Generation cancelled",
+    );
+    expect(ran).toEqual(["generate"]);
+  });
+
+  it("should not retry the offline draft for quality", async () => {
+    const { ctx } = createContext(3);
+    ctx.attempt = 1;
+    ctx.files.push({
+      path: "app/component.tsx",
+      code: "export default function Draft() { return null; }",
+    });
+
+    expect(await auditStage.run(ctx)).toBe("continue");
+    expect(ctx.quality?.passed).toBe(false);
+  });
+
+  it("should hand a build that fails to run to the fix stage", async () => {
+    const { ctx } = createContext(1);
+    ctx.sandbox = {
+      sandboxId: "fake",
+      allowsShell: false,
+      files: {
+        read: async () => "",
+        write: async () => {},
+        list: async () => [],
+      },
+      commands: {
+        run: async () => {
+          throw new Error("Command timed out after 120000ms");
+        },
+      },
+      getHost: () => "localhost",
+      getUrl: () => "http://localhost",
+      kill: async () => {},
+    } satisfies AppSandbox;
+
+    expect(await buildStage.run(ctx)).toBe("continue");
+    expect(ctx.buildPassed).toBe(false);
+    expect(ctx.errors).toEqual(["Error: Command timed out after 120000ms"]);
+  });
+
+  it("should open the file an update patches", async () => {
+    const { ctx } = createContext(1);
+    ctx.request = { currentCode: "<main />", path: "app/pricing/page.tsx" };
+
+    expect(await openFileStage.run(ctx)).toBe("continue");
+    expect(ctx.files).toEqual([
+      { path: "app/pricing/page.tsx", route: "/pricing", code: "<main />" },
+    ]);
+
+    ctx.request = { currentCode: "<main />", path: "package.json" };
+    await expect(openFileStage.run(ctx)).rejects.toThrow(
+      "Not a generated file",
+    );
+  });
+});
+
+describe("streamPipeline", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should report the usage of an update that fails", async () => {
+    // The fixture answers with a whole component instead of a patch
+    vi.stubEnv("MODEL_PROVIDER", "fixture");
+    const graph = { width: 800, height: 600, nodes: [], arrows: [] };
+    const response = await streamPipeline(
+      {
+        currentCode: "<main />",
+        selection: {
+          elementIds: ["a"],
+          bounds: { x: 0, y: 0, width: 100, height: 40 },
+          graph,
+        },
+      },
+      REGION_PIPELINE,
+    );
+
+    const events: string[] = [];
+    let usage: GenerationUsage | undefined;
+    if (!response.body) throw new Error("No stream");
+    await readEventStream(response.body, {
+      usage: (data) => {
+        events.push("usage");
+        usage = data;
+      },
+      error: (data) => events.push(`error:${data.message}`),
+    });
+
+    expect(events).toEqual([
+      "usage",
+      "error:Model response did not contain a patch",
+    ]);
+    expect(usage?.calls).toBe(1);
+  });
+});
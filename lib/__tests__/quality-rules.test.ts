@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { getRuleSet, runQualityRules } from "../quality-rules";
+import { validateCodeQuality } from "../quality-validator";
+
+const minimalCode = `import { Button } from "@/components/ui/button";
+
+export default function GeneratedWebsite() {
+  return (
+    <main className="flex flex-col gap-4 p-4 md:flex-row md:p-8 lg:gap-8">
+      <h1 className="text-2xl">Sign up</h1>
+      <Button>Get started</Button>
+    </main>
+  );
+}
+`;
+
+const palette = {
+  primary: "#0ea5e9",
+  secondary: "#0284c7",
+  accent: "#06b6d4",
+  background: "#f0f9ff",
+  text: "#0c4a6e",
+};
+
+function rule(code: string, ruleId: string, options = {}) {
+  const [result] = runQualityRules(
+    { code, ...options },
+    { [ruleId]: { weight: 1 } },
+  );
+  return result;
+}
+
+describe("quality-rules", () => {
+  it("should not penalize a minimal design under the minimal rule set", () => {
+    const minimal = validateCodeQuality(minimalCode, {
+      styleGuide: "Minimal & Clean",
+    });
+    expect(minimal.passed).toBe(true);
+    expect(minimal.details.ruleSet).toBe("Minimal & Clean");
+
+    const bold = validateCodeQuality(minimalCode, {
+      styleGuide: "Bold & Vibrant",
+    });
+    expect(bold.score).toBeLessThan(minimal.score);
+    expect(bold.issues).toContain("Not enough animations (found 0, need 5)");
+  });
+
+  it("should fall back to the default rule set", () => {
+    expect(getRuleSet("Unknown").name).toBe("Modern & Professional");
+  });
+
+  it("should flag icon-only buttons and unlabelled inputs", () => {
+    const result = rule(
+      `export default function GeneratedWebsite() {
+  return (
+    <form>
+      <Button><Menu /></Button>
+      <Button aria-label="Close"><X /></Button>
+      <Label htmlFor="email">Email</Label>
+      <Input id="email" />
+      <Input placeholder="Search" />
+    </form>
+  );
+}`,
+      "accessibility",
+    );
+
+    expect(result.score).toBe(0.5);
+    expect(result.message).toContain("<Button> without text or aria-label");
+    expect(result.message).toContain("<Input> without a label");
+  });
+
+  it("should require use client only for interactive components", () => {
+    expect(rule(minimalCode, "use-client").passed).toBe(true);
+    expect(
+      rule(
+        `export default function GeneratedWebsite() {
+  return <button onClick={() => {}}>Go</button>;
+}`,
+        "use-client",
+      ).passed,
+    ).toBe(false);
+  });
+
+  it("should report colors outside the palette", () => {
+    const code = `export default function GeneratedWebsite() {
+  return <div className="bg-[#0EA5E9] text-[#123456]" />;
+}`;
+
+    expect(rule(code, "palette-colors")).toBeUndefined();
+    const result = rule(code, "palette-colors", { palette });
+    expect(result.score).toBe(0.5);
+    expect(result.message).toBe("Colors outside the palette: #123456");
+  });
+});
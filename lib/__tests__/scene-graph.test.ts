@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import type { SketchElement } from "@/types/canvas";
+import { buildSceneGraph, describeSceneGraph } from "../scene-graph";
+
+function rect(
+  id: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+): SketchElement {
+  return { id, type: "rectangle", x, y, width, height };
+}
+
+function text(
+  id: string,
+  value: string,
+  x: number,
+  y: number,
+  containerId?: string,
+): SketchElement {
+  return {
+    id,
+    type: "text",
+    x,
+    y,
+    width: value.length * 10,
+    height: 20,
+    text: value,
+    containerId,
+  };
+}
+
+describe("scene-graph", () => {
+  describe("buildSceneGraph", () => {
+    it("should normalize coordinates to the sketch origin", () => {
+      const graph = buildSceneGraph([rect("a", 100, 50, 200, 80.4)]);
+
+      expect(graph.width).toBe(200);
+      expect(graph.height).toBe(80);
+      expect(graph.nodes[0].bounds).toEqual({
+        x: 0,
+        y: 0,
+        width: 200,
+        height: 80,
+      });
+    });
+
+    it("should skip deleted elements", () => {
+      const graph = buildSceneGraph([
+        rect("a", 0, 0, 100, 100),
+        { ...rect("b", 200, 0, 100, 100), isDeleted: true },
+      ]);
+
+      expect(graph.nodes.map((n) => n.id)).toEqual(["a"]);
+    });
+
+    it("should use bound text as the shape label", () => {
+      const graph = buildSceneGraph([
+        rect("button", 0, 0, 120, 40),
+        text("label", "Sign up", 10, 10, "button"),
+      ]);
+
+      expect(graph.nodes).toHaveLength(1);
+      expect(graph.nodes[0].text).toBe("Sign up");
+      expect(graph.nodes[0].children).toEqual([]);
+    });
+
+    it("should nest elements inside the smallest enclosing shape", () => {
+      const graph = buildSceneGraph([
+        rect("page", 0, 0, 500, 400),
+        rect("card", 20, 20, 200, 200),
+        text("title", "Pricing", 30, 30),
+      ]);
+
+      const [page] = graph.nodes;
+      expect(page.id).toBe("page");
+      expect(page.children.map((n) => n.id)).toEqual(["card"]);
+      expect(page.children[0].children[0].text).toBe("Pricing");
+    });
+
+    it("should detect rows, columns and grids", () => {
+      const row = buildSceneGraph([
+        rect("b", 150, 5, 100, 40),
+        rect("a", 0, 0, 100, 50),
+      ]);
+      expect(row.layout).toEqual({ type: "row" });
+      expect(row.nodes.map((n) => n.id)).toEqual(["a", "b"]);
+
+      const column = buildSceneGraph([
+        rect("a", 0, 0, 100, 50),
+        rect("b", 0, 100, 100, 50),
+      ]);
+      expect(column.layout).toEqual({ type: "column" });
+
+      const grid = buildSceneGraph([
+        rect("a", 0, 0, 100, 50),
+        rect("b", 150, 0, 100, 50),
+        rect("c", 0, 100, 100, 50),
+        rect("d", 150, 100, 100, 50),
+      ]);
+      expect(grid.layout).toEqual({ type: "grid", columns: 2 });
+      expect(grid.nodes.map((n) => n.id)).toEqual(["a", "b", "c", "d"]);
+    });
+
+    it("should record arrow bindings and labels", () => {
+      const graph = buildSceneGraph([
+        rect("login", 0, 0, 100, 50),
+        rect("home", 300, 0, 100, 50),
+        {
+          id: "arrow",
+          type: "arrow",
+          x: 100,
+          y: 25,
+          width: 200,
+          height: 0,
+          points: [
+            [0, 0],
+            [200, 0],
+          ],
+          startBinding: { elementId: "login" },
+          endBinding: { elementId: "home" },
+        },
+        text("arrow-label", "submit", 180, 15, "arrow"),
+      ]);
+
+      expect(graph.arrows).toEqual([
+        {
+          id: "arrow",
+          from: "login",
+          to: "home",
+          label: "submit",
+          start: { x: 100, y: 25 },
+          end: { x: 300, y: 25 },
+        },
+      ]);
+    });
+  });
+
+  describe("describeSceneGraph", () => {
+    it("should render an indented outline with exact text", () => {
+      const outline = describeSceneGraph(
+        buildSceneGraph([
+          rect("nav", 0, 0, 400, 60),
+          text("logo", "Acme Inc.", 10, 20),
+        ]),
+      );
+
+      expect(outline).toContain("Sketch size: 400×60 px");
+      expect(outline).toContain("- rectangle #nav at (0, 0) size 400×60");
+      expect(outline).toContain('  - text "Acme Inc." #logo');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import type { SketchElement } from "@/types/canvas";
+import { validateCodeQuality } from "../quality-validator";
+import { buildSceneGraph } from "../scene-graph";
+import { compileSceneGraphToCode, compileSketch } from "../sketch-compiler";
+
+function rect(
+  id: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+): SketchElement {
+  return { id, type: "rectangle", x, y, width, height };
+}
+
+function text(
+  id: string,
+  value: string,
+  x: number,
+  y: number,
+  containerId?: string,
+): SketchElement {
+  return {
+    id,
+    type: "text",
+    x,
+    y,
+    width: value.length * 8,
+    height: 20,
+    text: value,
+    containerId,
+  };
+}
+
+describe("sketch-compiler", () => {
+  it("should turn a full-width top bar into a navbar", () => {
+    const components = compileSketch([
+      rect("nav", 0, 0, 1000, 60),
+      text("logo", "Acme", 20, 20),
+      rect("hero", 0, 200, 1000, 400),
+    ]);
+
+    const navbar = components.find((c) => c.id === "nav");
+    expect(navbar?.type).toBe("card");
+    expect(navbar?.props.className).toContain("flex");
+    expect(components.find((c) => c.id === "logo")?.type).toBe("label");
+    expect(components.find((c) => c.id === "hero")?.props.className).toBe(
+      undefined,
+    );
+  });
+
+  it("should turn a small labelled rectangle into a button", () => {
+    const components = compileSketch([
+      rect("card", 0, 100, 400, 300),
+      rect("cta", 20, 320, 120, 40),
+      text("cta-label", "Buy now", 30, 330, "cta"),
+    ]);
+
+    expect(components.map((c) => [c.id, c.type])).toEqual([
+      ["card", "card"],
+      ["cta", "button"],
+    ]);
+    expect(components[1].props.children).toBe("Buy now");
+  });
+
+  it("should use an unbound text inside a small rectangle as button label", () => {
+    const components = compileSketch([
+      rect("form", 0, 100, 400, 300),
+      rect("submit", 20, 320, 120, 40),
+      text("submit-text", "Send", 40, 330),
+    ]);
+
+    const button = components.find((c) => c.id === "submit");
+    expect(button?.type).toBe("button");
+    expect(button?.props.children).toBe("Send");
+    expect(components.find((c) => c.id === "submit-text")).toBeUndefined();
+  });
+
+  it("should turn an empty wide rectangle into an input", () => {
+    const components = compileSketch([
+      rect("form", 0, 100, 400, 300),
+      rect("email", 20, 140, 300, 36),
+    ]);
+
+    expect(components.find((c) => c.id === "email")?.type).toBe("input");
+  });
+
+  it("should turn boxes in a grid into cards", () => {
+    const components = compileSketch([
+      rect("a", 0, 100, 200, 50),
+      rect("b", 250, 100, 200, 50),
+      rect("c", 0, 200, 200, 50),
+      rect("d", 250, 200, 200, 50),
+      rect("section", -20, 80, 500, 200),
+    ]);
+
+    expect(
+      components.filter((c) => c.id !== "section").map((c) => c.type),
+    ).toEqual(["card", "card", "card", "card"]);
+  });
+
+  it("should keep positions relative to the sketch origin", () => {
+    const [component] = compileSketch([rect("box", 300, 300, 500, 400)], 1000);
+
+    expect(component.position).toEqual({
+      x: 0,
+      y: 0,
+      width: 500,
+      height: 400,
+    });
+    expect(component.timestamp).toBe(1000);
+    expect(component.sourceDrawingHash).not.toBe("");
+  });
+
+  it("should compile a draft that passes the syntax rule", () => {
+    const code = compileSceneGraphToCode(
+      buildSceneGraph([
+        rect("nav", 0, 0, 1000, 60),
+        text("logo", "Acme", 20, 20),
+      ]),
+    );
+    expect(validateCodeQuality(code).details.syntaxValid).toBe(true);
+  });
+});
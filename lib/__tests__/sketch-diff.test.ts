@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { SketchElement } from "@/types/canvas";
+import { describeSketchDiff, diffSketch, isEmptyDiff } from "../sketch-diff";
+
+const button: SketchElement = {
+  id: "button",
+  type: "rectangle",
+  x: 0,
+  y: 0,
+  width: 120,
+  height: 40,
+};
+
+const label: SketchElement = {
+  id: "label",
+  type: "text",
+  x: 10,
+  y: 10,
+  width: 60,
+  height: 20,
+  text: "Sign up",
+  containerId: "button",
+};
+
+describe("sketch-diff", () => {
+  it("should report no changes for an identical sketch", () => {
+    expect(isEmptyDiff(diffSketch([button, label], [button, label]))).toBe(
+      true,
+    );
+  });
+
+  it("should detect added and removed elements", () => {
+    const card = { ...button, id: "card", width: 300, height: 200 };
+    const diff = diffSketch([button, label], [label, card]);
+
+    expect(diff.added.map((el) => el.id)).toEqual(["card"]);
+    expect(diff.removed.map((el) => el.id)).toEqual(["button"]);
+  });
+
+  it("should ignore jitter but report real moves", () => {
+    const jittered = diffSketch([button], [{ ...button, x: 2 }]);
+    expect(isEmptyDiff(jittered)).toBe(true);
+
+    const moved = diffSketch(
+      [button, label],
+      [
+        { ...button, y: 100 },
+        { ...label, y: 110 },
+      ],
+    );
+    expect(moved.moved.map((m) => m.element.id)).toEqual(["button"]);
+    expect(describeSketchDiff(moved)).toContain("MOVED rectangle #button");
+  });
+
+  it("should detect relabelled text", () => {
+    const diff = diffSketch([label], [{ ...label, text: "Register" }]);
+
+    expect(diff.relabelled).toHaveLength(1);
+    expect(describeSketchDiff(diff)).toContain(
+      'RELABELLED text "Register" #label (label of #button)',
+    );
+    expect(describeSketchDiff(diff)).toContain('(was "Sign up")');
+  });
+});
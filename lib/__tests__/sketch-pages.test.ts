@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import {
+  COMPONENT_PATH,
+  pageFilePath,
+  routeForFile,
+  routeFromFrameName,
+} from "../sketch-pages";
+
+describe("sketch-pages", () => {
+  it("should turn frame names into routes", () => {
+    expect(routeFromFrameName("Index")).toBe("/");
+    expect(routeFromFrameName("Pricing")).toBe("/pricing");
+    expect(routeFromFrameName("settings/My Profile")).toBe(
+      "/settings/my-profile",
+    );
+  });
+
+  it("should map generated files back to their route", () => {
+    expect(routeForFile(COMPONENT_PATH)).toBe("/");
+    expect(routeForFile(pageFilePath("/"))).toBe("/");
+    expect(routeForFile(pageFilePath("/settings/profile"))).toBe(
+      "/settings/profile",
+    );
+  });
+
+  it("should reject paths that aren't generated files", () => {
+    expect(routeForFile("app/layout.tsx")).toBeNull();
+    expect(routeForFile("app/../package.json")).toBeNull();
+    expect(routeForFile("/etc/page.tsx")).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createEventSender,
+  createStreamParser,
+  formatStreamEvent,
+  isStreamEvent,
+  type ParsedMessage,
+  readEventStream,
+} from "../stream-events";
+
+function bodyOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe("stream-events", () => {
+  it("should validate event names and required fields", () => {
+    expect(isStreamEvent("log", { message: "hi" })).toBe(true);
+    expect(isStreamEvent("log", { text: "hi" })).toBe(false);
+    expect(isStreamEvent("complete", { code: "", success: "yes" })).toBe(false);
+    expect(isStreamEvent("start", { message: "hi" })).toBe(false);
+  });
+
+  it("should parse events split anywhere across chunks", () => {
+    const messages: ParsedMessage[] = [];
+    const parser = createStreamParser((message) => messages.push(message));
+    const text =
+      formatStreamEvent("log", { message: "one" }, "1") +
+      ": keep-alive\r\n\r\n" +
+      'event: code\r\ndata: {"code":\r\ndata: "x"}\r\n\r\n';
+
+    for (const char of text) parser.push(char);
+    parser.end();
+
+    expect(messages).toEqual([
+      { id: "1", event: "log", data: '{"message":"one"}' },
+      { id: undefined, event: "code", data: '{"code":\n"x"}' },
+    ]);
+  });
+
+  it("should dispatch valid events in order and skip malformed ones", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const received: string[] = [];
+    const full =
+      formatStreamEvent("log", { message: "building" }) +
+      "event: log\ndata: {not json}\n\n" +
+      formatStreamEvent("complete", { code: "x", success: true }, "7");
+
+    const result = await readEventStream(
+      bodyOf([full.slice(0, 10), full.slice(10, 45), full.slice(45)]),
+      {
+        log: (data) => received.push(data.message),
+        complete: (data) => received.push(`done:${data.code}`),
+      },
+    );
+
+    expect(received).toEqual(["building", "done:x"]);
+    expect(result).toEqual({ lastEventId: "7", terminated: true });
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+
+  it("should report a stream that ends without a terminal event", async () => {
+    const result = await readEventStream(
+      bodyOf([formatStreamEvent("log", { message: "still going" })]),
+      {},
+    );
+
+    expect(result.terminated).toBe(false);
+  });
+
+  it("should refuse to send events that break the protocol", () => {
+    const enqueue = vi.fn();
+    const sendEvent = createEventSender({
+      enqueue,
+    } as unknown as ReadableStreamDefaultController<Uint8Array>);
+
+    sendEvent("log", { message: "ok" });
+    expect(enqueue).toHaveBeenCalledOnce();
+    expect(() =>
+      sendEvent("iteration", { current: 1 } as {
+        current: number;
+        max: number;
+      }),
+    ).toThrow('Invalid "iteration" event');
+  });
+});
@@ -0,0 +1,67 @@
+import os from "node:os";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { typeCheckComponent } from "../type-check";
+
+const component = `import { Button } from "@/components/ui/button";
+import { Star } from "lucide-react";
+
+export default function GeneratedWebsite() {
+  return (
+    <Button variant="outline">
+      <Star className="h-4 w-4" />
+    </Button>
+  );
+}`;
+
+describe("type-check", () => {
+  // The app's own ui sources and types stand in for an installed template
+  beforeEach(() => {
+    vi.stubEnv("TYPECHECK_TEMPLATE_DIR", process.cwd());
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should skip the check without an installed template", () => {
+    vi.stubEnv("TYPECHECK_TEMPLATE_DIR", os.tmpdir());
+    expect(typeCheckComponent(component)).toBeNull();
+  });
+
+  it("should type-check against the ui components and icon types", () => {
+    expect(typeCheckComponent(component)).toEqual([]);
+
+    const diagnostics = typeCheckComponent(
+      component.replace('variant="outline"', 'variant="fancy"'),
+    );
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics?.[0]).toMatchObject({
+      ruleId: "type-error",
+      line: 6,
+    });
+    expect(diagnostics?.[0].message).toContain("TS2322");
+  }, 30000);
+
+  it("should accept ui components the install stage adds to the sandbox", () => {
+    const table = `import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
+
+export default function GeneratedWebsite() {
+  return (
+    <Table>
+      <TableBody>
+        <TableRow>
+          <TableCell>Row</TableCell>
+        </TableRow>
+      </TableBody>
+    </Table>
+  );
+}`;
+    expect(typeCheckComponent(table)).toEqual([]);
+
+    const diagnostics = typeCheckComponent(
+      table.replace("ui/table", "ui/data-grid"),
+    );
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics?.[0].message).toContain("TS2307");
+  }, 30000);
+});
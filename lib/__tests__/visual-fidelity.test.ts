@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import type { SceneGraph, SceneNode } from "@/types/canvas";
+import {
+  describeFidelityGaps,
+  intersectionOverUnion,
+  scoreFidelity,
+} from "../visual-fidelity";
+
+function node(
+  id: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  children: SceneNode[] = [],
+): SceneNode {
+  return { id, kind: "rectangle", bounds: { x, y, width, height }, children };
+}
+
+const graph: SceneGraph = {
+  width: 400,
+  height: 300,
+  nodes: [
+    node("page", 0, 0, 400, 300, [
+      node("nav", 0, 0, 400, 50),
+      node("card", 100, 100, 200, 150),
+    ]),
+  ],
+  arrows: [],
+};
+
+describe("visual-fidelity", () => {
+  it("should compute intersection over union", () => {
+    const box = { x: 0, y: 0, width: 10, height: 10 };
+    expect(intersectionOverUnion(box, box)).toBe(1);
+    expect(intersectionOverUnion(box, { ...box, x: 5 })).toBeCloseTo(1 / 3);
+    expect(intersectionOverUnion(box, { ...box, x: 20 })).toBe(0);
+  });
+
+  it("should score a scaled rendering of the sketch as a perfect match", () => {
+    const report = scoreFidelity(graph, {
+      width: 1280,
+      height: 960,
+      boxes: [
+        { id: "page", x: 0, y: 0, width: 1200, height: 900 },
+        { id: "nav", x: 0, y: 0, width: 1200, height: 150 },
+        { id: "card", x: 300, y: 300, width: 600, height: 450 },
+      ],
+    });
+
+    expect(report.score).toBe(100);
+    expect(report.missing).toEqual([]);
+    expect(report.extra).toEqual([]);
+  });
+
+  it("should penalize missing and extra regions", () => {
+    const report = scoreFidelity(graph, {
+      width: 400,
+      height: 300,
+      boxes: [
+        { id: "page", x: 0, y: 0, width: 400, height: 300 },
+        { id: "nav", x: 0, y: 0, width: 400, height: 50 },
+        { id: "footer", x: 0, y: 250, width: 400, height: 50 },
+      ],
+    });
+
+    expect(report.missing).toEqual(["card"]);
+    expect(report.extra).toEqual(["footer"]);
+    expect(report.score).toBe(50);
+  });
+
+  it("should describe size discrepancies of drifted regions", () => {
+    const report = scoreFidelity(graph, {
+      width: 400,
+      height: 300,
+      boxes: [
+        { id: "page", x: 0, y: 0, width: 400, height: 300 },
+        { id: "nav", x: 0, y: 0, width: 400, height: 50 },
+        { id: "card", x: 0, y: 100, width: 400, height: 150 },
+      ],
+    });
+
+    expect(describeFidelityGaps(graph, report)).toBe(
+      "- rectangle #card is 100% wide, sketch shows 50%; starts 0% from the left, sketch shows 25%",
+    );
+  });
+});
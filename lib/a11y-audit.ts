@@ -0,0 +1,370 @@
+/**
+ * Accessibility audit of generated components, modelled on axe-core rules.
+ * DOM rules run in the sandbox's headless browser after a build; code and
+ * palette rules run on the server, which also covers closed dialogs that
+ * aren't in the DOM.
+ */
+
+import ts from "typescript";
+import { parseTsx } from "@/lib/code-analysis";
+import { checkPaletteContrast } from "@/lib/color-contrast";
+import { ELEMENT_ID_ATTRIBUTE } from "@/lib/element-ids";
+import type { ColorPalette } from "@/types/canvas";
+
+export type A11yImpact = "critical" | "serious" | "moderate" | "minor";
+
+export type A11yRuleId =
+  | "image-alt"
+  | "label"
+  | "button-name"
+  | "link-name"
+  | "color-contrast"
+  | "heading-order"
+  | "dialog-name"
+  | "dialog-focus"
+  | "dialog-title"
+  | "focus-trap"
+  | "palette-contrast";
+
+export interface A11yFinding {
+  ruleId: A11yRuleId;
+  impact: A11yImpact;
+  message: string;
+  elementId?: string; // nearest sketch element, when tagged
+  snippet?: string; // offending markup or JSX
+}
+
+// Findings per DOM rule; a repeated card shouldn't flood the report
+const MAX_FINDINGS_PER_RULE = 10;
+
+/**
+ * Browser-side audit, evaluated as `(source)(document)` in the page. Kept
+ * as a self-contained source string since it runs in another realm; the
+ * contrast math mirrors lib/color-contrast.ts.
+ */
+export const DOM_AUDIT_SOURCE = `(document) => {
+  const view = document.defaultView;
+  const findings = [];
+  const counts = {};
+
+  const report = (ruleId, impact, element, message) => {
+    counts[ruleId] = (counts[ruleId] || 0) + 1;
+    if (counts[ruleId] > ${MAX_FINDINGS_PER_RULE}) return;
+    const tagged = element.closest("[${ELEMENT_ID_ATTRIBUTE}]");
+    findings.push({
+      ruleId,
+      impact,
+      message,
+      ...(tagged ? { elementId: tagged.getAttribute("${ELEMENT_ID_ATTRIBUTE}") } : {}),
+      snippet: element.outerHTML.slice(0, 160),
+    });
+  };
+
+  const isHidden = (element) =>
+    !!element.closest("[aria-hidden='true'], [hidden]") ||
+    view.getComputedStyle(element).display === "none" ||
+    view.getComputedStyle(element).visibility === "hidden";
+
+  const labelledBy = (element) =>
+    (element.getAttribute("aria-labelledby") || "")
+      .split(/\\s+/)
+      .map((id) => document.getElementById(id)?.textContent || "")
+      .join(" ")
+      .trim();
+
+  const accessibleName = (element) =>
+    (element.getAttribute("aria-label") || "").trim() ||
+    labelledBy(element) ||
+    (element.getAttribute("title") || "").trim() ||
+    (element.textContent || "").trim() ||
+    Array.from(element.querySelectorAll("img[alt]"))
+      .map((img) => img.getAttribute("alt"))
+      .join(" ")
+      .trim();
+
+  for (const img of document.querySelectorAll("img")) {
+    const role = img.getAttribute("role");
+    if (isHidden(img) || role === "presentation" || role === "none") continue;
+    if (!img.hasAttribute("alt")) {
+      report("image-alt", "critical", img, "Image has no alt text");
+    }
+  }
+
+  const fields = document.querySelectorAll(
+    "input:not([type=hidden]):not([type=submit]):not([type=button]):not([type=reset]), textarea, select",
+  );
+  for (const field of fields) {
+    if (isHidden(field)) continue;
+    const label =
+      (field.getAttribute("aria-label") || "").trim() ||
+      labelledBy(field) ||
+      (field.id &&
+        Array.from(document.querySelectorAll("label[for]")).some(
+          (label) => label.htmlFor === field.id,
+        )) ||
+      field.closest("label") ||
+      (field.getAttribute("title") || "").trim();
+    if (!label) report("label", "critical", field, "Form field has no label");
+  }
+
+  for (const button of document.querySelectorAll("button, [role=button]")) {
+    if (!isHidden(button) && !accessibleName(button)) {
+      report("button-name", "critical", button, "Button has no accessible name");
+    }
+  }
+
+  for (const link of document.querySelectorAll("a[href]")) {
+    if (!isHidden(link) && !accessibleName(link)) {
+      report("link-name", "serious", link, "Link has no accessible name");
+    }
+  }
+
+  let previousLevel = 0;
+  for (const heading of document.querySelectorAll("h1, h2, h3, h4, h5, h6")) {
+    if (isHidden(heading)) continue;
+    const level = Number(heading.tagName[1]);
+    if (previousLevel && level > previousLevel + 1) {
+      report(
+        "heading-order",
+        "moderate",
+        heading,
+        \`Heading level jumps from h\${previousLevel} to h\${level}\`,
+      );
+    }
+    previousLevel = level;
+  }
+
+  const focusable =
+    "a[href], button:not([disabled]), input:not([disabled]), select, textarea, [tabindex]:not([tabindex='-1'])";
+  for (const dialog of document.querySelectorAll("[role=dialog], [role=alertdialog]")) {
+    if (isHidden(dialog)) continue;
+    if (!(dialog.getAttribute("aria-label") || labelledBy(dialog))) {
+      report("dialog-name", "serious", dialog, "Dialog has no accessible name");
+    }
+    if (!dialog.querySelector(focusable)) {
+      report(
+        "dialog-focus",
+        "serious",
+        dialog,
+        "Dialog has nothing focusable, so focus can't move into it",
+      );
+    }
+  }
+
+  const parse = (value) => {
+    const match = value.match(/rgba?\\(([^)]+)\\)/);
+    if (!match) return null;
+    const [r, g, b, a = 1] = match[1].split(/[\\s,/]+/).map(Number);
+    return { r, g, b, a };
+  };
+  const luminance = ({ r, g, b }) => {
+    const channel = (value) => {
+      const c = value / 255;
+      return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+    };
+    return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+  };
+  const hex = ({ r, g, b }) =>
+    "#" + [r, g, b].map((c) => Math.round(c).toString(16).padStart(2, "0")).join("");
+
+  // First opaque background behind the element; null over images/gradients
+  const backgroundOf = (element) => {
+    for (let node = element; node && node.nodeType === 1; node = node.parentElement) {
+      const style = view.getComputedStyle(node);
+      if (style.backgroundImage && style.backgroundImage !== "none") return null;
+      const color = parse(style.backgroundColor);
+      if (color && color.a > 0) return color.a === 1 ? color : null;
+    }
+    return { r: 255, g: 255, b: 255, a: 1 };
+  };
+
+  for (const element of document.body.querySelectorAll("*")) {
+    const hasText = Array.from(element.childNodes).some(
+      (node) => node.nodeType === 3 && node.textContent.trim(),
+    );
+    if (!hasText || isHidden(element)) continue;
+
+    const style = view.getComputedStyle(element);
+    const foreground = parse(style.color);
+    const background = backgroundOf(element);
+    if (!foreground || foreground.a < 1 || !background) continue;
+
+    const size = Number.parseFloat(style.fontSize) || 16;
+    const bold = Number(style.fontWeight) >= 700 || style.fontWeight === "bold";
+    const required = size >= 24 || (bold && size >= 18.66) ? 3 : 4.5;
+    const [light, dark] = [luminance(foreground), luminance(background)].sort(
+      (x, y) => y - x,
+    );
+    const ratio = (light + 0.05) / (dark + 0.05);
+    if (ratio < required) {
+      report(
+        "color-contrast",
+        "serious",
+        element,
+        \`Text contrast \${ratio.toFixed(2)}:1 (\${hex(foreground)} on \${hex(background)}), needs \${required}:1\`,
+      );
+    }
+  }
+
+  return findings;
+}`;
+
+// Radix overlays and the title that names them
+const DIALOG_TITLES: Record<string, string> = {
+  DialogContent: "DialogTitle",
+  SheetContent: "SheetTitle",
+  AlertDialogContent: "AlertDialogTitle",
+  DrawerContent: "DrawerTitle",
+};
+
+function jsxTagName(node: ts.Node, sourceFile: ts.SourceFile): string | null {
+  if (ts.isJsxElement(node)) {
+    return node.openingElement.tagName.getText(sourceFile);
+  }
+  if (ts.isJsxSelfClosingElement(node)) {
+    return node.tagName.getText(sourceFile);
+  }
+  return null;
+}
+
+function jsxAttribute(
+  element: ts.JsxOpeningLikeElement,
+  name: string,
+): ts.JsxAttribute | undefined {
+  return element.attributes.properties.find(
+    (property): property is ts.JsxAttribute =>
+      ts.isJsxAttribute(property) && property.name.getText() === name,
+  );
+}
+
+function staticElementId(element: ts.JsxOpeningLikeElement) {
+  const initializer = jsxAttribute(element, ELEMENT_ID_ATTRIBUTE)?.initializer;
+  return initializer && ts.isStringLiteral(initializer)
+    ? { elementId: initializer.text }
+    : {};
+}
+
+function snippet(node: ts.Node, sourceFile: ts.SourceFile): string {
+  return node.getText(sourceFile).replace(/\s+/g, " ").slice(0, 160);
+}
+
+/**
+ * Code-level rules: dialogs without a title (closed dialogs aren't in the
+ * DOM) and hand-rolled modal overlays that don't trap focus
+ */
+export function auditComponentCode(code: string): A11yFinding[] {
+  const sourceFile = parseTsx(code);
+  const findings: A11yFinding[] = [];
+
+  const visit = (node: ts.Node, insideDialog: boolean) => {
+    const tag = jsxTagName(node, sourceFile);
+    const opening =
+      tag && ts.isJsxElement(node)
+        ? node.openingElement
+        : tag && ts.isJsxSelfClosingElement(node)
+          ? node
+          : null;
+
+    if (tag && opening && tag in DIALOG_TITLES) {
+      const title = DIALOG_TITLES[tag];
+      let hasTitle = false;
+      const findTitle = (child: ts.Node) => {
+        if (jsxTagName(child, sourceFile) === title) hasTitle = true;
+        ts.forEachChild(child, findTitle);
+      };
+      ts.forEachChild(node, findTitle);
+      if (!hasTitle) {
+        findings.push({
+          ruleId: "dialog-title",
+          impact: "serious",
+          message: `<${tag}> has no <${title}>, so screen readers can't name it`,
+          ...staticElementId(opening),
+          snippet: snippet(opening, sourceFile),
+        });
+      }
+      ts.forEachChild(node, (child) => visit(child, true));
+      return;
+    }
+
+    if (opening && !insideDialog) {
+      const className = jsxAttribute(opening, "className")?.initializer;
+      const classes =
+        className && ts.isStringLiteral(className)
+          ? className.text.split(/\s+/)
+          : [];
+      const role = jsxAttribute(opening, "role")?.initializer;
+      const isModal =
+        (role && ts.isStringLiteral(role) && role.text === "dialog") ||
+        !!jsxAttribute(opening, "aria-modal");
+      // `{open && <div className="fixed inset-0">}` is a hand-rolled modal
+      const isConditional =
+        ts.isBinaryExpression(node.parent) &&
+        node.parent.operatorToken.kind ===
+          ts.SyntaxKind.AmpersandAmpersandToken;
+      if (
+        classes.includes("fixed") &&
+        classes.includes("inset-0") &&
+        (isModal || isConditional)
+      ) {
+        findings.push({
+          ruleId: "focus-trap",
+          impact: "serious",
+          message:
+            "Custom overlay doesn't trap focus or close on Escape; use Dialog or Sheet",
+          ...staticElementId(opening),
+          snippet: snippet(opening, sourceFile),
+        });
+      }
+    }
+
+    ts.forEachChild(node, (child) => visit(child, insideDialog));
+  };
+
+  visit(sourceFile, false);
+  return findings;
+}
+
+/**
+ * Palette pairs that fail WCAG AA
+ */
+export function auditPalette(palette: ColorPalette): A11yFinding[] {
+  return checkPaletteContrast(palette)
+    .filter((pair) => !pair.passes)
+    .map((pair) => ({
+      ruleId: "palette-contrast",
+      impact: pair.foreground === "text" ? "serious" : "moderate",
+      message: `Palette ${pair.foreground} ${palette[pair.foreground]} on ${pair.background} ${palette[pair.background]} is ${pair.ratio}:1, needs ${pair.required}:1`,
+    }));
+}
+
+const IMPACT_ORDER: A11yImpact[] = ["critical", "serious", "moderate", "minor"];
+
+export function sortFindings(findings: A11yFinding[]): A11yFinding[] {
+  return [...findings].sort(
+    (a, b) => IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact),
+  );
+}
+
+export function summarizeFindings(findings: A11yFinding[]): string {
+  if (findings.length === 0) return "♿ Accessibility: no issues found";
+  const counts = IMPACT_ORDER.map(
+    (impact) =>
+      [impact, findings.filter((f) => f.impact === impact).length] as const,
+  )
+    .filter(([, count]) => count > 0)
+    .map(([impact, count]) => `${count} ${impact}`);
+  return `♿ Accessibility: ${counts.join(", ")}`;
+}
+
+/**
+ * Renders findings as a list for a fix prompt
+ */
+export function describeFindings(findings: A11yFinding[]): string {
+  return sortFindings(findings)
+    .map((finding) => {
+      const target = finding.elementId ? ` #${finding.elementId}` : "";
+      const markup = finding.snippet ? `\n    ${finding.snippet}` : "";
+      return `- [${finding.impact}] ${finding.ruleId}${target}: ${finding.message}${markup}`;
+    })
+    .join("\n");
+}
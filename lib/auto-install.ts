@@ -1,310 +1,432 @@
-import { toast } from "sonner";
+import * as lucide from "lucide-react";
+import ts from "typescript";
+import { analyzeCode, parseTsx } from "@/lib/code-analysis";
+
+// shadcn/ui component export -> file under components/ui
+const COMPONENT_TO_FILE = new Map<string, string>([
+  // Layout & Containers
+  ["Card", "card"],
+  ["CardContent", "card"],
+  ["CardDescription", "card"],
+  ["CardFooter", "card"],
+  ["CardHeader", "card"],
+  ["CardTitle", "card"],
+  ["Separator", "separator"],
+  ["ScrollArea", "scroll-area"],
+  ["AspectRatio", "aspect-ratio"],
+
+  // Buttons & Interactive
+  ["Button", "button"],
+  ["Toggle", "toggle"],
+  ["ToggleGroup", "toggle-group"],
+  ["ToggleGroupItem", "toggle-group"],
+  ["Switch", "switch"],
+
+  // Form Inputs
+  ["Input", "input"],
+  ["Textarea", "textarea"],
+  ["Checkbox", "checkbox"],
+  ["Label", "label"],
+  ["RadioGroup", "radio-group"],
+  ["RadioGroupItem", "radio-group"],
+  ["Select", "select"],
+  ["SelectContent", "select"],
+  ["SelectItem", "select"],
+  ["SelectTrigger", "select"],
+  ["SelectValue", "select"],
+  ["SelectGroup", "select"],
+  ["SelectLabel", "select"],
+  ["Slider", "slider"],
+
+  // Navigation & Menus
+  ["NavigationMenu", "navigation-menu"],
+  ["NavigationMenuContent", "navigation-menu"],
+  ["NavigationMenuItem", "navigation-menu"],
+  ["NavigationMenuLink", "navigation-menu"],
+  ["NavigationMenuList", "navigation-menu"],
+  ["NavigationMenuTrigger", "navigation-menu"],
+  ["Menubar", "menubar"],
+  ["MenubarMenu", "menubar"],
+  ["MenubarTrigger", "menubar"],
+  ["MenubarContent", "menubar"],
+  ["MenubarItem", "menubar"],
+  ["MenubarSeparator", "menubar"],
+  ["DropdownMenu", "dropdown-menu"],
+  ["DropdownMenuContent", "dropdown-menu"],
+  ["DropdownMenuItem", "dropdown-menu"],
+  ["DropdownMenuLabel", "dropdown-menu"],
+  ["DropdownMenuSeparator", "dropdown-menu"],
+  ["DropdownMenuTrigger", "dropdown-menu"],
+  ["ContextMenu", "context-menu"],
+  ["ContextMenuContent", "context-menu"],
+  ["ContextMenuItem", "context-menu"],
+  ["ContextMenuTrigger", "context-menu"],
+
+  // Content Organization
+  ["Tabs", "tabs"],
+  ["TabsContent", "tabs"],
+  ["TabsList", "tabs"],
+  ["TabsTrigger", "tabs"],
+  ["Accordion", "accordion"],
+  ["AccordionContent", "accordion"],
+  ["AccordionItem", "accordion"],
+  ["AccordionTrigger", "accordion"],
+  ["Collapsible", "collapsible"],
+  ["CollapsibleContent", "collapsible"],
+  ["CollapsibleTrigger", "collapsible"],
+
+  // Overlays & Dialogs
+  ["Dialog", "dialog"],
+  ["DialogContent", "dialog"],
+  ["DialogDescription", "dialog"],
+  ["DialogHeader", "dialog"],
+  ["DialogTitle", "dialog"],
+  ["DialogTrigger", "dialog"],
+  ["DialogFooter", "dialog"],
+  ["Sheet", "sheet"],
+  ["SheetContent", "sheet"],
+  ["SheetDescription", "sheet"],
+  ["SheetHeader", "sheet"],
+  ["SheetTitle", "sheet"],
+  ["SheetTrigger", "sheet"],
+  ["AlertDialog", "alert-dialog"],
+  ["AlertDialogAction", "alert-dialog"],
+  ["AlertDialogCancel", "alert-dialog"],
+  ["AlertDialogContent", "alert-dialog"],
+  ["AlertDialogDescription", "alert-dialog"],
+  ["AlertDialogFooter", "alert-dialog"],
+  ["AlertDialogHeader", "alert-dialog"],
+  ["AlertDialogTitle", "alert-dialog"],
+  ["AlertDialogTrigger", "alert-dialog"],
+  ["Popover", "popover"],
+  ["PopoverContent", "popover"],
+  ["PopoverTrigger", "popover"],
+  ["HoverCard", "hover-card"],
+  ["HoverCardContent", "hover-card"],
+  ["HoverCardTrigger", "hover-card"],
+  ["Tooltip", "tooltip"],
+  ["TooltipContent", "tooltip"],
+  ["TooltipProvider", "tooltip"],
+  ["TooltipTrigger", "tooltip"],
+
+  // Feedback & Display
+  ["Alert", "alert"],
+  ["AlertDescription", "alert"],
+  ["AlertTitle", "alert"],
+  ["Badge", "badge"],
+  ["Avatar", "avatar"],
+  ["AvatarFallback", "avatar"],
+  ["AvatarImage", "avatar"],
+  ["Progress", "progress"],
+  ["Skeleton", "skeleton"],
+  ["Sonner", "sonner"],
+]);
+
+const FRAMER_MOTION_EXPORTS = new Set([
+  "AnimatePresence",
+  "LayoutGroup",
+  "MotionConfig",
+  "Reorder",
+  "animate",
+  "motion",
+  "stagger",
+  "useAnimate",
+  "useAnimation",
+  "useInView",
+  "useMotionValue",
+  "useReducedMotion",
+  "useScroll",
+  "useSpring",
+  "useTransform",
+]);
+
+const REACT_EXPORTS = new Set([
+  "Fragment",
+  "Suspense",
+  "createContext",
+  "forwardRef",
+  "memo",
+  "useCallback",
+  "useContext",
+  "useEffect",
+  "useId",
+  "useLayoutEffect",
+  "useMemo",
+  "useReducer",
+  "useRef",
+  "useState",
+  "useTransition",
+]);
+
+// Components that are default exports of their module
+const DEFAULT_EXPORTS = new Map([
+  ["Image", "next/image"],
+  ["Link", "next/link"],
+]);
+
+interface ImportSource {
+  module: string;
+  isDefault?: boolean;
+}
 
 /**
- * Auto-installs missing shadcn/ui components
- * Note: This requires server-side execution or a backend endpoint
+ * Where a name should be imported from, preferring shadcn over icons
+ * (lucide also has icons called Badge, Calendar, ...)
  */
-export async function autoInstallComponents(
-  missingComponents: string[],
-): Promise<boolean> {
-  const componentToFile = new Map<string, string>([
-    // Layout & Containers
-    ["Card", "card"],
-    ["CardContent", "card"],
-    ["CardDescription", "card"],
-    ["CardFooter", "card"],
-    ["CardHeader", "card"],
-    ["CardTitle", "card"],
-    ["Separator", "separator"],
-    ["ScrollArea", "scroll-area"],
-    ["AspectRatio", "aspect-ratio"],
-
-    // Buttons & Interactive
-    ["Button", "button"],
-    ["Toggle", "toggle"],
-    ["ToggleGroup", "toggle-group"],
-    ["ToggleGroupItem", "toggle-group"],
-    ["Switch", "switch"],
-
-    // Form Inputs
-    ["Input", "input"],
-    ["Textarea", "textarea"],
-    ["Checkbox", "checkbox"],
-    ["Label", "label"],
-    ["RadioGroup", "radio-group"],
-    ["RadioGroupItem", "radio-group"],
-    ["Select", "select"],
-    ["SelectContent", "select"],
-    ["SelectItem", "select"],
-    ["SelectTrigger", "select"],
-    ["SelectValue", "select"],
-    ["SelectGroup", "select"],
-    ["SelectLabel", "select"],
-    ["Slider", "slider"],
-
-    // Navigation & Menus
-    ["NavigationMenu", "navigation-menu"],
-    ["NavigationMenuContent", "navigation-menu"],
-    ["NavigationMenuItem", "navigation-menu"],
-    ["NavigationMenuLink", "navigation-menu"],
-    ["NavigationMenuList", "navigation-menu"],
-    ["NavigationMenuTrigger", "navigation-menu"],
-    ["Menubar", "menubar"],
-    ["MenubarMenu", "menubar"],
-    ["MenubarTrigger", "menubar"],
-    ["MenubarContent", "menubar"],
-    ["MenubarItem", "menubar"],
-    ["MenubarSeparator", "menubar"],
-    ["DropdownMenu", "dropdown-menu"],
-    ["DropdownMenuContent", "dropdown-menu"],
-    ["DropdownMenuItem", "dropdown-menu"],
-    ["DropdownMenuLabel", "dropdown-menu"],
-    ["DropdownMenuSeparator", "dropdown-menu"],
-    ["DropdownMenuTrigger", "dropdown-menu"],
-    ["ContextMenu", "context-menu"],
-    ["ContextMenuContent", "context-menu"],
-    ["ContextMenuItem", "context-menu"],
-    ["ContextMenuTrigger", "context-menu"],
-
-    // Content Organization
-    ["Tabs", "tabs"],
-    ["TabsContent", "tabs"],
-    ["TabsList", "tabs"],
-    ["TabsTrigger", "tabs"],
-    ["Accordion", "accordion"],
-    ["AccordionContent", "accordion"],
-    ["AccordionItem", "accordion"],
-    ["AccordionTrigger", "accordion"],
-    ["Collapsible", "collapsible"],
-    ["CollapsibleContent", "collapsible"],
-    ["CollapsibleTrigger", "collapsible"],
-
-    // Overlays & Dialogs
-    ["Dialog", "dialog"],
-    ["DialogContent", "dialog"],
-    ["DialogDescription", "dialog"],
-    ["DialogHeader", "dialog"],
-    ["DialogTitle", "dialog"],
-    ["DialogTrigger", "dialog"],
-    ["DialogFooter", "dialog"],
-    ["Sheet", "sheet"],
-    ["SheetContent", "sheet"],
-    ["SheetDescription", "sheet"],
-    ["SheetHeader", "sheet"],
-    ["SheetTitle", "sheet"],
-    ["SheetTrigger", "sheet"],
-    ["AlertDialog", "alert-dialog"],
-    ["AlertDialogAction", "alert-dialog"],
-    ["AlertDialogCancel", "alert-dialog"],
-    ["AlertDialogContent", "alert-dialog"],
-    ["AlertDialogDescription", "alert-dialog"],
-    ["AlertDialogFooter", "alert-dialog"],
-    ["AlertDialogHeader", "alert-dialog"],
-    ["AlertDialogTitle", "alert-dialog"],
-    ["AlertDialogTrigger", "alert-dialog"],
-    ["Popover", "popover"],
-    ["PopoverContent", "popover"],
-    ["PopoverTrigger", "popover"],
-    ["HoverCard", "hover-card"],
-    ["HoverCardContent", "hover-card"],
-    ["HoverCardTrigger", "hover-card"],
-    ["Tooltip", "tooltip"],
-    ["TooltipContent", "tooltip"],
-    ["TooltipProvider", "tooltip"],
-    ["TooltipTrigger", "tooltip"],
-
-    // Feedback & Display
-    ["Alert", "alert"],
-    ["AlertDescription", "alert"],
-    ["AlertTitle", "alert"],
-    ["Badge", "badge"],
-    ["Avatar", "avatar"],
-    ["AvatarFallback", "avatar"],
-    ["AvatarImage", "avatar"],
-    ["Progress", "progress"],
-    ["Skeleton", "skeleton"],
-    ["Sonner", "sonner"],
-  ]);
-
-  const filesToInstall = new Set<string>();
-  missingComponents.forEach((comp) => {
-    const file = componentToFile.get(comp);
-    if (file) {
-      filesToInstall.add(file);
-    }
-  });
-
-  if (filesToInstall.size === 0) {
-    return true;
+function resolveImportSource(name: string): ImportSource | null {
+  const file = COMPONENT_TO_FILE.get(name);
+  if (file) return { module: `@/components/ui/${file}` };
+  if (FRAMER_MOTION_EXPORTS.has(name)) return { module: "framer-motion" };
+  if (REACT_EXPORTS.has(name)) return { module: "react" };
+  const defaultModule = DEFAULT_EXPORTS.get(name);
+  if (defaultModule) return { module: defaultModule, isDefault: true };
+  if (/^[A-Z]/.test(name) && name !== "Icon" && name in lucide) {
+    return { module: "lucide-react" };
   }
+  return null;
+}
+
+// Modules whose exports we know well enough to move names out of
+function isKnownModule(module: string): boolean {
+  return (
+    module.includes("components/ui") ||
+    /^(lucide|framer-motion|motion\/react|react$)/.test(module)
+  );
+}
+
+function isValidSource(name: string, module: string): boolean {
+  if (module === resolveImportSource(name)?.module) return true;
+  if (module === "lucide-react") return name in lucide;
+  if (module === "motion/react") return FRAMER_MOTION_EXPORTS.has(name);
+  return false;
+}
 
-  // For now, we'll just notify the user
-  // In a real implementation, you'd need a backend endpoint to run the install commands
-  const files = Array.from(filesToInstall);
+interface ImportGroup {
+  module: string;
+  typeOnly: boolean;
+  defaultName?: string;
+  namespaceName?: string;
+  named: { name: string; local: string; typeOnly: boolean }[];
+}
 
-  toast.info(`Missing ${files.length} component file(s)`, {
-    description: `Please run: bunx shadcn@latest add ${files.join(" ")}`,
-    duration: 10000,
+function renderImport(group: ImportGroup): string {
+  const typePrefix = group.typeOnly ? "type " : "";
+  const named = group.named.map(({ name, local, typeOnly }) => {
+    const specifier = name === local ? name : `${name} as ${local}`;
+    return typeOnly ? `type ${specifier}` : specifier;
   });
+  const bindings = [
+    group.defaultName,
+    group.namespaceName ? `* as ${group.namespaceName}` : undefined,
+    named.length > 0 ? `{ ${named.join(", ")} }` : undefined,
+  ].filter(Boolean);
 
-  // Copy install command to clipboard
-  const command = `bunx shadcn@latest add ${files.join(" ")}`;
-  try {
-    await navigator.clipboard.writeText(command);
-    toast.success("Install command copied to clipboard!", {
-      description: "Paste in your terminal to install missing components",
-    });
-  } catch (err) {
-    console.error("Failed to copy to clipboard:", err);
-  }
+  const line = `import ${typePrefix}${bindings.join(", ")} from "${group.module}";`;
+  if (line.length <= 80 || named.length === 0) return line;
 
-  return false;
+  const head = [
+    group.defaultName,
+    group.namespaceName && `* as ${group.namespaceName}`,
+  ]
+    .filter(Boolean)
+    .map((binding) => `${binding}, `)
+    .join("");
+  return `import ${typePrefix}${head}{\n${named.map((n) => `  ${n},`).join("\n")}\n} from "${group.module}";`;
 }
 
 /**
- * Suggests fixes for missing imports in the code
+ * Rewrites the import block of generated code: inserts missing imports,
+ * merges duplicate declarations, removes unused bindings and moves names
+ * imported from the wrong module. Code with syntax errors is returned
+ * unchanged, the build output explains those better.
  */
-export function suggestImportFixes(
-  code: string,
-  missingComponents: string[],
-): string {
-  // Reuse the same comprehensive mapping
-  const componentToFile = new Map<string, string>([
-    ["Card", "card"],
-    ["CardContent", "card"],
-    ["CardDescription", "card"],
-    ["CardFooter", "card"],
-    ["CardHeader", "card"],
-    ["CardTitle", "card"],
-    ["Separator", "separator"],
-    ["ScrollArea", "scroll-area"],
-    ["AspectRatio", "aspect-ratio"],
-    ["Button", "button"],
-    ["Toggle", "toggle"],
-    ["ToggleGroup", "toggle-group"],
-    ["ToggleGroupItem", "toggle-group"],
-    ["Switch", "switch"],
-    ["Input", "input"],
-    ["Textarea", "textarea"],
-    ["Checkbox", "checkbox"],
-    ["Label", "label"],
-    ["RadioGroup", "radio-group"],
-    ["RadioGroupItem", "radio-group"],
-    ["Select", "select"],
-    ["SelectContent", "select"],
-    ["SelectItem", "select"],
-    ["SelectTrigger", "select"],
-    ["SelectValue", "select"],
-    ["SelectGroup", "select"],
-    ["SelectLabel", "select"],
-    ["Slider", "slider"],
-    ["NavigationMenu", "navigation-menu"],
-    ["NavigationMenuContent", "navigation-menu"],
-    ["NavigationMenuItem", "navigation-menu"],
-    ["NavigationMenuLink", "navigation-menu"],
-    ["NavigationMenuList", "navigation-menu"],
-    ["NavigationMenuTrigger", "navigation-menu"],
-    ["Menubar", "menubar"],
-    ["MenubarMenu", "menubar"],
-    ["MenubarTrigger", "menubar"],
-    ["MenubarContent", "menubar"],
-    ["MenubarItem", "menubar"],
-    ["DropdownMenu", "dropdown-menu"],
-    ["DropdownMenuContent", "dropdown-menu"],
-    ["DropdownMenuItem", "dropdown-menu"],
-    ["DropdownMenuLabel", "dropdown-menu"],
-    ["DropdownMenuSeparator", "dropdown-menu"],
-    ["DropdownMenuTrigger", "dropdown-menu"],
-    ["ContextMenu", "context-menu"],
-    ["ContextMenuContent", "context-menu"],
-    ["ContextMenuItem", "context-menu"],
-    ["ContextMenuTrigger", "context-menu"],
-    ["Tabs", "tabs"],
-    ["TabsContent", "tabs"],
-    ["TabsList", "tabs"],
-    ["TabsTrigger", "tabs"],
-    ["Accordion", "accordion"],
-    ["AccordionContent", "accordion"],
-    ["AccordionItem", "accordion"],
-    ["AccordionTrigger", "accordion"],
-    ["Collapsible", "collapsible"],
-    ["CollapsibleContent", "collapsible"],
-    ["CollapsibleTrigger", "collapsible"],
-    ["Dialog", "dialog"],
-    ["DialogContent", "dialog"],
-    ["DialogDescription", "dialog"],
-    ["DialogHeader", "dialog"],
-    ["DialogTitle", "dialog"],
-    ["DialogTrigger", "dialog"],
-    ["DialogFooter", "dialog"],
-    ["Sheet", "sheet"],
-    ["SheetContent", "sheet"],
-    ["SheetDescription", "sheet"],
-    ["SheetHeader", "sheet"],
-    ["SheetTitle", "sheet"],
-    ["SheetTrigger", "sheet"],
-    ["AlertDialog", "alert-dialog"],
-    ["AlertDialogAction", "alert-dialog"],
-    ["AlertDialogCancel", "alert-dialog"],
-    ["AlertDialogContent", "alert-dialog"],
-    ["AlertDialogDescription", "alert-dialog"],
-    ["AlertDialogFooter", "alert-dialog"],
-    ["AlertDialogHeader", "alert-dialog"],
-    ["AlertDialogTitle", "alert-dialog"],
-    ["AlertDialogTrigger", "alert-dialog"],
-    ["Popover", "popover"],
-    ["PopoverContent", "popover"],
-    ["PopoverTrigger", "popover"],
-    ["HoverCard", "hover-card"],
-    ["HoverCardContent", "hover-card"],
-    ["HoverCardTrigger", "hover-card"],
-    ["Tooltip", "tooltip"],
-    ["TooltipContent", "tooltip"],
-    ["TooltipProvider", "tooltip"],
-    ["TooltipTrigger", "tooltip"],
-    ["Alert", "alert"],
-    ["AlertDescription", "alert"],
-    ["AlertTitle", "alert"],
-    ["Badge", "badge"],
-    ["Avatar", "avatar"],
-    ["AvatarFallback", "avatar"],
-    ["AvatarImage", "avatar"],
-    ["Progress", "progress"],
-    ["Skeleton", "skeleton"],
-  ]);
-
-  // Group missing components by their file
-  const fileToComponents = new Map<string, string[]>();
-  missingComponents.forEach((comp) => {
-    const file = componentToFile.get(comp);
-    if (file) {
-      if (!fileToComponents.has(file)) {
-        fileToComponents.set(file, []);
+export function fixImports(code: string): { code: string; fixes: string[] } {
+  const diagnostics = analyzeCode(code);
+  if (diagnostics.some((d) => d.ruleId === "syntax-error")) {
+    return { code, fixes: [] };
+  }
+
+  const sourceFile = parseTsx(code);
+  const declarations = sourceFile.statements.filter(ts.isImportDeclaration);
+  const fixes: string[] = [];
+
+  // Every identifier outside the imports counts as a use
+  const used = new Set<string>();
+  const collect = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node)) return;
+    if (ts.isIdentifier(node)) used.add(node.text);
+    ts.forEachChild(node, collect);
+  };
+  collect(sourceFile);
+
+  const groups: ImportGroup[] = [];
+  const sideEffects: string[] = [];
+  const bound = new Set<string>();
+
+  const groupFor = (module: string, typeOnly = false) => {
+    let group = groups.find(
+      (g) => g.module === module && g.typeOnly === typeOnly,
+    );
+    if (!group) {
+      group = { module, typeOnly, named: [] };
+      groups.push(group);
+    }
+    return group;
+  };
+
+  // Claims a local name; later duplicates are dropped
+  const claim = (local: string, module: string) => {
+    if (bound.has(local)) {
+      fixes.push(`removed duplicate ${local} from "${module}"`);
+      return false;
+    }
+    if (!used.has(local)) {
+      fixes.push(`removed unused ${local} from "${module}"`);
+      return false;
+    }
+    bound.add(local);
+    return true;
+  };
+
+  const addNamed = (
+    module: string,
+    spec: ImportGroup["named"][number],
+    typeOnly: boolean,
+  ) => {
+    const target =
+      isKnownModule(module) && !isValidSource(spec.name, module)
+        ? resolveImportSource(spec.name)
+        : null;
+    if (target && target.module !== module) {
+      fixes.push(`moved ${spec.name} to "${target.module}"`);
+      if (!claim(spec.local, target.module)) return;
+      if (target.isDefault && spec.name === spec.local) {
+        groupFor(target.module, typeOnly).defaultName = spec.local;
+      } else {
+        groupFor(target.module, typeOnly).named.push(spec);
       }
-      fileToComponents.get(file)!.push(comp);
+      return;
     }
-  });
+    if (claim(spec.local, module)) groupFor(module, typeOnly).named.push(spec);
+  };
 
-  // Generate import statements
-  let imports = "";
-  fileToComponents.forEach((components, file) => {
-    imports += `import { ${components.join(", ")} } from "@/components/ui/${file}"\n`;
-  });
+  for (const declaration of declarations) {
+    if (!ts.isStringLiteral(declaration.moduleSpecifier)) continue;
+    const module = declaration.moduleSpecifier.text;
+    const clause = declaration.importClause;
+
+    if (!clause) {
+      const statement = declaration.getText(sourceFile);
+      if (!sideEffects.includes(statement)) sideEffects.push(statement);
+      continue;
+    }
+
+    const typeOnly = clause.isTypeOnly;
+    if (clause.name) {
+      const local = clause.name.text;
+      // shadcn components are named exports
+      if (COMPONENT_TO_FILE.has(local) && module.includes("components/ui")) {
+        fixes.push(`changed default import of ${local} to a named import`);
+        addNamed(module, { name: local, local, typeOnly: false }, typeOnly);
+      } else if (claim(local, module)) {
+        const group = groupFor(module, typeOnly);
+        if (group.defaultName) {
+          groupFor(module, typeOnly).named.push({
+            name: "default",
+            local,
+            typeOnly: false,
+          });
+        } else {
+          group.defaultName = local;
+        }
+      }
+    }
 
-  // Find the first import or export statement
-  const firstImportMatch = code.match(/^import /m);
-  const firstExportMatch = code.match(/^export /m);
-
-  if (firstImportMatch) {
-    // Add before first import
-    const index = code.indexOf(firstImportMatch[0]);
-    return imports + code.slice(index);
-  } else if (firstExportMatch) {
-    // Add before first export
-    const index = code.indexOf(firstExportMatch[0]);
-    return imports + "\n" + code.slice(index);
+    const bindings = clause.namedBindings;
+    if (bindings && ts.isNamespaceImport(bindings)) {
+      const local = bindings.name.text;
+      if (claim(local, module)) {
+        // `* as X` can't share a declaration with named imports
+        groups.push({ module, typeOnly, namespaceName: local, named: [] });
+      }
+    } else if (bindings) {
+      for (const element of bindings.elements) {
+        addNamed(
+          module,
+          {
+            name: (element.propertyName ?? element.name).text,
+            local: element.name.text,
+            typeOnly: element.isTypeOnly,
+          },
+          typeOnly,
+        );
+      }
+    }
+  }
+
+  for (const diagnostic of diagnostics) {
+    const name = diagnostic.identifier;
+    if (diagnostic.ruleId !== "unimported-identifier" || !name) continue;
+    const source = resolveImportSource(name);
+    if (!source || bound.has(name)) continue;
+
+    bound.add(name);
+    const group = groupFor(source.module);
+    if (source.isDefault) {
+      group.defaultName = name;
+    } else {
+      group.named.push({ name, local: name, typeOnly: false });
+    }
+    fixes.push(`added ${name} from "${source.module}"`);
+  }
+
+  const merged = new Map<string, number>();
+  for (const declaration of declarations) {
+    const key = declaration.moduleSpecifier.getText(sourceFile);
+    merged.set(key, (merged.get(key) ?? 0) + 1);
+  }
+  for (const [module, count] of merged) {
+    if (count > 1) fixes.push(`merged ${count} imports of ${module}`);
+  }
+
+  if (fixes.length === 0) return { code, fixes };
+
+  const importBlock = [
+    ...sideEffects,
+    ...groups
+      .filter((g) => g.defaultName || g.namespaceName || g.named.length > 0)
+      .map(renderImport),
+  ].join("\n");
+
+  // Drop the old declarations, the new block goes where the first one was
+  let result = "";
+  let cursor = 0;
+  for (const declaration of declarations) {
+    result += code.slice(cursor, declaration.getStart(sourceFile));
+    cursor = declaration.getEnd();
+    if (code[cursor] === "\n") cursor += 1;
+  }
+  result += code.slice(cursor);
+
+  if (declarations.length > 0) {
+    const insertAt = declarations[0].getStart(sourceFile);
+    result = `${result.slice(0, insertAt)}${importBlock}\n${result.slice(insertAt)}`;
   } else {
-    // Add at the beginning
-    return imports + "\n" + code;
+    // Imports go below "use client" and other directives
+    let directive: ts.Statement | undefined;
+    for (const statement of sourceFile.statements) {
+      if (
+        !ts.isExpressionStatement(statement) ||
+        !ts.isStringLiteral(statement.expression)
+      ) {
+        break;
+      }
+      directive = statement;
+    }
+    result = directive
+      ? `${result.slice(0, directive.getEnd())}\n\n${importBlock}${result.slice(directive.getEnd())}`
+      : `${importBlock}\n\n${result}`;
   }
+
+  return { code: result, fixes };
 }
@@ -0,0 +1,518 @@
+/**
+ * AST-based checks for generated TSX. Parses with the TypeScript compiler
+ * so strings, comments and template literals can't confuse the checks,
+ * and every diagnostic points at a line and column.
+ */
+
+import ts from "typescript";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export interface CodeDiagnostic {
+  ruleId:
+    | "syntax-error"
+    | "unimported-identifier"
+    | "duplicate-import"
+    | "invalid-jsx-nesting"
+    | "type-error";
+  severity: DiagnosticSeverity;
+  message: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  identifier?: string; // offending name, for import fixers
+}
+
+// Capitalized globals and builtins that never need an import
+const KNOWN_GLOBALS = new Set([
+  "Array",
+  "Boolean",
+  "Date",
+  "Error",
+  "Fragment",
+  "Infinity",
+  "Intl",
+  "JSON",
+  "Map",
+  "Math",
+  "NaN",
+  "Number",
+  "Object",
+  "Promise",
+  "React",
+  "RegExp",
+  "Set",
+  "String",
+  "Symbol",
+  "URL",
+  "URLSearchParams",
+  "WeakMap",
+  "WeakSet",
+]);
+
+// Components that render a single known DOM element
+const COMPONENT_ELEMENTS: Record<string, string> = {
+  Button: "button",
+  Input: "input",
+  Link: "a",
+  Textarea: "textarea",
+};
+
+const INTERACTIVE_ELEMENTS = new Set([
+  "a",
+  "button",
+  "input",
+  "select",
+  "textarea",
+]);
+
+const BLOCK_ELEMENTS = new Set([
+  "article",
+  "aside",
+  "blockquote",
+  "div",
+  "dl",
+  "fieldset",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "ul",
+]);
+
+export function parseTsx(code: string, fileName = "component.tsx") {
+  return ts.createSourceFile(
+    fileName,
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TSX,
+  );
+}
+
+function location(sourceFile: ts.SourceFile, position: number) {
+  const { line, character } =
+    sourceFile.getLineAndCharacterOfPosition(position);
+  return { line: line + 1, column: character + 1 };
+}
+
+function syntaxDiagnostics(
+  code: string,
+  sourceFile: ts.SourceFile,
+): CodeDiagnostic[] {
+  const { diagnostics = [] } = ts.transpileModule(code, {
+    fileName: sourceFile.fileName,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve },
+  });
+
+  return diagnostics.map((diagnostic) => ({
+    ruleId: "syntax-error",
+    severity: "error",
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+    ...location(sourceFile, diagnostic.start ?? 0),
+  }));
+}
+
+/**
+ * Every name bound anywhere in the file. Scopes are flattened, so a name
+ * declared in one function hides a missing import in another — this only
+ * errs towards fewer reports.
+ */
+function collectDeclaredNames(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+
+  const addBinding = (name: ts.BindingName) => {
+    if (ts.isIdentifier(name)) {
+      names.add(name.text);
+      return;
+    }
+    for (const element of name.elements) {
+      if (!ts.isOmittedExpression(element)) addBinding(element.name);
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isImportClause(node) ||
+      ts.isImportSpecifier(node) ||
+      ts.isNamespaceImport(node) ||
+      ts.isImportEqualsDeclaration(node)
+    ) {
+      if (node.name) names.add(node.name.text);
+    } else if (
+      ts.isVariableDeclaration(node) ||
+      ts.isParameter(node) ||
+      ts.isBindingElement(node)
+    ) {
+      addBinding(node.name);
+    } else if (
+      (ts.isFunctionDeclaration(node) ||
+        ts.isFunctionExpression(node) ||
+        ts.isClassDeclaration(node) ||
+        ts.isClassExpression(node) ||
+        ts.isEnumDeclaration(node) ||
+        ts.isInterfaceDeclaration(node) ||
+        ts.isTypeAliasDeclaration(node)) &&
+      node.name
+    ) {
+      names.add(node.name.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return names;
+}
+
+function isIntrinsicTag(name: string): boolean {
+  return /^[a-z]/.test(name);
+}
+
+/**
+ * Whether an identifier reads a value, as opposed to naming a property,
+ * attribute or declaration
+ */
+function isValueReference(node: ts.Identifier): boolean {
+  const parent = node.parent;
+
+  if (
+    (ts.isPropertyAccessExpression(parent) ||
+      ts.isPropertyAssignment(parent) ||
+      ts.isMethodDeclaration(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isJsxAttribute(parent) ||
+      ts.isVariableDeclaration(parent) ||
+      ts.isFunctionDeclaration(parent) ||
+      ts.isFunctionExpression(parent) ||
+      ts.isClassDeclaration(parent) ||
+      ts.isParameter(parent) ||
+      ts.isEnumMember(parent)) &&
+    parent.name === node
+  ) {
+    return false;
+  }
+  if (ts.isBindingElement(parent) || ts.isLabeledStatement(parent)) {
+    return false;
+  }
+  if (ts.isJsxClosingElement(parent)) return false;
+  if (
+    (ts.isJsxOpeningElement(parent) || ts.isJsxSelfClosingElement(parent)) &&
+    isIntrinsicTag(node.text)
+  ) {
+    return false;
+  }
+  return !(
+    ts.isImportClause(parent) ||
+    ts.isImportSpecifier(parent) ||
+    ts.isNamespaceImport(parent) ||
+    ts.isExportSpecifier(parent) ||
+    ts.isBreakOrContinueStatement(parent)
+  );
+}
+
+function unimportedIdentifiers(sourceFile: ts.SourceFile): CodeDiagnostic[] {
+  const declared = collectDeclaredNames(sourceFile);
+  const diagnostics: CodeDiagnostic[] = [];
+  const reported = new Set<string>();
+
+  const visit = (node: ts.Node) => {
+    // Types are erased, a missing type import never breaks rendering
+    if (ts.isTypeNode(node) || ts.isImportDeclaration(node)) return;
+
+    if (ts.isIdentifier(node) && isValueReference(node)) {
+      const name = node.text;
+      const needsImport = /^[A-Z]/.test(name) || /^use[A-Z]/.test(name);
+      if (
+        needsImport &&
+        !declared.has(name) &&
+        !KNOWN_GLOBALS.has(name) &&
+        !reported.has(name)
+      ) {
+        reported.add(name);
+        diagnostics.push({
+          ruleId: "unimported-identifier",
+          severity: "error",
+          message: `'${name}' is used but never imported or declared`,
+          identifier: name,
+          ...location(sourceFile, node.getStart(sourceFile)),
+        });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return diagnostics;
+}
+
+function duplicateImports(sourceFile: ts.SourceFile): CodeDiagnostic[] {
+  const diagnostics: CodeDiagnostic[] = [];
+  const modules = new Set<string>();
+  const names = new Set<string>();
+
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      continue;
+    }
+
+    const moduleName = statement.moduleSpecifier.text;
+    const typeOnly = statement.importClause?.isTypeOnly ? "type " : "";
+    const key = `${typeOnly}${moduleName}`;
+    if (modules.has(key)) {
+      diagnostics.push({
+        ruleId: "duplicate-import",
+        severity: "warning",
+        message: `"${moduleName}" is imported more than once`,
+        ...location(sourceFile, statement.getStart(sourceFile)),
+      });
+    }
+    modules.add(key);
+
+    const clause = statement.importClause;
+    const bindings = clause?.namedBindings;
+    const localNames = [
+      ...(clause?.name ? [clause.name] : []),
+      ...(bindings && ts.isNamespaceImport(bindings) ? [bindings.name] : []),
+      ...(bindings && ts.isNamedImports(bindings)
+        ? bindings.elements.map((element) => element.name)
+        : []),
+    ];
+    for (const name of localNames) {
+      if (names.has(name.text)) {
+        diagnostics.push({
+          ruleId: "duplicate-import",
+          severity: "error",
+          message: `'${name.text}' is imported more than once`,
+          identifier: name.text,
+          ...location(sourceFile, name.getStart(sourceFile)),
+        });
+      }
+      names.add(name.text);
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * DOM element a JSX tag renders, or null when it can't be known
+ */
+function renderedElement(
+  element: ts.JsxOpeningElement | ts.JsxSelfClosingElement,
+): string | null {
+  const tag = element.tagName;
+  if (ts.isIdentifier(tag)) {
+    if (isIntrinsicTag(tag.text)) return tag.text;
+    const asChild = element.attributes.properties.some(
+      (attribute) =>
+        ts.isJsxAttribute(attribute) &&
+        ts.isIdentifier(attribute.name) &&
+        attribute.name.text === "asChild",
+    );
+    return asChild ? null : (COMPONENT_ELEMENTS[tag.text] ?? null);
+  }
+  // motion.div and friends render the element they are named after
+  if (
+    ts.isPropertyAccessExpression(tag) &&
+    ts.isIdentifier(tag.expression) &&
+    tag.expression.text === "motion"
+  ) {
+    return tag.name.text;
+  }
+  return null;
+}
+
+function nestingProblem(
+  child: string,
+  ancestors: (string | null)[],
+): string | null {
+  const parent = ancestors[ancestors.length - 1];
+
+  if (INTERACTIVE_ELEMENTS.has(child)) {
+    const owner = ancestors.find((tag) => tag === "a" || tag === "button");
+    if (owner) return `<${child}> cannot be nested inside <${owner}>`;
+  }
+  if (parent === "p" && BLOCK_ELEMENTS.has(child)) {
+    return `<${child}> cannot appear inside <p>`;
+  }
+  if (child === "li" && parent && !["ul", "ol", "menu"].includes(parent)) {
+    return `<li> must be inside <ul>, <ol> or <menu>, not <${parent}>`;
+  }
+  if (child === "tr" && parent === "table") {
+    return "<tr> must be wrapped in <thead>, <tbody> or <tfoot>";
+  }
+  if ((child === "td" || child === "th") && parent && parent !== "tr") {
+    return `<${child}> must be inside <tr>, not <${parent}>`;
+  }
+  return null;
+}
+
+function invalidNesting(sourceFile: ts.SourceFile): CodeDiagnostic[] {
+  const diagnostics: CodeDiagnostic[] = [];
+
+  const check = (
+    element: ts.JsxOpeningElement | ts.JsxSelfClosingElement,
+    ancestors: (string | null)[],
+  ) => {
+    const tag = renderedElement(element);
+    const problem = tag ? nestingProblem(tag, ancestors) : null;
+    if (problem) {
+      diagnostics.push({
+        ruleId: "invalid-jsx-nesting",
+        severity: "warning",
+        message: problem,
+        ...location(sourceFile, element.getStart(sourceFile)),
+      });
+    }
+    return tag;
+  };
+
+  const visit = (node: ts.Node, ancestors: (string | null)[]) => {
+    if (ts.isJsxElement(node)) {
+      const tag = check(node.openingElement, ancestors);
+      ts.forEachChild(node.openingElement, (child) => visit(child, []));
+      for (const child of node.children) visit(child, [...ancestors, tag]);
+      return;
+    }
+    if (ts.isJsxSelfClosingElement(node)) {
+      check(node, ancestors);
+      ts.forEachChild(node, (child) => visit(child, []));
+      return;
+    }
+    // Expressions inside JSX ({cond && <a/>}, {items.map(...)}) render in place
+    ts.forEachChild(node, (child) => visit(child, ancestors));
+  };
+
+  visit(sourceFile, []);
+  return diagnostics;
+}
+
+/**
+ * Runs every check and returns diagnostics sorted by position
+ */
+export function analyzeCode(
+  code: string,
+  fileName = "component.tsx",
+): CodeDiagnostic[] {
+  const sourceFile = parseTsx(code, fileName);
+
+  return [
+    ...syntaxDiagnostics(code, sourceFile),
+    ...unimportedIdentifiers(sourceFile),
+    ...duplicateImports(sourceFile),
+    ...invalidNesting(sourceFile),
+  ].sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+export function formatDiagnostic(diagnostic: CodeDiagnostic): string {
+  return `${diagnostic.line}:${diagnostic.column} ${diagnostic.severity} ${diagnostic.message} [${diagnostic.ruleId}]`;
+}
+
+export interface DefaultExportInfo {
+  name?: string;
+  isFunction: boolean;
+  returnsJsx: boolean;
+}
+
+function containsJsx(node: ts.Node): boolean {
+  if (
+    ts.isJsxElement(node) ||
+    ts.isJsxSelfClosingElement(node) ||
+    ts.isJsxFragment(node)
+  ) {
+    return true;
+  }
+  return ts.forEachChild(node, containsJsx) ?? false;
+}
+
+function containsReturn(node: ts.Node): boolean {
+  if (ts.isReturnStatement(node)) return true;
+  // Returns of nested callbacks don't count
+  if (ts.isFunctionLike(node)) return false;
+  return ts.forEachChild(node, containsReturn) ?? false;
+}
+
+function inspectFunction(
+  fn: ts.FunctionLikeDeclaration,
+  name?: string,
+): DefaultExportInfo {
+  const body = fn.body;
+  const returns =
+    !!body && (!ts.isBlock(body) || ts.forEachChild(body, containsReturn));
+  return {
+    name,
+    isFunction: true,
+    returnsJsx: !!body && !!returns && containsJsx(body),
+  };
+}
+
+/**
+ * Finds the default export and whether it is a component that renders JSX
+ */
+export function inspectDefaultExport(code: string): DefaultExportInfo | null {
+  const sourceFile = parseTsx(code);
+  const functions = new Map<string, ts.FunctionLikeDeclaration>();
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      functions.set(statement.name.text, statement);
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        const init = declaration.initializer;
+        if (
+          ts.isIdentifier(declaration.name) &&
+          init &&
+          (ts.isArrowFunction(init) || ts.isFunctionExpression(init))
+        ) {
+          functions.set(declaration.name.text, init);
+        }
+      }
+    }
+  }
+
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isFunctionDeclaration(statement) &&
+      statement.modifiers?.some(
+        (modifier) => modifier.kind === ts.SyntaxKind.DefaultKeyword,
+      )
+    ) {
+      return inspectFunction(statement, statement.name?.text);
+    }
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      const expression = statement.expression;
+      if (ts.isIdentifier(expression)) {
+        const fn = functions.get(expression.text);
+        return fn
+          ? inspectFunction(fn, expression.text)
+          : { name: expression.text, isFunction: false, returnsJsx: false };
+      }
+      if (
+        ts.isArrowFunction(expression) ||
+        ts.isFunctionExpression(expression)
+      ) {
+        return inspectFunction(expression);
+      }
+      return { isFunction: false, returnsJsx: false };
+    }
+  }
+
+  return null;
+}
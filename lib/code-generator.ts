@@ -1,4 +1,37 @@
-import type { GeneratedComponent } from "@/types/canvas";
+import { elementIdAttribute } from "@/lib/element-ids";
+import {
+  clusterRows,
+  detectLayout,
+  nestByContainment,
+} from "@/lib/scene-graph";
+import type {
+  ComponentPosition,
+  GeneratedComponent,
+  SceneLayout,
+} from "@/types/canvas";
+
+// Components that never wrap other components
+const LEAF_TYPES = new Set([
+  "avatar",
+  "badge",
+  "button",
+  "checkbox",
+  "input",
+  "label",
+  "separator",
+  "skeleton",
+  "slider",
+  "switch",
+  "textarea",
+]);
+
+const GAP_CLASS = "gap-4";
+
+interface LayoutNode {
+  component: GeneratedComponent;
+  bounds: ComponentPosition;
+  children: LayoutNode[];
+}
 
 export function extractUsedComponents(
   components: GeneratedComponent[],
@@ -14,15 +47,26 @@ function capitalize(str: string): string {
     .join("");
 }
 
+// Characters that end an attribute or start an expression, tag or entity
+const JSX_SPECIAL = /["{}<>&]/;
+
+// Sketch text goes into an expression only when it would otherwise be
+// parsed as JSX
+function jsxText(text: string): string {
+  return JSX_SPECIAL.test(text) ? `{${JSON.stringify(text)}}` : text;
+}
+
 function formatProps(props: Record<string, any>): string {
   return Object.entries(props)
     .map(([key, value]) => {
-      if (key === "children") {
-        return null; // Handle children separately
+      if (key === "children" || key === "className") {
+        return null; // Handled separately
       }
 
       if (typeof value === "string") {
-        return `${key}="${value}"`;
+        return JSX_SPECIAL.test(value)
+          ? `${key}={${JSON.stringify(value)}}`
+          : `${key}="${value}"`;
       }
 
       if (typeof value === "boolean") {
@@ -35,35 +79,118 @@ function formatProps(props: Record<string, any>): string {
     .join(" ");
 }
 
-function generateComponentJSX(component: GeneratedComponent): string {
+function mergeClasses(...classes: (string | undefined)[]): string {
+  const tokens = classes.flatMap((c) => c?.split(/\s+/) ?? []);
+  return Array.from(new Set(tokens.filter(Boolean))).join(" ");
+}
+
+// Tailwind only has grid-cols-1 to grid-cols-12
+function gridColumns(columns = 1): number {
+  return Math.min(Math.max(Math.round(columns), 1), 12);
+}
+
+function layoutClasses(layout?: SceneLayout): string {
+  switch (layout?.type) {
+    case "row":
+      return `flex flex-wrap items-center ${GAP_CLASS}`;
+    case "grid":
+      return `grid grid-cols-1 sm:grid-cols-${gridColumns(layout.columns)} ${GAP_CLASS}`;
+    default:
+      return `flex flex-col ${GAP_CLASS}`;
+  }
+}
+
+/**
+ * Renders siblings in reading order; rows that don't fit the parent's
+ * layout get their own flex row wrapper
+ */
+function renderChildren(
+  nodes: LayoutNode[],
+  layout: SceneLayout | undefined,
+  depth: number,
+  inRow: boolean,
+  annotate: boolean,
+): string[] {
+  if (layout) {
+    return nodes.flatMap((node) => renderNode(node, depth, inRow, annotate));
+  }
+
+  const indent = "  ".repeat(depth);
+  return clusterRows(nodes).flatMap((row) => {
+    if (row.length === 1) {
+      return renderNode(row[0], depth, false, annotate);
+    }
+    return [
+      `${indent}<div className="${layoutClasses({ type: "row" })}">`,
+      ...row.flatMap((node) => renderNode(node, depth + 1, true, annotate)),
+      `${indent}</div>`,
+    ];
+  });
+}
+
+function renderNode(
+  node: LayoutNode,
+  depth: number,
+  inRow: boolean,
+  annotate: boolean,
+): string[] {
+  const { component, children } = node;
+  const indent = "  ".repeat(depth);
   const ComponentName = capitalize(component.type);
-  const propsStr = formatProps(component.props);
-  const children = component.props.children || "";
-
-  const style = {
-    position: "absolute" as const,
-    left: component.position.x,
-    top: component.position.y,
-    width: component.position.width,
-    height: component.position.height,
-  };
-
-  const styleStr = JSON.stringify(style, null, 2)
-    .replace(/"([^"]+)":/g, "$1:")
-    .replace(/"/g, "'");
-
-  if (children) {
-    return `      <${ComponentName} ${propsStr} style={${styleStr}}>
-        ${children}
-      </${ComponentName}>`;
+  const isLeaf = LEAF_TYPES.has(component.type);
+  const { layout, ordered } = detectLayout(children);
+
+  const className = mergeClasses(
+    component.props.className,
+    children.length > 0 ? layoutClasses(layout) : undefined,
+    // Containers and inputs share a row; empty containers keep their height
+    (!isLeaf || component.type === "input") && inRow
+      ? "flex-1 min-w-0"
+      : undefined,
+    !isLeaf && children.length === 0
+      ? `min-h-[${component.position.height}px]`
+      : undefined,
+  );
+
+  const attributes = [
+    annotate ? elementIdAttribute(component.id) : "",
+    formatProps(component.props),
+    className ? `className="${className}"` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+  const openTag = attributes
+    ? `<${ComponentName} ${attributes}`
+    : `<${ComponentName}`;
+  const text = component.props.children;
+
+  if (!text && ordered.length === 0) {
+    return [`${indent}${openTag} />`];
   }
 
-  return `      <${ComponentName} ${propsStr} style={${styleStr}} />`;
+  return [
+    `${indent}${openTag}>`,
+    ...(text ? [`${indent}  ${jsxText(text)}`] : []),
+    ...renderChildren(
+      ordered,
+      layout,
+      depth + 1,
+      layout?.type === "row",
+      annotate,
+    ),
+    `${indent}</${ComponentName}>`,
+  ];
 }
 
-export function generateReactCode(components: GeneratedComponent[]): string {
+/**
+ * `annotate` tags each component with its source element id for the preview
+ */
+export function generateReactCode(
+  components: GeneratedComponent[],
+  { annotate = false }: { annotate?: boolean } = {},
+): string {
   if (components.length === 0) {
-    return `export default function GeneratedUI() {
+    return `export default function GeneratedWebsite() {
   return (
     <div className="relative w-full h-screen">
       <p className="text-muted-foreground p-4">No components generated yet</p>
@@ -72,18 +199,37 @@ export function generateReactCode(components: GeneratedComponent[]): string {
 }`;
   }
 
-  const usedComponents = extractUsedComponents(components);
-  const componentNames = usedComponents.map(capitalize);
-
-  const imports = `import { ${componentNames.join(", ")} } from '@/components/ui';`;
+  const imports = extractUsedComponents(components)
+    .map(
+      (type) =>
+        `import { ${capitalize(type)} } from "@/components/ui/${type}";`,
+    )
+    .join("\n");
+
+  const nodes: LayoutNode[] = components.map((component) => ({
+    component,
+    bounds: component.position,
+    children: [],
+  }));
+  const roots = nestByContainment(
+    nodes,
+    (node) => !LEAF_TYPES.has(node.component.type),
+  );
+  const { layout, ordered } = detectLayout(roots);
 
-  const jsxComponents = components.map(generateComponentJSX).join("\n\n");
+  const jsxComponents = renderChildren(
+    ordered,
+    layout,
+    3,
+    layout?.type === "row",
+    annotate,
+  ).join("\n");
 
   return `${imports}
 
-export default function GeneratedUI() {
+export default function GeneratedWebsite() {
   return (
-    <div className="relative w-full h-screen">
+    <div className="min-h-screen w-full p-6 ${layoutClasses(layout)}">
 ${jsxComponents}
     </div>
   );
@@ -0,0 +1,73 @@
+/**
+ * SEARCH/REPLACE patches returned by the model for region-scoped edits
+ */
+
+export interface CodePatch {
+  search: string;
+  replace: string;
+}
+
+const PATCH_PATTERN =
+  /<{7} SEARCH\n([\s\S]*?)\n?={7}\n([\s\S]*?)\n?>{7} REPLACE/g;
+
+export function parsePatches(text: string): CodePatch[] {
+  return Array.from(text.matchAll(PATCH_PATTERN), (match) => ({
+    search: match[1],
+    replace: match[2],
+  }));
+}
+
+/**
+ * Finds the search block line by line, ignoring indentation differences.
+ * Returns the [start, end) line range or null.
+ */
+function findLineRange(
+  lines: string[],
+  search: string,
+): [number, number] | null {
+  const searchLines = search
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (searchLines.length === 0) return null;
+
+  for (let start = 0; start < lines.length; start++) {
+    let i = start;
+    let matched = 0;
+    while (i < lines.length && matched < searchLines.length) {
+      const line = lines[i].trim();
+      if (line === "") {
+        i++;
+        continue;
+      }
+      if (line !== searchLines[matched]) break;
+      matched++;
+      i++;
+    }
+    if (matched === searchLines.length) return [start, i];
+  }
+  return null;
+}
+
+function applyPatch(code: string, patch: CodePatch): string {
+  if (patch.search && code.includes(patch.search)) {
+    return code.replace(patch.search, () => patch.replace);
+  }
+
+  const lines = code.split("\n");
+  const range = findLineRange(lines, patch.search);
+  if (!range) {
+    throw new Error(
+      `Patch did not match the current code:\n${patch.search.slice(0, 200)}`,
+    );
+  }
+
+  const [start, end] = range;
+  return [...lines.slice(0, start), patch.replace, ...lines.slice(end)].join(
+    "\n",
+  );
+}
+
+export function applyPatches(code: string, patches: CodePatch[]): string {
+  return patches.reduce(applyPatch, code);
+}
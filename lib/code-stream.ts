@@ -0,0 +1,22 @@
+/**
+ * Helpers for code that is still streaming in from the model. Kept free of
+ * the parser so the browser bundle stays small.
+ */
+
+/**
+ * Extracts the code from a partially streamed model response.
+ * Drops the opening markdown fence (and anything before it) and the
+ * closing fence once it arrives.
+ */
+export function extractPartialCode(text: string): string {
+  const fenceStart = text.match(
+    /```(?:tsx|typescript|jsx|javascript)?[^\S\n]*\n?/,
+  );
+  if (!fenceStart || fenceStart.index === undefined) {
+    return "";
+  }
+
+  const code = text.slice(fenceStart.index + fenceStart[0].length);
+  const fenceEnd = code.indexOf("```");
+  return fenceEnd === -1 ? code : code.slice(0, fenceEnd).trimEnd();
+}
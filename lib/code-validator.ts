@@ -1,4 +1,73 @@
 import { toast } from "sonner";
+import {
+  analyzeCode,
+  type CodeDiagnostic,
+  formatDiagnostic,
+} from "@/lib/code-analysis";
+
+// Components that can be installed with `shadcn add`
+const AVAILABLE_SHADCN_COMPONENTS = new Set([
+  "Alert",
+  "AlertDescription",
+  "AlertTitle",
+  "AlertDialog",
+  "AlertDialogAction",
+  "AlertDialogCancel",
+  "AlertDialogContent",
+  "Avatar",
+  "AvatarFallback",
+  "AvatarImage",
+  "Badge",
+  "Button",
+  "Card",
+  "CardContent",
+  "CardDescription",
+  "CardFooter",
+  "CardHeader",
+  "CardTitle",
+  "Checkbox",
+  "Dialog",
+  "DialogContent",
+  "DialogDescription",
+  "DialogHeader",
+  "DialogTitle",
+  "DialogTrigger",
+  "DropdownMenu",
+  "DropdownMenuContent",
+  "DropdownMenuItem",
+  "DropdownMenuTrigger",
+  "Input",
+  "Label",
+  "RadioGroup",
+  "RadioGroupItem",
+  "ScrollArea",
+  "Select",
+  "SelectContent",
+  "SelectItem",
+  "SelectTrigger",
+  "SelectValue",
+  "Separator",
+  "Sheet",
+  "SheetContent",
+  "SheetDescription",
+  "SheetHeader",
+  "SheetTitle",
+  "SheetTrigger",
+  "Slider",
+  "Switch",
+  "Tabs",
+  "TabsContent",
+  "TabsList",
+  "TabsTrigger",
+  "Textarea",
+  "Toggle",
+  "ToggleGroup",
+  "ToggleGroupItem",
+  "Tooltip",
+  "TooltipContent",
+  "TooltipProvider",
+  "TooltipTrigger",
+]);
 
 interface ValidationResult {
   valid: boolean;
@@ -6,6 +75,7 @@ interface ValidationResult {
   warnings: string[];
   missingComponents: string[];
   hasImports: boolean;
+  diagnostics: CodeDiagnostic[];
 }
 
 /**
@@ -25,6 +95,7 @@ export function validateGeneratedCode(code: string): ValidationResult {
       warnings,
       missingComponents,
       hasImports: false,
+      diagnostics: [],
     };
   }
 
@@ -36,116 +107,19 @@ export function validateGeneratedCode(code: string): ValidationResult {
   // Check for imports
   const hasImports = code.includes("import ");
 
-  // Extract component usage from the code
-  const componentMatches = code.match(/<([A-Z][a-zA-Z]*)/g);
-  const usedComponents = new Set(
-    componentMatches?.map((match) => match.slice(1)) || [],
-  );
-
-  // Extract imported components
-  const importMatches = code.match(
-    /import\s+{([^}]+)}\s+from\s+["']@\/components\/ui\/([^"']+)["']/g,
-  );
-  const importedComponents = new Set<string>();
-
-  if (importMatches) {
-    importMatches.forEach((imp) => {
-      const match = imp.match(/import\s+{([^}]+)}/);
-      if (match) {
-        const components = match[1].split(",").map((c) => c.trim());
-        components.forEach((c) => importedComponents.add(c));
-      }
-    });
-  }
-
-  // Check for used but not imported components
-  const availableShadcnComponents = [
-    "Alert",
-    "AlertDescription",
-    "AlertTitle",
-    "AlertDialog",
-    "AlertDialogAction",
-    "AlertDialogCancel",
-    "AlertDialogContent",
-    "Avatar",
-    "AvatarFallback",
-    "AvatarImage",
-    "Badge",
-    "Button",
-    "Card",
-    "CardContent",
-    "CardDescription",
-    "CardFooter",
-    "CardHeader",
-    "CardTitle",
-    "Checkbox",
-    "Dialog",
-    "DialogContent",
-    "DialogDescription",
-    "DialogHeader",
-    "DialogTitle",
-    "DialogTrigger",
-    "DropdownMenu",
-    "DropdownMenuContent",
-    "DropdownMenuItem",
-    "DropdownMenuTrigger",
-    "Input",
-    "Label",
-    "RadioGroup",
-    "RadioGroupItem",
-    "ScrollArea",
-    "Select",
-    "SelectContent",
-    "SelectItem",
-    "SelectTrigger",
-    "SelectValue",
-    "Separator",
-    "Sheet",
-    "SheetContent",
-    "SheetDescription",
-    "SheetHeader",
-    "SheetTitle",
-    "SheetTrigger",
-    "Slider",
-    "Switch",
-    "Tabs",
-    "TabsContent",
-    "TabsList",
-    "TabsTrigger",
-    "Textarea",
-    "Toggle",
-    "ToggleGroup",
-    "ToggleGroupItem",
-    "Tooltip",
-    "TooltipContent",
-    "TooltipProvider",
-    "TooltipTrigger",
-  ];
+  // Parse once, so braces inside strings and JSX text can't fool the checks
+  const diagnostics = analyzeCode(code);
+  for (const diagnostic of diagnostics) {
+    const target = diagnostic.severity === "error" ? errors : warnings;
+    target.push(formatDiagnostic(diagnostic));
 
-  usedComponents.forEach((component) => {
     if (
-      availableShadcnComponents.includes(component) &&
-      !importedComponents.has(component)
+      diagnostic.ruleId === "unimported-identifier" &&
+      diagnostic.identifier &&
+      AVAILABLE_SHADCN_COMPONENTS.has(diagnostic.identifier)
     ) {
-      missingComponents.push(component);
+      missingComponents.push(diagnostic.identifier);
     }
-  });
-
-  // Check for common syntax errors
-  const openBraces = (code.match(/{/g) || []).length;
-  const closeBraces = (code.match(/}/g) || []).length;
-  if (openBraces !== closeBraces) {
-    errors.push(
-      `Mismatched braces: ${openBraces} opening, ${closeBraces} closing`,
-    );
-  }
-
-  const openParens = (code.match(/\(/g) || []).length;
-  const closeParens = (code.match(/\)/g) || []).length;
-  if (openParens !== closeParens) {
-    errors.push(
-      `Mismatched parentheses: ${openParens} opening, ${closeParens} closing`,
-    );
   }
 
   // Check for export default
@@ -168,7 +142,14 @@ export function validateGeneratedCode(code: string): ValidationResult {
   }
 
   const valid = errors.length === 0;
-  return { valid, errors, warnings, missingComponents, hasImports };
+  return {
+    valid,
+    errors,
+    warnings,
+    missingComponents,
+    hasImports,
+    diagnostics,
+  };
 }
 
 /**
@@ -0,0 +1,181 @@
+/**
+ * WCAG 2.1 contrast math for palette colors and rendered text
+ */
+
+import type { ColorPalette } from "@/types/canvas";
+
+export interface RGB {
+  r: number; // 0–255
+  g: number;
+  b: number;
+}
+
+// Minimum contrast ratios for level AA
+export const AA_NORMAL_TEXT = 4.5;
+export const AA_LARGE_TEXT = 3;
+export const AA_NON_TEXT = 3; // UI components and graphics
+
+export function parseHexColor(hex: string): RGB | null {
+  const match = hex.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const digits =
+    match[1].length === 3
+      ? [...match[1]].map((digit) => digit + digit).join("")
+      : match[1];
+  return {
+    r: Number.parseInt(digits.slice(0, 2), 16),
+    g: Number.parseInt(digits.slice(2, 4), 16),
+    b: Number.parseInt(digits.slice(4, 6), 16),
+  };
+}
+
+export function relativeLuminance({ r, g, b }: RGB): number {
+  const channel = (value: number) => {
+    const c = value / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+export function contrastRatio(a: RGB, b: RGB): number {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort(
+    (x, y) => y - x,
+  );
+  return (light + 0.05) / (dark + 0.05);
+}
+
+export interface PaletteContrast {
+  foreground: keyof ColorPalette;
+  background: keyof ColorPalette;
+  ratio: number; // rounded to 2 decimals
+  required: number;
+  passes: boolean;
+}
+
+// Pairs the generated UI puts on top of each other
+const PALETTE_PAIRS: {
+  foreground: keyof ColorPalette;
+  background: keyof ColorPalette;
+  required: number;
+}[] = [
+  { foreground: "text", background: "background", required: AA_NORMAL_TEXT },
+  { foreground: "primary", background: "background", required: AA_NON_TEXT },
+  { foreground: "secondary", background: "background", required: AA_NON_TEXT },
+  { foreground: "accent", background: "background", required: AA_NON_TEXT },
+];
+
+/**
+ * Checks the palette's foreground/background pairs against WCAG AA.
+ * Pairs with an unparseable color are skipped.
+ */
+export function checkPaletteContrast(palette: ColorPalette): PaletteContrast[] {
+  return PALETTE_PAIRS.flatMap(({ foreground, background, required }) => {
+    const fg = parseHexColor(palette[foreground]);
+    const bg = parseHexColor(palette[background]);
+    if (!fg || !bg) return [];
+    const ratio = Math.round(contrastRatio(fg, bg) * 100) / 100;
+    return [
+      { foreground, background, ratio, required, passes: ratio >= required },
+    ];
+  });
+}
+
+export function toHexColor({ r, g, b }: RGB): string {
+  return `#${[r, g, b]
+    .map((value) => Math.round(value).toString(16).padStart(2, "0"))
+    .join("")}`;
+}
+
+// h in degrees, s and l in 0–1
+export function rgbToHsl({ r, g, b }: RGB): {
+  h: number;
+  s: number;
+  l: number;
+} {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  if (max === min) return { h: 0, s: 0, l };
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h =
+    max === rn
+      ? (gn - bn) / d + (gn < bn ? 6 : 0)
+      : max === gn
+        ? (bn - rn) / d + 2
+        : (rn - gn) / d + 4;
+  return { h: h * 60, s, l };
+}
+
+export function hslToRgb({
+  h,
+  s,
+  l,
+}: {
+  h: number;
+  s: number;
+  l: number;
+}): RGB {
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return 255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1)));
+  };
+  return { r: channel(0), g: channel(8), b: channel(4) };
+}
+
+/**
+ * Moves the foreground's lightness away from the background, keeping hue
+ * and saturation, just far enough to reach the required ratio. Returns the
+ * original color if it already passes.
+ */
+export function adjustForContrast(
+  foreground: string,
+  background: string,
+  required: number,
+): string {
+  const fg = parseHexColor(foreground);
+  const bg = parseHexColor(background);
+  if (!fg || !bg || contrastRatio(fg, bg) >= required) return foreground;
+
+  const hsl = rgbToHsl(fg);
+  // Measured on the hex-rounded color so the result can't round below
+  const colorAt = (l: number) => toHexColor(hslToRgb({ ...hsl, l }));
+  const ratioAt = (l: number) =>
+    contrastRatio(parseHexColor(colorAt(l)) as RGB, bg);
+  // Darken on light backgrounds, lighten on dark ones (black and white
+  // contrast equally at luminance ~0.18); fall back to the other direction
+  // when the preferred one can't get there
+  const darkFirst = relativeLuminance(bg) > 0.18;
+  const targets = darkFirst ? [0, 1] : [1, 0];
+  const target = targets.find((l) => ratioAt(l) >= required) ?? targets[0];
+
+  // Binary search for the passing lightness closest to the original
+  let near = hsl.l;
+  let far = target;
+  for (let i = 0; i < 20; i++) {
+    const mid = (near + far) / 2;
+    if (ratioAt(mid) >= required) far = mid;
+    else near = mid;
+  }
+  return colorAt(far);
+}
+
+/**
+ * Adjusts every failing foreground color in the palette for WCAG AA.
+ * The background is left untouched.
+ */
+export function adjustPaletteForAA(palette: ColorPalette): ColorPalette {
+  const adjusted = { ...palette };
+  for (const pair of checkPaletteContrast(palette)) {
+    if (pair.passes) continue;
+    adjusted[pair.foreground] = adjustForContrast(
+      palette[pair.foreground],
+      palette[pair.background],
+      pair.required,
+    );
+  }
+  return adjusted;
+}
@@ -1,4 +1,16 @@
-import { Sandbox } from "e2b";
+import type { ColorPalette } from "@/types/canvas";
+import { type A11yFinding, DOM_AUDIT_SOURCE } from "./a11y-audit";
+import { ELEMENT_ID_ATTRIBUTE } from "./element-ids";
+import { createThemeCss, THEME_CSS_PATH } from "./palette-theme";
+import { createE2BBackend } from "./sandbox/e2b";
+import { createLocalBackend } from "./sandbox/local";
+import {
+  type AppSandbox,
+  type CreateSandboxOptions,
+  SANDBOX_APP_DIR,
+  type SandboxBackend,
+} from "./sandbox/types";
+import type { RenderedLayout } from "./visual-fidelity";
 
 export interface E2BSandboxResult {
   success: boolean;
@@ -9,13 +21,45 @@ export interface E2BSandboxResult {
 }
 
 export interface E2BSandboxSession {
-  sandbox: Sandbox;
+  sandbox: AppSandbox;
   url: string;
   logs: string[];
   isReady: boolean;
   isDevServerRunning: boolean;
 }
 
+/**
+ * Returns the sandbox backend selected by SANDBOX_BACKEND ("e2b" or "local")
+ */
+export function getSandboxBackend(): SandboxBackend {
+  const backendName = process.env.SANDBOX_BACKEND || "e2b";
+
+  switch (backendName) {
+    case "e2b":
+      return createE2BBackend();
+    case "local":
+      return createLocalBackend();
+    default:
+      throw new Error(`Unknown SANDBOX_BACKEND: ${backendName}`);
+  }
+}
+
+/**
+ * Create a new sandbox on the configured backend
+ */
+export function createSandbox(
+  options?: CreateSandboxOptions,
+): Promise<AppSandbox> {
+  return getSandboxBackend().create(options);
+}
+
+/**
+ * Connect to an existing sandbox on the configured backend
+ */
+export function connectSandbox(sandboxId: string): Promise<AppSandbox> {
+  return getSandboxBackend().connect(sandboxId);
+}
+
 // Store active sandbox sessions
 const activeSandboxes = new Map<string, E2BSandboxSession>();
 
@@ -40,18 +84,6 @@ export async function executeComponentInE2B(
   onLog: (log: string) => void,
   _previousErrors?: string[],
 ): Promise<E2BSandboxResult> {
-  const apiKey = process.env.E2B_API_KEY;
-
-  if (!apiKey) {
-    return {
-      success: false,
-      errors: [
-        "E2B_API_KEY not configured. Add E2B_API_KEY to your .env.local file.",
-      ],
-      logs: [],
-    };
-  }
-
   const logs: string[] = [];
   const errors: string[] = [];
 
@@ -60,12 +92,11 @@ export async function executeComponentInE2B(
     onLog(msg);
   };
 
-  let sandbox: Sandbox | null = null;
+  let sandbox: AppSandbox | null = null;
 
   try {
-    log("🚀 Creating e2b sandbox with custom template...");
-    sandbox = await Sandbox.create("nextjs-shadcn", {
-      apiKey,
+    log("🚀 Creating sandbox with custom template...");
+    sandbox = await createSandbox({
       timeoutMs: 300000, // 5 minute sandbox timeout
     });
     log(`✅ Sandbox created (ID: ${sandbox.sandboxId})`);
@@ -78,7 +109,7 @@ export async function executeComponentInE2B(
     // Start dev server (template has everything pre-installed)
     log("🚀 Starting dev server...");
     sandbox.commands
-      .run("npm run dev", {
+      .run(["npm", "run", "dev"], {
         cwd: "/home/user/app",
         timeoutMs: 0,
       })
@@ -88,8 +119,7 @@ export async function executeComponentInE2B(
     await new Promise((resolve) => setTimeout(resolve, 5000));
 
     // Get the public URL
-    const host = sandbox.getHost(3000);
-    const fullUrl = `https://${host}`;
+    const fullUrl = sandbox.getUrl(3000);
     log(`✅ Server running at ${fullUrl}`);
 
     // Store the session
@@ -203,6 +233,310 @@ export async function updateComponentInSandbox(
   }
 }
 
+/**
+ * Writes an edited generated file (relative to the app dir) and checks
+ * that the app still builds, restoring the previous version (and
+ * throwing) if it doesn't
+ */
+export async function writeComponentWithBuildCheck(
+  sandbox: AppSandbox,
+  filePath: string,
+  code: string,
+  previousCode: string,
+  log: (msg: string) => void,
+): Promise<void> {
+  const componentPath = `${SANDBOX_APP_DIR}/${filePath}`;
+
+  log("📝 Writing component...");
+  await sandbox.files.write(componentPath, code);
+
+  log("🔨 Checking build...");
+  let built = false;
+  try {
+    const buildResult = await sandbox.commands.run(["npm", "run", "build"], {
+      cwd: SANDBOX_APP_DIR,
+      timeoutMs: 120000,
+    });
+    built = buildResult.exitCode === 0;
+  } finally {
+    // Also when the build is aborted, so no unverified patch stays behind
+    if (!built) await sandbox.files.write(componentPath, previousCode);
+  }
+
+  if (!built) {
+    throw new Error(
+      "Patched component failed to build, kept the previous version",
+    );
+  }
+  log("✅ Build successful");
+}
+
+export interface CheckTierResult {
+  tier: "tsc" | "swc" | "next build";
+  success: boolean;
+  output: string;
+  durationMs: number;
+}
+
+// Sandbox helper files (checks, layout capture), kept out of the app's tree
+const CHECK_DIR = ".drawui";
+
+// Transpiles files with the SWC binary that ships with next
+const TRANSPILE_SCRIPT = `const { readFileSync } = require("node:fs");
+const { transformSync } = require("next/dist/build/swc");
+
+let failed = false;
+for (const file of process.argv.slice(2)) {
+  try {
+    transformSync(readFileSync(file, "utf8"), {
+      filename: file,
+      jsc: {
+        parser: { syntax: "typescript", tsx: true },
+        transform: { react: { runtime: "automatic" } },
+      },
+    });
+  } catch (error) {
+    failed = true;
+    // Drop the native stack trace that follows the located error
+    const message = String(error.message ?? error).split("Caused by:")[0];
+    console.error(\`\${file}: \${message.trim()}\`);
+  }
+}
+process.exit(failed ? 1 : 0);
+`;
+
+async function runCheckTier(
+  sandbox: AppSandbox,
+  tier: CheckTierResult["tier"],
+  command: string[],
+  timeoutMs: number,
+): Promise<CheckTierResult> {
+  const started = Date.now();
+  const result = await sandbox.commands.run(command, {
+    cwd: SANDBOX_APP_DIR,
+    timeoutMs,
+  });
+  return {
+    tier,
+    success: result.exitCode === 0,
+    output: result.stdout + result.stderr,
+    durationMs: Date.now() - started,
+  };
+}
+
+/**
+ * Cheap verification between agent edits: `tsc --noEmit` on just the
+ * generated files, then an SWC transpile. Stops at the first failing tier.
+ * Paths are relative to the app dir.
+ */
+export async function quickCheck(
+  sandbox: AppSandbox,
+  filePaths: string[],
+): Promise<CheckTierResult[]> {
+  const tsconfig = {
+    extends: "../tsconfig.json",
+    compilerOptions: { incremental: false, noEmit: true },
+    include: ["../next-env.d.ts", ...filePaths.map((file) => `../${file}`)],
+  };
+  await sandbox.files.write(
+    `${SANDBOX_APP_DIR}/${CHECK_DIR}/tsconfig.json`,
+    JSON.stringify(tsconfig, null, 2),
+  );
+  await sandbox.files.write(
+    `${SANDBOX_APP_DIR}/${CHECK_DIR}/transpile.cjs`,
+    TRANSPILE_SCRIPT,
+  );
+
+  const tsc = await runCheckTier(
+    sandbox,
+    "tsc",
+    ["npx", "tsc", "--noEmit", "-p", `${CHECK_DIR}/tsconfig.json`],
+    60000,
+  );
+  if (!tsc.success) return [tsc];
+
+  const swc = await runCheckTier(
+    sandbox,
+    "swc",
+    ["node", `${CHECK_DIR}/transpile.cjs`, ...filePaths],
+    30000,
+  );
+  return [tsc, swc];
+}
+
+/**
+ * Full `next build`, reserved for final confirmation
+ */
+export function buildCheck(sandbox: AppSandbox): Promise<CheckTierResult> {
+  return runCheckTier(sandbox, "next build", ["npm", "run", "build"], 120000);
+}
+
+export function formatTierTiming(result: CheckTierResult): string {
+  const seconds = (result.durationMs / 1000).toFixed(1);
+  return `⏱️ ${result.tier}: ${result.success ? "passed" : "failed"} in ${seconds}s`;
+}
+
+// Renders a route in headless Chromium and prints the tagged boxes as JSON
+const LAYOUT_SCRIPT = `const puppeteer = require("puppeteer");
+
+const route = process.argv[2] || "/";
+const url = \`http://localhost:\${process.env.PORT || 3000}\${route}\`;
+
+(async () => {
+  const browser = await puppeteer.launch({
+    executablePath: process.env.CHROME_PATH || undefined,
+    args: ["--no-sandbox", "--disable-dev-shm-usage"],
+  });
+  try {
+    const page = await browser.newPage();
+    await page.setViewport({ width: 1280, height: 800, deviceScaleFactor: 0.5 });
+    await page.goto(url, { waitUntil: "networkidle0", timeout: 30000 });
+
+    // Scroll through once so whileInView animations reach their final state
+    const height = await page.evaluate(() => document.body.scrollHeight);
+    for (let y = 0; y < height; y += 800) {
+      await page.evaluate((top) => window.scrollTo(0, top), y);
+      await new Promise((resolve) => setTimeout(resolve, 150));
+    }
+    await page.evaluate(() => window.scrollTo(0, 0));
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    const layout = await page.evaluate((attribute) => ({
+      width: document.documentElement.scrollWidth,
+      height: document.documentElement.scrollHeight,
+      boxes: Array.from(document.querySelectorAll(\`[\${attribute}]\`))
+        .map((element) => {
+          const rect = element.getBoundingClientRect();
+          return {
+            id: element.getAttribute(attribute),
+            x: rect.left + window.scrollX,
+            y: rect.top + window.scrollY,
+            width: rect.width,
+            height: rect.height,
+          };
+        })
+        .filter((box) => box.width > 0 && box.height > 0),
+    }), "${ELEMENT_ID_ATTRIBUTE}");
+    const screenshot = await page.screenshot({
+      type: "jpeg",
+      quality: 60,
+      fullPage: true,
+      encoding: "base64",
+    });
+    console.log(
+      JSON.stringify({ ...layout, screenshot: \`data:image/jpeg;base64,\${screenshot}\` }),
+    );
+  } finally {
+    await browser.close();
+  }
+})().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
+`;
+
+/**
+ * Screenshots a route of the running dev server and extracts the layout
+ * boxes of the elements tagged with sketch ids. Throws when the headless
+ * browser is unavailable or the page fails to load.
+ */
+export async function captureLayout(
+  sandbox: AppSandbox,
+  route = "/",
+): Promise<RenderedLayout> {
+  await sandbox.files.write(
+    `${SANDBOX_APP_DIR}/${CHECK_DIR}/layout.cjs`,
+    LAYOUT_SCRIPT,
+  );
+  const result = await sandbox.commands.run(
+    ["node", `${CHECK_DIR}/layout.cjs`, route],
+    { cwd: SANDBOX_APP_DIR, timeoutMs: 90000 },
+  );
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr.trim() || "Layout capture failed");
+  }
+  const output = result.stdout.trim().split("\n").pop() ?? "";
+  return JSON.parse(output) as RenderedLayout;
+}
+
+// Runs an audit function (read from a file) against a route in headless Chromium
+const AUDIT_SCRIPT = `const { readFileSync } = require("node:fs");
+const puppeteer = require("puppeteer");
+
+const [sourceFile, route = "/"] = process.argv.slice(2);
+const url = \`http://localhost:\${process.env.PORT || 3000}\${route}\`;
+
+(async () => {
+  const browser = await puppeteer.launch({
+    executablePath: process.env.CHROME_PATH || undefined,
+    args: ["--no-sandbox", "--disable-dev-shm-usage"],
+  });
+  try {
+    const page = await browser.newPage();
+    await page.setViewport({ width: 1280, height: 800 });
+    await page.goto(url, { waitUntil: "networkidle0", timeout: 30000 });
+
+    // Let entrance animations finish so text is fully opaque
+    const height = await page.evaluate(() => document.body.scrollHeight);
+    for (let y = 0; y < height; y += 800) {
+      await page.evaluate((top) => window.scrollTo(0, top), y);
+      await new Promise((resolve) => setTimeout(resolve, 150));
+    }
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    const source = readFileSync(sourceFile, "utf8");
+    const findings = await page.evaluate(\`(\${source})(document)\`);
+    console.log(JSON.stringify(findings));
+  } finally {
+    await browser.close();
+  }
+})().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
+`;
+
+/**
+ * Runs the DOM accessibility rules against a route of the running dev
+ * server. Throws when the headless browser is unavailable.
+ */
+export async function auditAccessibility(
+  sandbox: AppSandbox,
+  route = "/",
+): Promise<A11yFinding[]> {
+  await sandbox.files.write(
+    `${SANDBOX_APP_DIR}/${CHECK_DIR}/audit.cjs`,
+    AUDIT_SCRIPT,
+  );
+  await sandbox.files.write(
+    `${SANDBOX_APP_DIR}/${CHECK_DIR}/a11y-audit.js`,
+    DOM_AUDIT_SOURCE,
+  );
+  const result = await sandbox.commands.run(
+    ["node", `${CHECK_DIR}/audit.cjs`, `${CHECK_DIR}/a11y-audit.js`, route],
+    { cwd: SANDBOX_APP_DIR, timeoutMs: 90000 },
+  );
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr.trim() || "Accessibility audit failed");
+  }
+  const output = result.stdout.trim().split("\n").pop() ?? "[]";
+  return JSON.parse(output) as A11yFinding[];
+}
+
+/**
+ * Writes the palette's theme variables into the sandbox's globals.css;
+ * the dev server picks the change up without touching the component
+ */
+export async function writeTheme(
+  sandbox: AppSandbox,
+  palette: ColorPalette,
+): Promise<void> {
+  await sandbox.files.write(
+    `${SANDBOX_APP_DIR}/${THEME_CSS_PATH}`,
+    createThemeCss(palette),
+  );
+}
+
 /**
  * Pre-warm a sandbox with Next.js + shadcn ready to go.
  * Uses the pre-built 'nextjs-shadcn' template which has everything installed.
@@ -213,20 +547,13 @@ export async function prewarmSandbox(onLog?: (log: string) => void): Promise<{
   url?: string;
   error?: string;
 }> {
-  const apiKey = process.env.E2B_API_KEY;
-
-  if (!apiKey) {
-    return { success: false, error: "E2B_API_KEY not configured" };
-  }
-
   const log = onLog || console.log;
 
   try {
     log("🚀 Pre-warming sandbox with custom template...");
 
     // Use custom template with Next.js + shadcn pre-installed
-    const sandbox = await Sandbox.create("nextjs-shadcn", {
-      apiKey,
+    const sandbox = await createSandbox({
       timeoutMs: 600000, // 10 minute timeout for pre-warmed sandbox
     });
 
@@ -235,14 +562,13 @@ export async function prewarmSandbox(onLog?: (log: string) => void): Promise<{
     // Start dev server (everything is pre-installed in the template)
     log("🚀 Starting dev server...");
     sandbox.commands
-      .run("npm run dev", { cwd: "/home/user/app", timeoutMs: 0 })
+      .run(["npm", "run", "dev"], { cwd: "/home/user/app", timeoutMs: 0 })
       .catch(() => {});
 
     // Wait for server to start
     await new Promise((resolve) => setTimeout(resolve, 5000));
 
-    const host = sandbox.getHost(3000);
-    const fullUrl = `https://${host}`;
+    const fullUrl = sandbox.getUrl(3000);
     log(`✅ Server running at ${fullUrl}`);
 
     // Store the session
@@ -306,7 +632,7 @@ export async function deployToPrewarmedSandbox(
 
     // Check build
     log("🔨 Checking build...");
-    const buildResult = await sandbox.commands.run("npm run build 2>&1", {
+    const buildResult = await sandbox.commands.run(["npm", "run", "build"], {
       cwd: "/home/user/app",
       timeoutMs: 120000,
     });
@@ -319,14 +645,14 @@ export async function deployToPrewarmedSandbox(
       if (neededComponents.length > 0) {
         log(`📦 Installing shadcn: ${neededComponents.join(", ")}...`);
         for (const comp of neededComponents) {
-          await sandbox.commands.run(`npx shadcn@latest add ${comp} --yes`, {
-            cwd: "/home/user/app",
-            timeoutMs: 60000,
-          });
+          await sandbox.commands.run(
+            ["npx", "shadcn@latest", "add", comp, "--yes"],
+            { cwd: "/home/user/app", timeoutMs: 60000 },
+          );
         }
 
         // Retry build
-        const retryBuild = await sandbox.commands.run("npm run build 2>&1", {
+        const retryBuild = await sandbox.commands.run(["npm", "run", "build"], {
           cwd: "/home/user/app",
           timeoutMs: 120000,
         });
@@ -0,0 +1,84 @@
+/**
+ * Links generated JSX back to the Excalidraw elements it came from via a
+ * `data-drawui-id` attribute, so the preview and the canvas can point at
+ * each other. The attribute is removed again before code leaves the app.
+ */
+
+export const ELEMENT_ID_ATTRIBUTE = "data-drawui-id";
+
+// postMessage type the sandbox bridge sends when an element is clicked
+export const ELEMENT_SELECT_MESSAGE = "drawui:select";
+
+const ATTRIBUTE_PATTERN = new RegExp(
+  `\\s+${ELEMENT_ID_ATTRIBUTE}=(?:"[^"]*"|'[^']*'|\\{\\s*"[^"]*"\\s*\\})`,
+  "g",
+);
+
+export function elementIdAttribute(elementId: string): string {
+  return `${ELEMENT_ID_ATTRIBUTE}="${elementId}"`;
+}
+
+/**
+ * Removes every element id attribute, for export and copy
+ */
+export function stripElementIds(code: string): string {
+  return code.replace(ATTRIBUTE_PATTERN, "");
+}
+
+/**
+ * 0-based line of the JSX tagged with the element id, or -1
+ */
+export function findElementLine(code: string, elementId: string): number {
+  const needles = [`"${elementId}"`, `'${elementId}'`].map(
+    (value) => `${ELEMENT_ID_ATTRIBUTE}=${value}`,
+  );
+  return code
+    .split("\n")
+    .findIndex((line) => needles.some((needle) => line.includes(needle)));
+}
+
+/**
+ * Client component written into the sandbox app. Clicking anything inside
+ * a tagged element reports the nearest id to the parent window.
+ */
+export const ELEMENT_BRIDGE_SOURCE = `"use client";
+
+import { useEffect } from "react";
+
+export default function DrawUIBridge() {
+  useEffect(() => {
+    if (window.parent === window) return;
+
+    const handleClick = (event: MouseEvent) => {
+      const target = event.target instanceof Element ? event.target : null;
+      const tagged = target?.closest("[${ELEMENT_ID_ATTRIBUTE}]");
+      const elementId = tagged?.getAttribute("${ELEMENT_ID_ATTRIBUTE}");
+      if (elementId) {
+        window.parent.postMessage(
+          { type: "${ELEMENT_SELECT_MESSAGE}", elementId },
+          "*",
+        );
+      }
+    };
+
+    document.addEventListener("click", handleClick, true);
+    return () => document.removeEventListener("click", handleClick, true);
+  }, []);
+
+  return null;
+}
+`;
+
+// Next.js template that mounts the bridge on every route
+export const ELEMENT_BRIDGE_TEMPLATE = `import type { ReactNode } from "react";
+import DrawUIBridge from "./drawui-bridge";
+
+export default function Template({ children }: { children: ReactNode }) {
+  return (
+    <>
+      <DrawUIBridge />
+      {children}
+    </>
+  );
+}
+`;
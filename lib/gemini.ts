@@ -1,15 +1,37 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { SceneGraph, SketchDiff, SketchSelection } from "@/types/canvas";
+import { elementIdAttribute } from "./element-ids";
+import { createFixtureProvider } from "./providers/fixture";
+import { createGeminiProvider } from "./providers/gemini";
+import type { ImagePart, ModelProvider } from "./providers/types";
+import { describeSceneGraph } from "./scene-graph";
+import { describeSketchDiff } from "./sketch-diff";
 
-const apiKey = process.env.GOOGLE_GEMINI_API_KEY || "";
+/**
+ * Returns the model provider selected by MODEL_PROVIDER ("gemini" or "fixture").
+ * Every generation route goes through this single client.
+ */
+export function getModelProvider(): ModelProvider {
+  const providerName = process.env.MODEL_PROVIDER || "gemini";
 
-export function getGeminiClient() {
-  if (!apiKey) {
-    throw new Error(
-      "GOOGLE_GEMINI_API_KEY is not set in environment variables",
-    );
+  switch (providerName) {
+    case "gemini":
+      return createGeminiProvider();
+    case "fixture":
+      return createFixtureProvider();
+    default:
+      throw new Error(`Unknown MODEL_PROVIDER: ${providerName}`);
   }
+}
 
-  return new GoogleGenerativeAI(apiKey);
+/**
+ * Converts a base64 data URL into a provider image part
+ */
+export function imageFromDataUrl(dataUrl: string): ImagePart {
+  const mimeType = dataUrl.startsWith("data:image/jpeg")
+    ? "image/jpeg"
+    : "image/png";
+
+  return { data: dataUrl.split(",")[1], mimeType };
 }
 
 export function createWebsitePrompt(
@@ -22,27 +44,41 @@ export function createWebsitePrompt(
     background: string;
     text: string;
   },
+  sceneGraph?: SceneGraph,
 ): string {
   const styleInstructions = styleGuide ? `\n🎨 STYLE GUIDE: ${styleGuide}` : "";
 
   const colorInstructions = colorPalette
     ? `
-🎨 COLOR PALETTE (Use these exact colors):
-- Primary: ${colorPalette.primary}
-- Secondary: ${colorPalette.secondary}
-- Accent: ${colorPalette.accent}
-- Background: ${colorPalette.background}
-- Text: ${colorPalette.text}
-
-Map these colors to Tailwind classes appropriately (e.g., use arbitrary values like bg-[${colorPalette.primary}])`
+🎨 COLOR PALETTE (already compiled into the app's shadcn theme):
+- Primary ${colorPalette.primary} → bg-primary, text-primary, text-primary-foreground
+- Secondary ${colorPalette.secondary} → bg-secondary, text-secondary-foreground
+- Accent ${colorPalette.accent} → bg-accent, text-accent-foreground
+- Background ${colorPalette.background} → bg-background, bg-card, bg-muted
+- Text ${colorPalette.text} → text-foreground, text-muted-foreground
+
+Use ONLY these semantic classes for palette colors (opacity modifiers like bg-primary/10 are fine; borders use border-border). NEVER hard-code the palette as hex or arbitrary values like bg-[#...] — the user can change the palette later and the preview must follow.`
     : "";
 
   const customInstructions = customPrompt
     ? `\n\n📝 CUSTOM INSTRUCTIONS:\n${customPrompt}`
     : "";
 
+  const layoutInstructions =
+    sceneGraph && sceneGraph.nodes.length > 0
+      ? `\n\n📐 EXACT LAYOUT (parsed from the sketch's vector data — trust it over the image):
+${describeSceneGraph(sceneGraph)}
+
+- Nesting in this outline is containment: indented elements sit INSIDE their parent
+- Use every quoted string EXACTLY as written — these are typed, not handwriting
+- [row] / [column] / [grid] tell you how siblings are aligned; keep their order
+- Keep the relative sizes (percentages of parent) when choosing widths and heights
+- Arrows between elements describe navigation or flow between them
+- Put ${elementIdAttribute("<id>")} on the outermost JSX element you render for each #id above (without the #), so the preview can be linked back to the sketch`
+      : "";
+
   return `You convert hand-drawn sketches into real, polished React UI components.
-${styleInstructions}${colorInstructions}${customInstructions}
+${styleInstructions}${colorInstructions}${customInstructions}${layoutInstructions}
 
 🎯 YOUR MISSION:
 Turn this sketch into a REAL, USABLE webpage component. Follow the sketch's layout and structure closely, but make it look like a finished product — not a wireframe.
@@ -152,6 +188,180 @@ Turn this sketch into a REAL, USABLE webpage component. Follow the sketch's layo
 Now look at the sketch and convert it into a polished UI. Same structure, real content, production quality.`;
 }
 
+const PATCH_FORMAT_INSTRUCTIONS = `🔥 OUTPUT FORMAT — return ONLY patches, no explanations:
+<<<<<<< SEARCH
+(lines copied EXACTLY from the current code)
+=======
+(the replacement lines)
+>>>>>>> REPLACE`;
+
+/**
+ * Prompt for regenerating only the part of the component that a canvas
+ * selection covers. The model answers with SEARCH/REPLACE patches.
+ */
+export function createRegionPrompt(
+  code: string,
+  selection: SketchSelection,
+  customPrompt?: string,
+): string {
+  const { x, y, width, height } = selection.bounds;
+  const { width: sketchWidth, height: sketchHeight } = selection.graph;
+  const percent = (value: number, total: number) =>
+    Math.round((value / Math.max(1, total)) * 100);
+
+  const customInstructions = customPrompt
+    ? `\n\n📝 CUSTOM INSTRUCTIONS:\n${customPrompt}`
+    : "";
+
+  return `You update ONE region of an existing React component so it matches the user's revised sketch.${customInstructions}
+
+📍 SELECTED REGION:
+The user selected the area at (${x}, ${y}) size ${width}×${height} px of a ${sketchWidth}×${sketchHeight} px sketch (left ${percent(x, sketchWidth)}%, top ${percent(y, sketchHeight)}%, ${percent(width, sketchWidth)}% wide, ${percent(height, sketchHeight)}% tall).
+
+📐 ELEMENTS IN THE REGION:
+${describeSceneGraph(selection.graph)}
+
+📄 CURRENT CODE (app/component.tsx):
+\`\`\`tsx
+${code}
+\`\`\`
+
+🎯 YOUR TASK:
+1. Find the JSX subtree in the current code that renders this region of the sketch (elements tagged ${elementIdAttribute("<id>")} with the ids above)
+2. Rewrite ONLY that subtree so it matches the selected elements in the attached sketch
+3. Leave everything outside the region exactly as it is — same styles, same content
+4. If the new JSX needs extra imports, add a second patch for the import lines
+5. Keep ${elementIdAttribute("<id>")} on the outermost JSX of each selected element
+
+${PATCH_FORMAT_INSTRUCTIONS}`;
+}
+
+/**
+ * Prompt for updating existing code from an element-level sketch diff.
+ * The current code may contain manual edits, which must survive.
+ */
+export function createDiffUpdatePrompt(
+  code: string,
+  diff: SketchDiff,
+  sceneGraph?: SceneGraph,
+  customPrompt?: string,
+): string {
+  const customInstructions = customPrompt
+    ? `\n\n📝 CUSTOM INSTRUCTIONS:\n${customPrompt}`
+    : "";
+  const layout =
+    sceneGraph && sceneGraph.nodes.length > 0
+      ? `\n\n📐 UPDATED LAYOUT (whole sketch after the changes):\n${describeSceneGraph(sceneGraph)}`
+      : "";
+
+  return `You incrementally update an existing React component after the user edited their sketch.${customInstructions}
+
+✏️ SKETCH CHANGES since the code was generated (canvas coordinates):
+${describeSketchDiff(diff)}${layout}
+
+📄 CURRENT CODE (app/component.tsx) — it may include manual edits by the user:
+\`\`\`tsx
+${code}
+\`\`\`
+
+🎯 YOUR TASK:
+1. Apply ONLY the listed sketch changes: add UI for added elements, remove UI for removed ones, reorder/resize for moved ones, update text for relabelled ones
+2. Keep every other line exactly as it is, including the user's manual edits
+3. If the new JSX needs extra imports, add a patch for the import lines
+4. Elements are tagged ${elementIdAttribute("<id>")} — use them to find the JSX for each #id, keep them, and tag new elements the same way
+
+${PATCH_FORMAT_INSTRUCTIONS}`;
+}
+
+/**
+ * Prompt for applying a free-form edit instruction to existing code
+ */
+export function createEditPrompt(
+  code: string,
+  instruction: string,
+  hasSketch = false,
+): string {
+  const sketch = hasSketch
+    ? "\n\nThe attached sketch shows what the user wants."
+    : "";
+
+  return `You edit an existing React component (Next.js, shadcn/ui, lucide-react icons) the way the user asks.
+
+✏️ USER REQUEST:
+${instruction}${sketch}
+
+📄 CURRENT CODE (app/component.tsx):
+\`\`\`tsx
+${code}
+\`\`\`
+
+🎯 YOUR TASK:
+1. Make the requested change and keep every other line exactly as it is
+2. Import shadcn components from @/components/ui/* and icons from lucide-react
+3. Keep the default export and the ${elementIdAttribute("<id>")} attributes
+4. If the new JSX needs extra imports, add a patch for the import lines
+
+${PATCH_FORMAT_INSTRUCTIONS}`;
+}
+
+/**
+ * Prompt for nudging a built component closer to the sketch's layout,
+ * from the discrepancies measured in the rendered preview
+ */
+export function createFidelityRefinePrompt(
+  code: string,
+  gaps: string,
+  sceneGraph: SceneGraph,
+): string {
+  return `You fine-tune the layout of an existing React component so the rendered page matches the user's sketch more closely.
+
+📏 MEASURED DISCREPANCIES (rendered preview vs. sketch; percentages are relative to the area spanned by the sketched elements):
+${gaps}
+
+📐 SKETCH LAYOUT:
+${describeSceneGraph(sceneGraph)}
+
+📄 CURRENT CODE (app/component.tsx) — it builds and renders:
+\`\`\`tsx
+${code}
+\`\`\`
+
+🎯 YOUR TASK:
+1. Fix ONLY the listed discrepancies: adjust widths, heights, grid/flex structure, spacing and order
+2. Elements are tagged ${elementIdAttribute("<id>")} — use them to find the JSX for each #id. Missing elements may exist untagged; tag them instead of duplicating them
+3. Don't change content, colors, icons or animations
+4. If the new JSX needs extra imports, add a patch for the import lines
+
+${PATCH_FORMAT_INSTRUCTIONS}`;
+}
+
+/**
+ * Prompt for fixing the findings of an accessibility audit in place
+ */
+export function createAccessibilityFixPrompt(
+  code: string,
+  findings: string,
+): string {
+  return `You fix accessibility problems in an existing React component without changing how it looks.
+
+♿ AUDIT FINDINGS (from the rendered page and the code):
+${findings}
+
+📄 CURRENT CODE (app/component.tsx):
+\`\`\`tsx
+${code}
+\`\`\`
+
+🎯 YOUR TASK:
+1. Fix every finding you can: alt text for images, labels or aria-label for inputs, accessible names for icon-only buttons and links, heading levels without skips, a DialogTitle/SheetTitle in every dialog, Dialog or Sheet instead of hand-rolled overlays
+2. For contrast findings, switch to a darker or lighter shade of the same color
+3. Keep the layout, content, styling and ${elementIdAttribute("<id>")} attributes otherwise unchanged
+4. If the new JSX needs extra imports, add a patch for the import lines
+5. Palette findings can't be fixed in code alone — compensate only where text would be unreadable
+
+${PATCH_FORMAT_INSTRUCTIONS}`;
+}
+
 export async function generateWebsite(
   base64Image: string,
   styleGuide?: string,
@@ -163,39 +373,32 @@ export async function generateWebsite(
     background: string;
     text: string;
   },
+  sceneGraph?: SceneGraph,
 ): Promise<string> {
-  const genAI = getGeminiClient();
-  const model = genAI.getGenerativeModel({
-    model: "gemini-3-flash-preview",
-    generationConfig: {
+  const provider = getModelProvider();
+
+  const prompt = createWebsitePrompt(
+    styleGuide,
+    customPrompt,
+    colorPalette,
+    sceneGraph,
+  );
+
+  const text = await provider.generate(
+    [prompt, imageFromDataUrl(base64Image)],
+    {
       temperature: 1.0, // Maximum creativity for stunning designs
       topP: 0.95,
       topK: 64,
     },
-  });
-
-  const prompt = createWebsitePrompt(styleGuide, customPrompt, colorPalette);
-
-  const mimeType = base64Image.startsWith("data:image/jpeg")
-    ? "image/jpeg"
-    : "image/png";
-
-  const imagePart = {
-    inlineData: {
-      data: base64Image.split(",")[1],
-      mimeType,
-    },
-  };
-
-  const result = await model.generateContent([prompt, imagePart]);
-  const text = result.response.text();
+  );
 
   // Extract code from markdown code block
   const codeMatch = text.match(/```(?:tsx|typescript|jsx)?\s*([\s\S]*?)```/);
 
   if (!codeMatch) {
     console.error("No code block found in response:", text);
-    throw new Error("Failed to extract code from Gemini response");
+    throw new Error("Failed to extract code from model response");
   }
 
   let code = codeMatch[1].trim();
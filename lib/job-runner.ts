@@ -0,0 +1,185 @@
+/**
+ * Runs generation jobs independently of the request that started them and
+ * streams their event logs, so a client can reattach after a reload
+ */
+
+import os from "node:os";
+import path from "node:path";
+import {
+  formatStreamEvent,
+  isStreamEvent,
+  type SendEvent,
+  SSE_HEADERS,
+  TERMINAL_EVENTS,
+} from "@/lib/stream-events";
+import type { StreamEvent } from "@/types/events";
+import { createFileJobStore } from "./jobs/file";
+import { createMemoryJobStore } from "./jobs/memory";
+import type { Job, JobEvent, JobStore } from "./jobs/types";
+
+let store: JobStore | null = null;
+
+// Jobs running in this process, and the streams following them
+const activeJobs = new Map<string, AbortController>();
+const listeners = new Map<string, Set<(event: JobEvent) => void>>();
+
+/**
+ * Returns the job store selected by JOB_STORE ("memory" or "file")
+ */
+export function getJobStore(): JobStore {
+  if (store) return store;
+
+  const storeName = process.env.JOB_STORE || "memory";
+  switch (storeName) {
+    case "memory":
+      store = createMemoryJobStore();
+      break;
+    case "file":
+      store = createFileJobStore(
+        process.env.JOB_STORE_DIR || path.join(os.tmpdir(), "drawui-jobs"),
+      );
+      break;
+    default:
+      throw new Error(`Unknown JOB_STORE: ${storeName}`);
+  }
+  return store;
+}
+
+function subscribe(jobId: string, listener: (event: JobEvent) => void) {
+  const set = listeners.get(jobId) ?? new Set();
+  set.add(listener);
+  listeners.set(jobId, set);
+  return () => {
+    set.delete(listener);
+    if (set.size === 0) listeners.delete(jobId);
+  };
+}
+
+/**
+ * Registers a job and starts `run` in the background. Every event it
+ * sends is validated, appended to the job's log and pushed to the streams
+ * following the job. The first event is always `job` with the id. The
+ * signal is aborted when the job is cancelled.
+ */
+export async function startJob(
+  kind: string,
+  run: (emit: SendEvent, signal: AbortSignal) => Promise<void>,
+): Promise<Job> {
+  const jobs = getJobStore();
+  const job = await jobs.create(kind);
+  const controller = new AbortController();
+  activeJobs.set(job.id, controller);
+
+  // Appends are chained so the log keeps the order events were sent in
+  let pending = Promise.resolve();
+  const emit: SendEvent = (event, data) => {
+    if (!isStreamEvent(event, data)) {
+      throw new Error(`Invalid "${event}" event: ${JSON.stringify(data)}`);
+    }
+    const entry = { event, data } as StreamEvent;
+    pending = pending
+      .then(async () => {
+        const stored = await jobs.append(job.id, entry);
+        for (const listener of listeners.get(job.id) ?? []) listener(stored);
+      })
+      .catch((error) => {
+        console.error(`Failed to record event of job ${job.id}:`, error);
+      });
+  };
+
+  emit("job", { jobId: job.id });
+  run(emit, controller.signal)
+    .catch((error) => {
+      const errMsg = error instanceof Error ? error.message : "Unknown error";
+      emit("error", { message: errMsg });
+    })
+    .then(() => pending)
+    .finally(() => activeJobs.delete(job.id));
+
+  return job;
+}
+
+/**
+ * Aborts a job running in this process. Returns false if there is none.
+ */
+export function cancelJob(jobId: string): boolean {
+  const controller = activeJobs.get(jobId);
+  if (!controller) return false;
+  controller.abort(new Error("Generation cancelled"));
+  return true;
+}
+
+/**
+ * Streams the job's events after sequence number `since`, then follows
+ * the job live until it settles
+ */
+export async function streamJobEvents(
+  jobId: string,
+  since = 0,
+): Promise<Response> {
+  const jobs = getJobStore();
+  if (!(await jobs.get(jobId).catch(() => null))) {
+    return new Response(JSON.stringify({ error: "Job not found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let last = since;
+      let closed = false;
+
+      const close = () => {
+        closed = true;
+        unsubscribe();
+        controller.close();
+      };
+
+      const write = (entry: JobEvent) => {
+        if (closed || entry.seq <= last) return;
+        last = entry.seq;
+        controller.enqueue(
+          encoder.encode(
+            formatStreamEvent(entry.event, entry.data, String(entry.seq)),
+          ),
+        );
+        if (TERMINAL_EVENTS.includes(entry.event)) close();
+      };
+
+      // Subscribe before replaying so no event falls between the two
+      let buffered: JobEvent[] | null = [];
+      unsubscribe = subscribe(jobId, (entry) => {
+        if (buffered) buffered.push(entry);
+        else write(entry);
+      });
+
+      for (const entry of await jobs.events(jobId, since)) write(entry);
+      for (const entry of buffered) write(entry);
+      buffered = null;
+      if (closed) return;
+
+      const job = await jobs.get(jobId);
+      if (job?.status !== "running") {
+        close();
+      } else if (!activeJobs.has(jobId)) {
+        // Left running by a process that no longer exists
+        write(
+          await jobs.append(jobId, {
+            event: "error",
+            data: { message: "Generation was interrupted, please retry" },
+          }),
+        );
+      }
+    },
+    cancel() {
+      // The job keeps running; only this stream stops following it
+      unsubscribe();
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
@@ -0,0 +1,111 @@
+import { randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { StreamEvent } from "@/types/events";
+import {
+  isTerminalEvent,
+  type Job,
+  type JobEvent,
+  type JobStore,
+} from "./types";
+
+/**
+ * Job store that writes each job to disk: `<id>.json` for its state and
+ * `<id>.jsonl` for its events, one per line. Jobs survive a restart of
+ * the dev server, so a reloaded tab can still replay a finished run.
+ */
+
+// Ids come from URLs, so only accept the UUIDs this store hands out
+const JOB_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+export function createFileJobStore(dir: string): JobStore {
+  // Appends of one job are serialized so sequence numbers stay in order
+  const queues = new Map<string, Promise<unknown>>();
+  const counts = new Map<string, number>();
+
+  const jobPath = (id: string, ext: "json" | "jsonl") => {
+    if (!JOB_ID_PATTERN.test(id)) throw new Error(`Invalid job id: ${id}`);
+    return path.join(dir, `${id}.${ext}`);
+  };
+
+  const readJob = async (id: string): Promise<Job | null> => {
+    try {
+      return JSON.parse(await fs.readFile(jobPath(id, "json"), "utf-8"));
+    } catch {
+      return null;
+    }
+  };
+
+  const readEvents = async (id: string): Promise<JobEvent[]> => {
+    let text: string;
+    try {
+      text = await fs.readFile(jobPath(id, "jsonl"), "utf-8");
+    } catch {
+      return [];
+    }
+    return text
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as JobEvent);
+  };
+
+  const writeJob = (job: Job) =>
+    fs.writeFile(jobPath(job.id, "json"), JSON.stringify(job));
+
+  const enqueue = <T>(id: string, task: () => Promise<T>): Promise<T> => {
+    const next = (queues.get(id) ?? Promise.resolve()).then(task, task);
+    queues.set(id, next);
+    return next;
+  };
+
+  return {
+    name: "file",
+
+    async create(kind) {
+      await fs.mkdir(dir, { recursive: true });
+      const now = Date.now();
+      const job: Job = {
+        id: randomUUID(),
+        kind,
+        status: "running",
+        createdAt: now,
+        updatedAt: now,
+      };
+      await writeJob(job);
+      await fs.writeFile(jobPath(job.id, "jsonl"), "");
+      counts.set(job.id, 0);
+      return job;
+    },
+
+    get: readJob,
+
+    append(id, event: StreamEvent) {
+      return enqueue(id, async () => {
+        const job = await readJob(id);
+        if (!job) throw new Error(`Job not found: ${id}`);
+
+        const seq = (counts.get(id) ?? (await readEvents(id)).length) + 1;
+        const stored = { ...event, seq } as JobEvent;
+        await fs.appendFile(
+          jobPath(id, "jsonl"),
+          `${JSON.stringify(stored)}\n`,
+        );
+        counts.set(id, seq);
+
+        job.updatedAt = Date.now();
+        if (isTerminalEvent(event)) {
+          job.status = event.event;
+          counts.delete(id);
+          queues.delete(id);
+        }
+        await writeJob(job);
+        return stored;
+      });
+    },
+
+    async events(id, since) {
+      if (!(await readJob(id))) throw new Error(`Job not found: ${id}`);
+      return (await readEvents(id)).filter((event) => event.seq > since);
+    },
+  };
+}
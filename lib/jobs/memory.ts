@@ -0,0 +1,79 @@
+import { randomUUID } from "node:crypto";
+import type { StreamEvent } from "@/types/events";
+import {
+  isTerminalEvent,
+  type Job,
+  type JobEvent,
+  type JobStore,
+} from "./types";
+
+/**
+ * Job store that keeps everything in process memory. Finished jobs are
+ * dropped an hour after their last event.
+ */
+
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+interface MemoryJob {
+  job: Job;
+  events: JobEvent[];
+}
+
+function requireJob(jobs: Map<string, MemoryJob>, id: string): MemoryJob {
+  const entry = jobs.get(id);
+  if (!entry) throw new Error(`Job not found: ${id}`);
+  return entry;
+}
+
+export function createMemoryJobStore(): JobStore {
+  const jobs = new Map<string, MemoryJob>();
+
+  const prune = (now: number) => {
+    for (const [id, { job }] of jobs) {
+      if (
+        job.status !== "running" &&
+        now - job.updatedAt > FINISHED_JOB_TTL_MS
+      ) {
+        jobs.delete(id);
+      }
+    }
+  };
+
+  return {
+    name: "memory",
+
+    async create(kind) {
+      const now = Date.now();
+      prune(now);
+      const job: Job = {
+        id: randomUUID(),
+        kind,
+        status: "running",
+        createdAt: now,
+        updatedAt: now,
+      };
+      jobs.set(job.id, { job, events: [] });
+      return { ...job };
+    },
+
+    async get(id) {
+      const entry = jobs.get(id);
+      return entry ? { ...entry.job } : null;
+    },
+
+    async append(id, event: StreamEvent) {
+      const entry = requireJob(jobs, id);
+      const stored = { ...event, seq: entry.events.length + 1 } as JobEvent;
+      entry.events.push(stored);
+      entry.job.updatedAt = Date.now();
+      if (isTerminalEvent(event)) {
+        entry.job.status = event.event;
+      }
+      return stored;
+    },
+
+    async events(id, since) {
+      return requireJob(jobs, id).events.filter((event) => event.seq > since);
+    },
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Storage interface for generation jobs and their event logs
+ */
+
+import { TERMINAL_EVENTS } from "@/lib/stream-events";
+import type { StreamEvent } from "@/types/events";
+
+export type JobStatus = "running" | "complete" | "error" | "cancelled";
+
+export interface Job {
+  id: string;
+  kind: string; // pipeline the job runs, e.g. "sketch"
+  status: JobStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Sequence numbers start at 1 and double as SSE event ids
+export type JobEvent = StreamEvent & { seq: number };
+
+export interface JobStore {
+  readonly name: string;
+  create(kind: string): Promise<Job>;
+  get(id: string): Promise<Job | null>;
+  // Appends the event and settles the job on a terminal event
+  append(id: string, event: StreamEvent): Promise<JobEvent>;
+  // Events with a sequence number greater than `since`
+  events(id: string, since: number): Promise<JobEvent[]>;
+}
+
+export function isTerminalEvent(
+  event: StreamEvent,
+): event is StreamEvent & { event: Exclude<JobStatus, "running"> } {
+  return TERMINAL_EVENTS.includes(event.event);
+}
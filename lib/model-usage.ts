@@ -0,0 +1,127 @@
+/**
+ * Token usage and cost accounting for model calls
+ */
+
+import type { ModelProvider, TokenUsage } from "@/lib/providers/types";
+import type { GenerationUsage } from "@/types/events";
+
+interface ModelPrice {
+  input: number; // USD per million prompt tokens
+  output: number; // USD per million response tokens
+}
+
+// List prices; MODEL_PRICE_INPUT / MODEL_PRICE_OUTPUT override them
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gemini-3-flash-preview": { input: 0.5, output: 3 },
+  "gemini-3-pro-preview": { input: 2, output: 12 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  fixture: { input: 0, output: 0 },
+};
+
+export const EMPTY_USAGE: GenerationUsage = {
+  calls: 0,
+  promptTokens: 0,
+  responseTokens: 0,
+};
+
+function getModelPrice(model: string): ModelPrice | undefined {
+  const input = Number(process.env.MODEL_PRICE_INPUT);
+  const output = Number(process.env.MODEL_PRICE_OUTPUT);
+  if (
+    process.env.MODEL_PRICE_INPUT &&
+    process.env.MODEL_PRICE_OUTPUT &&
+    Number.isFinite(input) &&
+    Number.isFinite(output)
+  ) {
+    return { input, output };
+  }
+  return MODEL_PRICES[model];
+}
+
+export function estimateCost(
+  model: string,
+  usage: TokenUsage,
+): number | undefined {
+  const price = getModelPrice(model);
+  if (!price) return undefined;
+  return (
+    (usage.promptTokens * price.input + usage.responseTokens * price.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Sums usages. The cost stays unset only if none of them had one.
+ */
+export function addUsage(
+  a: GenerationUsage,
+  b: GenerationUsage,
+): GenerationUsage {
+  const costUsd =
+    a.costUsd === undefined && b.costUsd === undefined
+      ? undefined
+      : (a.costUsd ?? 0) + (b.costUsd ?? 0);
+  return {
+    calls: a.calls + b.calls,
+    promptTokens: a.promptTokens + b.promptTokens,
+    responseTokens: a.responseTokens + b.responseTokens,
+    ...(costUsd === undefined ? {} : { costUsd }),
+  };
+}
+
+/**
+ * Accumulates the usage of every call made through one model
+ */
+export function createUsageMeter(model: string) {
+  let total = EMPTY_USAGE;
+
+  return {
+    record(usage: TokenUsage) {
+      const costUsd = estimateCost(model, usage);
+      total = addUsage(total, {
+        calls: 1,
+        ...usage,
+        ...(costUsd === undefined ? {} : { costUsd }),
+      });
+    },
+    get total(): GenerationUsage {
+      return total;
+    },
+  };
+}
+
+export type UsageMeter = ReturnType<typeof createUsageMeter>;
+
+/**
+ * Records the usage of every call made through the provider, including
+ * each message of its chat sessions
+ */
+export function meteredProvider(
+  provider: ModelProvider,
+  meter: UsageMeter,
+): ModelProvider {
+  const onUsage = (usage: TokenUsage) => meter.record(usage);
+  return {
+    name: provider.name,
+    model: provider.model,
+    generate: (parts, options) =>
+      provider.generate(parts, { ...options, onUsage }),
+    generateStream: (parts, options) =>
+      provider.generateStream(parts, { ...options, onUsage }),
+    startChat: (options) => provider.startChat({ ...options, onUsage }),
+  };
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+export function formatCost(costUsd: number | undefined): string {
+  if (costUsd === undefined) return "unknown";
+  return costUsd > 0 && costUsd < 0.01 ? "<$0.01" : `$${costUsd.toFixed(2)}`;
+}
+
+export function formatUsage(usage: GenerationUsage): string {
+  return `💰 ${usage.calls} model call${usage.calls === 1 ? "" : "s"}: ${formatTokens(usage.promptTokens)} prompt + ${formatTokens(usage.responseTokens)} response tokens, cost ${formatCost(usage.costUsd)}`;
+}
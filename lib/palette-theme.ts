@@ -0,0 +1,176 @@
+/**
+ * Compiles a color palette into the shadcn/ui theme variables the sandbox's
+ * Tailwind config reads, so components can use semantic classes
+ * (bg-primary, text-muted-foreground) and a palette change restyles the
+ * preview without regenerating it
+ */
+
+import type { ColorPalette } from "@/types/canvas";
+import {
+  AA_NON_TEXT,
+  AA_NORMAL_TEXT,
+  adjustForContrast,
+  contrastRatio,
+  parseHexColor,
+  type RGB,
+  rgbToHsl,
+  toHexColor,
+} from "./color-contrast";
+
+export type ThemeVariables = Record<string, string>;
+
+// Path of the stylesheet inside the sandbox app
+export const THEME_CSS_PATH = "app/globals.css";
+
+// Not part of the palette; shadcn's defaults
+const DESTRUCTIVE = { light: "#ef4444", dark: "#7f1d1d" };
+const RADIUS = "0.5rem";
+
+const FALLBACK: RGB = { r: 0, g: 0, b: 0 };
+
+function rgb(hex: string): RGB {
+  return parseHexColor(hex) ?? FALLBACK;
+}
+
+/**
+ * Formats a color as the space-separated HSL triplet shadcn expects,
+ * e.g. "199 89% 48%"
+ */
+export function toHslVariable(hex: string): string {
+  const { h, s, l } = rgbToHsl(rgb(hex));
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return `${round(h)} ${round(s * 100)}% ${round(l * 100)}%`;
+}
+
+function mix(from: string, to: string, amount: number): string {
+  const a = rgb(from);
+  const b = rgb(to);
+  return toHexColor({
+    r: a.r + (b.r - a.r) * amount,
+    g: a.g + (b.g - a.g) * amount,
+    b: a.b + (b.b - a.b) * amount,
+  });
+}
+
+// Whichever of the two colors reads better on the fill
+function readableOn(fill: string, light: string, dark: string): string {
+  return contrastRatio(rgb(light), rgb(fill)) >=
+    contrastRatio(rgb(dark), rgb(fill))
+    ? light
+    : dark;
+}
+
+function themeFor(
+  palette: ColorPalette,
+  background: string,
+  foreground: string,
+  destructive: string,
+  swapped: boolean,
+): ThemeVariables {
+  // The palette's brand colors are used as chosen; only the dark theme,
+  // which swaps the background, shifts them to stay visible on it. Text on
+  // them uses whichever theme color reads better
+  const brand = (color: string) =>
+    swapped ? adjustForContrast(color, background, AA_NON_TEXT) : color;
+  const primary = brand(palette.primary);
+  const secondary = brand(palette.secondary);
+  const accent = brand(palette.accent);
+  const on = (fill: string) => readableOn(fill, background, foreground);
+
+  const muted = mix(background, foreground, 0.06);
+  const mutedForeground = adjustForContrast(
+    mix(foreground, background, 0.35),
+    muted,
+    AA_NORMAL_TEXT,
+  );
+  const border = mix(background, foreground, 0.15);
+
+  const colors: Record<string, string> = {
+    background,
+    foreground,
+    card: background,
+    "card-foreground": foreground,
+    popover: background,
+    "popover-foreground": foreground,
+    primary,
+    "primary-foreground": on(primary),
+    secondary,
+    "secondary-foreground": on(secondary),
+    muted,
+    "muted-foreground": mutedForeground,
+    accent,
+    "accent-foreground": on(accent),
+    destructive,
+    "destructive-foreground": readableOn(destructive, "#ffffff", "#000000"),
+    border,
+    input: border,
+    ring: primary,
+  };
+
+  return Object.fromEntries(
+    Object.entries(colors).map(([name, hex]) => [name, toHslVariable(hex)]),
+  );
+}
+
+/**
+ * Light theme from the palette as chosen, dark theme with background and
+ * text swapped and the brand colors re-checked against the new background
+ */
+export function createThemeVariables(palette: ColorPalette): {
+  light: ThemeVariables;
+  dark: ThemeVariables;
+} {
+  return {
+    light: themeFor(
+      palette,
+      palette.background,
+      palette.text,
+      DESTRUCTIVE.light,
+      false,
+    ),
+    dark: themeFor(
+      palette,
+      palette.text,
+      palette.background,
+      DESTRUCTIVE.dark,
+      true,
+    ),
+  };
+}
+
+function declarations(variables: ThemeVariables, indent: string): string {
+  return Object.entries(variables)
+    .map(([name, value]) => `${indent}--${name}: ${value};`)
+    .join("\n");
+}
+
+/**
+ * The sandbox's complete globals.css for the palette
+ */
+export function createThemeCss(palette: ColorPalette): string {
+  const { light, dark } = createThemeVariables(palette);
+  return `@tailwind base;
+@tailwind components;
+@tailwind utilities;
+
+@layer base {
+  :root {
+${declarations(light, "    ")}
+    --radius: ${RADIUS};
+  }
+
+  .dark {
+${declarations(dark, "    ")}
+  }
+}
+
+@layer base {
+  * {
+    @apply border-border;
+  }
+  body {
+    @apply bg-background text-foreground;
+  }
+}
+`;
+}
@@ -0,0 +1,67 @@
+/**
+ * Audit stage: scores code quality against the style guide's rules and
+ * audits accessibility of the built page. Low quality asks for another
+ * attempt in pipelines that allow one.
+ */
+
+import {
+  auditComponentCode,
+  auditPalette,
+  summarizeFindings,
+} from "@/lib/a11y-audit";
+import { auditAccessibility } from "@/lib/e2b-sandbox";
+import {
+  generateImprovementPrompt,
+  validateCodeQuality,
+} from "@/lib/quality-validator";
+import type { Stage } from "./types";
+
+export const auditStage: Stage = {
+  name: "audit",
+  async run(ctx) {
+    const [main] = ctx.files;
+    if (!main) return "continue";
+    const { colorPalette, styleGuide } = ctx.request;
+
+    ctx.log("📊 Scoring quality...");
+    const quality = validateCodeQuality(main.code, {
+      styleGuide,
+      palette: colorPalette,
+      fidelity: ctx.fidelity,
+    });
+    ctx.quality = quality;
+    ctx.emit("quality", { score: quality.score, details: quality.details });
+    ctx.log(`Quality: ${quality.score}/100`);
+
+    if (ctx.sandbox && ctx.buildPassed) {
+      ctx.log("♿ Auditing accessibility...");
+      const findings = [
+        ...auditComponentCode(main.code),
+        ...(colorPalette ? auditPalette(colorPalette) : []),
+      ];
+      try {
+        findings.push(
+          ...(await auditAccessibility(ctx.sandbox, main.route ?? "/")),
+        );
+      } catch (error) {
+        ctx.signal.throwIfAborted();
+        const reason = error instanceof Error ? error.message : "Unknown error";
+        ctx.log(`⚠️ Page audit skipped: ${reason.split("\n")[0]}`);
+      }
+      ctx.log(summarizeFindings(findings));
+      ctx.emit("a11y", { findings });
+    }
+
+    // Only pipelines with attempts left regenerate for quality, and the
+    // offline draft would come out the same again
+    if (!quality.passed && ctx.provider && ctx.attempt < ctx.maxAttempts) {
+      ctx.log("⚠️ Quality below threshold", "warning");
+      for (const issue of quality.issues) {
+        ctx.log(`  - ${issue}`, "warning");
+      }
+      ctx.errors.push(generateImprovementPrompt(quality));
+      return "retry";
+    }
+    return "continue";
+  },
+};
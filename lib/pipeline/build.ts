@@ -0,0 +1,61 @@
+/**
+ * Build stage: a full `next build` in the sandbox, retried once after
+ * installing dependencies the build reports as missing
+ */
+
+import {
+  buildCheck,
+  type CheckTierResult,
+  formatTierTiming,
+} from "@/lib/e2b-sandbox";
+import type { AppSandbox } from "@/lib/sandbox/types";
+import { installMissingDependencies } from "./install";
+import type { PipelineContext, Stage } from "./types";
+
+/**
+ * A build that fails to run (a timeout, a backend error) counts as a
+ * failed build, so the fix stage gets to see the error
+ */
+async function runBuild(
+  ctx: PipelineContext,
+  sandbox: AppSandbox,
+): Promise<CheckTierResult> {
+  try {
+    const build = await buildCheck(sandbox);
+    ctx.log(formatTierTiming(build));
+    return build;
+  } catch (error) {
+    ctx.signal.throwIfAborted();
+    const reason = error instanceof Error ? error.message : "Unknown error";
+    ctx.log(`⚠️ Build check failed to run: ${reason}`, "warning");
+    return {
+      tier: "next build",
+      success: false,
+      output: `Error: ${reason}`,
+      durationMs: 0,
+    };
+  }
+}
+
+export const buildStage: Stage = {
+  name: "build",
+  async run(ctx) {
+    // Files that failed validation go straight to the fix stage
+    if (!ctx.sandbox || ctx.errors.length > 0) return "continue";
+
+    ctx.log("🔨 Checking build...");
+    let build = await runBuild(ctx, ctx.sandbox);
+
+    if (
+      !build.success &&
+      (await installMissingDependencies(ctx, build.output))
+    ) {
+      ctx.log("🔨 Rebuilding with the installed dependencies...");
+      build = await runBuild(ctx, ctx.sandbox);
+    }
+
+    ctx.buildPassed = build.success;
+    if (!build.success) ctx.errors.push(build.output);
+    return "continue";
+  },
+};
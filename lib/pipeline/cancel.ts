@@ -0,0 +1,40 @@
+/**
+ * Binds a run's abort signal to its model provider and sandbox, so every
+ * model call and sandbox command of the stages stops on cancellation
+ */
+
+import type { ModelProvider } from "@/lib/providers/types";
+import type { AppSandbox } from "@/lib/sandbox/types";
+
+export function cancellableProvider(
+  provider: ModelProvider,
+  signal: AbortSignal,
+): ModelProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    generate: (parts, options) =>
+      provider.generate(parts, { ...options, signal }),
+    generateStream: (parts, options) =>
+      provider.generateStream(parts, { ...options, signal }),
+    startChat: (options) => provider.startChat({ ...options, signal }),
+  };
+}
+
+export function cancellableSandbox(
+  sandbox: AppSandbox,
+  signal: AbortSignal,
+): AppSandbox {
+  return {
+    sandboxId: sandbox.sandboxId,
+    allowsShell: sandbox.allowsShell,
+    files: sandbox.files,
+    commands: {
+      run: (command, options) =>
+        sandbox.commands.run(command, { ...options, signal }),
+    },
+    getHost: (port) => sandbox.getHost(port),
+    getUrl: (port) => sandbox.getUrl(port),
+    kill: () => sandbox.kill(),
+  };
+}
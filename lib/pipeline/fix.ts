@@ -0,0 +1,404 @@
+/**
+ * Fix stage: an autonomous tool-calling agent that repairs build errors
+ * in the sandbox. Without a sandbox the errors are handed back to the
+ * generate stage for another attempt instead.
+ */
+
+import { posix } from "node:path";
+import { fixImports } from "@/lib/auto-install";
+import { buildCheck, formatTierTiming, quickCheck } from "@/lib/e2b-sandbox";
+import type { ToolDeclaration, ToolResult } from "@/lib/providers/types";
+import { type AppSandbox, SANDBOX_APP_DIR } from "@/lib/sandbox/types";
+import { typeCheckComponent } from "@/lib/type-check";
+import { MAX_ITERATIONS, type PipelineContext, type Stage } from "./types";
+import { formatTypeErrors } from "./validate";
+
+const tools: ToolDeclaration[] = [
+  {
+    name: "read_file",
+    description: "Read the contents of a file in the sandbox",
+    parameters: {
+      properties: {
+        path: {
+          type: "string",
+          description: "The absolute path to the file to read",
+        },
+      },
+      required: ["path"],
+    },
+  },
+  {
+    name: "write_file",
+    description: "Write content to a file in the sandbox",
+    parameters: {
+      properties: {
+        path: {
+          type: "string",
+          description: "The absolute path to the file to write",
+        },
+        content: {
+          type: "string",
+          description: "The content to write to the file",
+        },
+      },
+      required: ["path", "content"],
+    },
+  },
+  {
+    name: "run_command",
+    description: "Run a shell command in the sandbox",
+    parameters: {
+      properties: {
+        command: {
+          type: "string",
+          description: "The command to run",
+        },
+        cwd: {
+          type: "string",
+          description: "The working directory (default: /home/user/app)",
+        },
+      },
+      required: ["command"],
+    },
+  },
+  {
+    name: "quick_check",
+    description:
+      "Type-check (tsc) and transpile (SWC) the generated files without a full build",
+    parameters: {
+      properties: {
+        path: {
+          type: "string",
+          description:
+            "Absolute path of one file to check (default: all generated files)",
+        },
+      },
+    },
+  },
+  {
+    name: "list_files",
+    description: "List files in a directory",
+    parameters: {
+      properties: {
+        path: {
+          type: "string",
+          description: "The directory path to list",
+        },
+      },
+      required: ["path"],
+    },
+  },
+  {
+    name: "task_complete",
+    description: "Call when the component builds successfully",
+    parameters: {
+      properties: {
+        success: {
+          type: "boolean",
+          description: "Whether the task was successful",
+        },
+        message: {
+          type: "string",
+          description: "A message describing the result",
+        },
+      },
+      required: ["success"],
+    },
+  },
+];
+
+function createAgentPrompt(
+  ctx: PipelineContext,
+  buildErrors: string,
+  allowsShell: boolean,
+): string {
+  const { files } = ctx;
+  const isMultiPage = !!files[0]?.route;
+
+  return `You are an expert React/Next.js developer with FULL ACCESS to a sandbox environment. Your job is to fix build errors.
+
+YOUR MISSION:
+1. ${
+    isMultiPage
+      ? `The pages ${files.map((file) => `${SANDBOX_APP_DIR}/${file.path}`).join(", ")} have`
+      : `The component at ${SANDBOX_APP_DIR}/${files[0].path} has`
+  } build errors
+2. You have FULL AUTONOMOUS ACCESS to fix them
+3. Keep the visual design EXACTLY the same - only fix syntax errors
+
+TOOLS YOU HAVE:
+- read_file(path): Read any file
+- write_file(path, content): Write ${allowsShell ? "any file" : "a generated file"} (returns TypeScript errors for .tsx files)
+- quick_check(path?): Type-check and transpile the generated files in seconds
+${allowsShell ? "- run_command(command): Run any shell command\n" : ""}- list_files(path): List directory contents
+- task_complete(success, message): Call when build succeeds (runs a final build if you haven't)
+
+WORKFLOW:
+1. Read the component to understand the code structure
+2. Identify syntax errors from the build output
+3. Fix the code and write it back
+4. Fix any TypeScript errors that write_file reports — no build is needed for those
+5. Run quick_check after every edit; it is much faster than a build
+6. Only once quick_check passes, ${allowsShell ? 'run "npm run build" to confirm' : "call task_complete to run the build"}
+7. If still errors, read and fix again
+8. When build succeeds (exit code 0), call task_complete(true)
+
+Current build errors:
+${buildErrors.slice(0, 4000)}
+
+${
+  ctx.imagePart
+    ? "The original sketch is attached - the component MUST match it visually. Only fix CODE errors."
+    : "Keep the component's behavior and look. Only fix CODE errors."
+}
+
+START NOW: Read the component file and begin fixing.`;
+}
+
+/**
+ * Runs the agent until it confirms a passing build or runs out of
+ * iterations. Returns whether the final build passed.
+ */
+async function runFixAgent(
+  ctx: PipelineContext,
+  sandbox: AppSandbox,
+): Promise<boolean> {
+  const provider = ctx.provider;
+  if (!provider) return false;
+  const { files, log } = ctx;
+
+  const chat = provider.startChat({
+    history: [
+      createAgentPrompt(ctx, ctx.errors.join("\n\n"), sandbox.allowsShell),
+      ...(ctx.imagePart ? [ctx.imagePart] : []),
+    ],
+    // Sandboxes on the host don't get a raw shell
+    tools: sandbox.allowsShell
+      ? tools
+      : tools.filter((tool) => tool.name !== "run_command"),
+    temperature: 0.3,
+  });
+
+  let iteration = 0;
+  let taskComplete = false;
+  let buildVerified = false;
+
+  while (iteration < MAX_ITERATIONS && !taskComplete) {
+    ctx.signal.throwIfAborted();
+    iteration++;
+    ctx.iterations++;
+    log(`🤖 Agent iteration ${iteration}...`);
+
+    const response = await chat.send(
+      iteration === 1
+        ? "Start now. Read the component file and fix the errors."
+        : "Continue. Fix any remaining errors and run build again.",
+    );
+
+    if (response.toolCalls.length > 0) {
+      const toolResults: ToolResult[] = [];
+
+      for (const call of response.toolCalls) {
+        const args = call.args as Record<string, string | boolean>;
+        let toolResult = "";
+
+        switch (call.name) {
+          case "read_file": {
+            log(`📖 Reading ${args.path}...`);
+            try {
+              const content = await sandbox.files.read(args.path as string);
+              toolResult = content;
+            } catch (e) {
+              toolResult = `Error: ${e}`;
+            }
+            break;
+          }
+
+          case "write_file": {
+            log(`📝 Writing ${args.path}...`);
+            // On the host, config or script edits would run at the next build
+            const generatedPaths = files.map(
+              (f) => `${SANDBOX_APP_DIR}/${f.path}`,
+            );
+            if (
+              !sandbox.allowsShell &&
+              !generatedPaths.includes(
+                posix.resolve(SANDBOX_APP_DIR, args.path as string),
+              )
+            ) {
+              toolResult = `Error: only the generated files can be written: ${generatedPaths.join(", ")}`;
+              break;
+            }
+            try {
+              let content = args.content as string;
+              const imports = (args.path as string).endsWith(".tsx")
+                ? fixImports(content)
+                : { code: content, fixes: [] };
+              content = imports.code;
+
+              await sandbox.files.write(args.path as string, content);
+              buildVerified = false;
+              toolResult =
+                imports.fixes.length > 0
+                  ? `File written successfully (imports fixed: ${imports.fixes.join(", ")})`
+                  : "File written successfully";
+              const file = files.find((f) =>
+                (args.path as string).endsWith(f.path),
+              );
+              if (file) {
+                const typeErrors = formatTypeErrors(
+                  file.path,
+                  typeCheckComponent(content, file.path),
+                );
+                toolResult +=
+                  typeErrors.length > 0
+                    ? `\nTypeScript errors:\n${typeErrors.join("\n")}`
+                    : "\nNo TypeScript errors";
+                file.code = content;
+                ctx.emit("code", { code: file.code, path: file.path });
+              }
+            } catch (e) {
+              toolResult = `Error: ${e}`;
+            }
+            break;
+          }
+
+          case "run_command": {
+            const cmd = args.command as string;
+            const cwd = (args.cwd as string) || SANDBOX_APP_DIR;
+            log(`⚡ Running: ${cmd}`);
+            try {
+              const started = Date.now();
+              const cmdResult = await sandbox.commands.run(`${cmd} 2>&1`, {
+                cwd,
+                timeoutMs: 120000,
+              });
+              toolResult = `Exit code: ${cmdResult.exitCode}\nOutput:\n${cmdResult.stdout}${cmdResult.stderr}`;
+              if (cmd.includes("npm run build")) {
+                log(
+                  formatTierTiming({
+                    tier: "next build",
+                    success: cmdResult.exitCode === 0,
+                    output: "",
+                    durationMs: Date.now() - started,
+                  }),
+                );
+                buildVerified = cmdResult.exitCode === 0;
+                if (buildVerified) log("✅ Build successful!");
+              }
+            } catch (e) {
+              toolResult = `Error: ${e}`;
+            }
+            break;
+          }
+
+          case "quick_check": {
+            log("⚡ Quick check...");
+            try {
+              const results = await quickCheck(
+                sandbox,
+                args.path
+                  ? [(args.path as string).replace(`${SANDBOX_APP_DIR}/`, "")]
+                  : files.map((file) => file.path),
+              );
+              for (const result of results) {
+                log(formatTierTiming(result));
+              }
+              toolResult = results
+                .map((result) =>
+                  result.success
+                    ? `${result.tier}: passed`
+                    : `${result.tier}: failed\n${result.output.slice(0, 4000)}`,
+                )
+                .join("\n");
+            } catch (e) {
+              toolResult = `Error: ${e}`;
+            }
+            break;
+          }
+
+          case "list_files": {
+            log(`📁 Listing ${args.path}...`);
+            try {
+              const entries = await sandbox.files.list(args.path as string);
+              toolResult = entries.map((f) => f.name).join("\n");
+            } catch (e) {
+              toolResult = `Error: ${e}`;
+            }
+            break;
+          }
+
+          case "task_complete": {
+            // The final confirmation is always a full build
+            if (args.success && !buildVerified) {
+              log("🔨 Confirming with a full build...");
+              try {
+                const build = await buildCheck(sandbox);
+                log(formatTierTiming(build));
+                buildVerified = build.success;
+                if (!build.success) {
+                  toolResult = `Build still fails, keep fixing:\n${build.output.slice(0, 4000)}`;
+                  break;
+                }
+              } catch (e) {
+                toolResult = `Error: ${e}`;
+                break;
+              }
+            }
+            taskComplete = true;
+            log(
+              args.success
+                ? "✅ Agent completed successfully!"
+                : `⚠️ ${args.message}`,
+            );
+            toolResult = "Task marked complete";
+            break;
+          }
+
+          default:
+            toolResult = `Unknown tool: ${call.name}`;
+        }
+
+        toolResults.push({ name: call.name, result: toolResult });
+      }
+
+      await chat.send(toolResults);
+    } else if (response.text) {
+      log(`💬 ${response.text.slice(0, 100)}...`);
+    }
+  }
+
+  if (!taskComplete) {
+    log("⚠️ Max iterations reached");
+  }
+  return buildVerified;
+}
+
+export const fixStage: Stage = {
+  name: "fix",
+  async run(ctx) {
+    if (ctx.errors.length === 0) {
+      if (ctx.sandbox) ctx.log("✅ Build successful on first try!");
+      return "continue";
+    }
+
+    // No sandbox to work in: regenerate with the errors as feedback
+    if (!ctx.sandbox) {
+      for (const error of ctx.errors) ctx.log(error, "error");
+      return "retry";
+    }
+
+    if (!ctx.provider) {
+      ctx.log(
+        "⚠️ Build errors detected, but no model is available to fix them",
+        "warning",
+      );
+      return "continue";
+    }
+
+    ctx.log("⚠️ Build errors detected, starting autonomous fix agent...");
+    ctx.buildPassed = await runFixAgent(ctx, ctx.sandbox);
+    if (ctx.buildPassed) ctx.errors = [];
+    return "continue";
+  },
+};
@@ -0,0 +1,192 @@
+/**
+ * Generate stages: a component (or one per page) from the sketch, or a
+ * patch to an existing component from an edit instruction
+ */
+
+import { fixImports } from "@/lib/auto-install";
+import { applyPatches, parsePatches } from "@/lib/code-patch";
+import { createEditPrompt, createWebsitePrompt } from "@/lib/gemini";
+import type { ModelPart } from "@/lib/providers/types";
+import { compileSceneGraphToCode } from "@/lib/sketch-compiler";
+import {
+  COMPONENT_PATH,
+  describePage,
+  extractPages,
+  pageFilePath,
+} from "@/lib/sketch-pages";
+import type {
+  GenerationRequest,
+  GenerationTarget,
+  PipelineContext,
+  Stage,
+} from "./types";
+
+function extractCodeFromResponse(text: string): string | null {
+  const codeMatch = text.match(
+    /```(?:tsx|typescript|jsx|javascript)?\s*([\s\S]*?)```/,
+  );
+  if (!codeMatch) return null;
+  return codeMatch[1].trim();
+}
+
+/**
+ * One target per frame in multi-page sketches, otherwise a single component
+ */
+export function createTargets(request: GenerationRequest): GenerationTarget[] {
+  const { styleGuide, customPrompt, colorPalette, sceneGraph } = request;
+  const pages = sceneGraph ? extractPages(sceneGraph) : [];
+
+  if (pages.length > 0) {
+    return pages.map((page) => ({
+      path: pageFilePath(page.route),
+      route: page.route,
+      sceneGraph: page.graph,
+      prompt: `${createWebsitePrompt(
+        styleGuide,
+        customPrompt,
+        colorPalette,
+        page.graph,
+      )}
+
+${describePage(page, pages)}`,
+    }));
+  }
+
+  return [
+    {
+      path: COMPONENT_PATH,
+      sceneGraph,
+      prompt: createWebsitePrompt(
+        styleGuide,
+        customPrompt,
+        colorPalette,
+        sceneGraph,
+      ),
+    },
+  ];
+}
+
+export function withImage(ctx: PipelineContext, prompt: string): ModelPart[] {
+  return ctx.imagePart ? [prompt, ctx.imagePart] : [prompt];
+}
+
+export const generateStage: Stage = {
+  name: "generate",
+  async run(ctx) {
+    // Errors of the previous attempt become part of the prompt
+    const feedback = ctx.errors.splice(0);
+    ctx.log(
+      feedback.length > 0
+        ? "🔧 Regenerating with fixes..."
+        : "🎨 Generating component from your drawing...",
+    );
+
+    ctx.targets = createTargets(ctx.request);
+    ctx.files = [];
+
+    for (const target of ctx.targets) {
+      if (target.route) {
+        ctx.log(`📄 Generating page ${target.route}...`);
+        ctx.emit("page", { route: target.route, path: target.path });
+      }
+
+      let code: string | null = null;
+
+      if (ctx.provider) {
+        const prompt =
+          feedback.length > 0
+            ? `${feedback.join("\n\n")}
+
+Previous code had errors. Generate a FIXED version that addresses ALL issues above.
+${target.prompt}`
+            : target.prompt;
+
+        try {
+          ctx.iterations++;
+          let text = "";
+          for await (const delta of ctx.provider.generateStream(
+            withImage(ctx, prompt),
+            {
+              temperature: 0.7,
+              topP: 0.95,
+              topK: 64,
+            },
+          )) {
+            text += delta;
+            ctx.emit("code-delta", { delta });
+          }
+          code = extractCodeFromResponse(text);
+
+          if (!code) {
+            throw new Error("Failed to extract code from AI response");
+          }
+        } catch (error) {
+          // Fall back to the heuristic layout when the model can't answer
+          ctx.signal.throwIfAborted();
+          if (!target.sceneGraph?.nodes.length) throw error;
+
+          const reason =
+            error instanceof Error ? error.message : "Unknown error";
+          ctx.log(
+            `⚠️ Model unavailable (${reason}), using offline layout draft`,
+          );
+          ctx.provider = null;
+        }
+      }
+
+      if (!code) {
+        if (!target.sceneGraph) {
+          throw new Error("No model or sketch layout to generate from");
+        }
+        code = compileSceneGraphToCode(target.sceneGraph);
+      }
+
+      const imports = fixImports(code);
+      if (imports.fixes.length > 0) {
+        ctx.log(`🔧 Fixed imports: ${imports.fixes.join(", ")}`);
+        code = imports.code;
+      }
+
+      ctx.files.push({ path: target.path, route: target.route, code });
+      ctx.emit("code", { code, path: target.path });
+    }
+
+    ctx.log("✅ Initial code generated");
+    return "continue";
+  },
+};
+
+export const editStage: Stage = {
+  name: "generate",
+  async run(ctx) {
+    const { prompt, currentCode } = ctx.request;
+    if (!prompt || !currentCode) {
+      throw new Error("Prompt and current code are required");
+    }
+    if (!ctx.provider) {
+      throw new Error("No model available to edit the component");
+    }
+
+    ctx.log("🤖 Editing component...");
+    ctx.iterations++;
+    const text = await ctx.provider.generate(
+      withImage(ctx, createEditPrompt(currentCode, prompt, !!ctx.imagePart)),
+      { temperature: 0.3 },
+    );
+
+    const patches = parsePatches(text);
+    if (patches.length === 0) {
+      throw new Error("Model response did not contain a patch");
+    }
+
+    const imports = fixImports(applyPatches(currentCode, patches));
+    ctx.log(`✅ Applied ${patches.length} patch(es)`);
+    if (imports.fixes.length > 0) {
+      ctx.log(`🔧 Fixed imports: ${imports.fixes.join(", ")}`);
+    }
+
+    ctx.files = [{ path: COMPONENT_PATH, code: imports.code }];
+    ctx.emit("code", { code: imports.code, path: COMPONENT_PATH });
+    return "continue";
+  },
+};
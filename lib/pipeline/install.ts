@@ -0,0 +1,121 @@
+/**
+ * Install stage: adds the shadcn components the generated code imports.
+ * Also recovers dependencies a failed build reports as missing.
+ */
+
+import { SANDBOX_APP_DIR } from "@/lib/sandbox/types";
+import { SHADCN_COMPONENTS } from "@/lib/shadcn-components";
+import type { PipelineContext, Stage } from "./types";
+
+export function detectShadcnImports(code: string): string[] {
+  const found = new Set<string>();
+
+  for (const [, packageName] of Object.entries(SHADCN_COMPONENTS)) {
+    if (
+      code.includes(`"@/components/ui/${packageName}"`) ||
+      code.includes(`'@/components/ui/${packageName}'`) ||
+      code.includes(`from "@/components/ui/${packageName}`) ||
+      code.includes(`from '@/components/ui/${packageName}`)
+    ) {
+      found.add(packageName);
+    }
+  }
+
+  return Array.from(found);
+}
+
+/**
+ * Installs are best effort: one that times out or fails to run is logged,
+ * and whatever it left missing shows up in the next build
+ */
+async function runInstall(
+  ctx: PipelineContext,
+  command: string[],
+): Promise<void> {
+  if (!ctx.sandbox) return;
+  try {
+    await ctx.sandbox.commands.run(command, {
+      cwd: SANDBOX_APP_DIR,
+      timeoutMs: 120000,
+    });
+  } catch (error) {
+    ctx.signal.throwIfAborted();
+    const reason = error instanceof Error ? error.message : "Unknown error";
+    ctx.log(`⚠️ ${command.join(" ")} failed: ${reason}`, "warning");
+  }
+}
+
+async function installShadcn(
+  ctx: PipelineContext,
+  components: string[],
+): Promise<void> {
+  if (!ctx.sandbox || components.length === 0) return;
+  ctx.log(`📦 Installing shadcn: ${components.join(", ")}...`);
+  for (const comp of components) {
+    await runInstall(ctx, ["npx", "shadcn@latest", "add", comp, "--yes"]);
+  }
+}
+
+/**
+ * Installs the shadcn components and npm packages a build error reports
+ * as missing. Returns whether anything was installed.
+ */
+export async function installMissingDependencies(
+  ctx: PipelineContext,
+  buildOutput: string,
+): Promise<boolean> {
+  const components = [
+    ...new Set(
+      [
+        ...buildOutput.matchAll(
+          /(?:Module not found|Cannot find module)[^\n]*@\/components\/ui\/([a-z-]+)/gi,
+        ),
+      ].map((m) => m[1].toLowerCase()),
+    ),
+  ];
+  const packages = [
+    ...new Set(
+      [
+        ...buildOutput.matchAll(
+          /(?:Cannot find module|Can't resolve) ['"]([@a-z0-9-./]+)['"]/gi,
+        ),
+      ]
+        .map((m) => m[1])
+        .filter((spec) => !spec.startsWith("@/") && !spec.startsWith("."))
+        // "@scope/pkg/sub" → "@scope/pkg", "pkg/sub" → "pkg"
+        .map((spec) =>
+          spec
+            .split("/")
+            .slice(0, spec.startsWith("@") ? 2 : 1)
+            .join("/"),
+        ),
+    ),
+  ];
+
+  await installShadcn(ctx, components);
+  if (ctx.sandbox && packages.length > 0 && !ctx.sandbox.allowsShell) {
+    // Their install scripts would run on the host, in the template's
+    // node_modules that every local sandbox shares
+    ctx.log(
+      `⚠️ Not installing ${packages.join(", ")} in a local sandbox`,
+      "warning",
+    );
+    return components.length > 0;
+  }
+  if (ctx.sandbox && packages.length > 0) {
+    ctx.log(`📦 Installing: ${packages.join(", ")}...`);
+    await runInstall(ctx, ["npm", "install", ...packages]);
+  }
+  return components.length > 0 || packages.length > 0;
+}
+
+export const installStage: Stage = {
+  name: "install",
+  async run(ctx) {
+    await installShadcn(
+      ctx,
+      detectShadcnImports(ctx.files.map((file) => file.code).join("\n")),
+    );
+    return "continue";
+  },
+};
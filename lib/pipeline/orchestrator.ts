@@ -0,0 +1,152 @@
+/**
+ * Runs a pipeline's stages over one generation request as a job and
+ * streams the resulting events to the client as SSE
+ */
+
+import { getModelProvider, imageFromDataUrl } from "@/lib/gemini";
+import { startJob, streamJobEvents } from "@/lib/job-runner";
+import {
+  createUsageMeter,
+  formatUsage,
+  meteredProvider,
+} from "@/lib/model-usage";
+import type { ModelProvider } from "@/lib/providers/types";
+import type { SendEvent } from "@/lib/stream-events";
+import type { LogLevel } from "@/types/events";
+import { cancellableProvider } from "./cancel";
+import type {
+  GenerationRequest,
+  Pipeline,
+  PipelineContext,
+  StageResult,
+} from "./types";
+
+export function createPipelineContext(
+  request: GenerationRequest,
+  pipeline: Pipeline,
+  emit: SendEvent,
+  signal: AbortSignal,
+): PipelineContext {
+  const log = (message: string, level?: LogLevel) =>
+    emit("log", level ? { message, level } : { message });
+
+  // A sketch with vector data can still be drafted offline without a model
+  let provider: ModelProvider | null = null;
+  let usage = createUsageMeter("offline");
+  try {
+    const model = getModelProvider();
+    usage = createUsageMeter(model.model);
+    provider = meteredProvider(cancellableProvider(model, signal), usage);
+  } catch (error) {
+    if (!request.sceneGraph?.nodes.length) throw error;
+    const reason = error instanceof Error ? error.message : "Unknown error";
+    log(`⚠️ Model unavailable (${reason}), using offline layout draft`);
+  }
+
+  return {
+    request,
+    emit,
+    log,
+    signal,
+    provider,
+    usage,
+    imagePart: request.image ? imageFromDataUrl(request.image) : undefined,
+    targets: [],
+    files: [],
+    errors: [],
+    buildPassed: false,
+    attempt: 0,
+    maxAttempts: pipeline.maxAttempts ?? 1,
+    iterations: 0,
+  };
+}
+
+/**
+ * Runs the stages in order. A stage returning "retry" starts the next
+ * attempt from the first stage, with its errors left in the context.
+ */
+export async function runPipeline(
+  pipeline: Pipeline,
+  ctx: PipelineContext,
+): Promise<void> {
+  for (ctx.attempt = 1; ctx.attempt <= ctx.maxAttempts; ctx.attempt++) {
+    if (ctx.maxAttempts > 1) {
+      ctx.emit("iteration", { current: ctx.attempt, max: ctx.maxAttempts });
+    }
+
+    let result: StageResult = "continue";
+    for (const stage of pipeline.stages) {
+      ctx.signal.throwIfAborted();
+      ctx.emit("stage", { stage: stage.name, status: "started" });
+      result = await stage.run(ctx);
+      ctx.emit("stage", { stage: stage.name, status: "finished" });
+      if (result === "retry") break;
+    }
+    if (result === "continue") return;
+  }
+
+  if (ctx.maxAttempts > 1) {
+    ctx.log(`⚠️ Max iterations (${ctx.maxAttempts}) reached`, "warning");
+  }
+}
+
+function emitUsage(ctx: PipelineContext): void {
+  const usage = ctx.usage.total;
+  if (usage.calls > 0) ctx.log(formatUsage(usage));
+  ctx.emit("usage", usage);
+}
+
+function complete(ctx: PipelineContext): void {
+  const [main] = ctx.files;
+
+  if (ctx.sandbox && ctx.sandboxUrl) {
+    ctx.log(`🎉 Preview ready at ${ctx.sandboxUrl}`);
+    ctx.emit("sandbox", {
+      url: ctx.sandboxUrl,
+      sandboxId: ctx.sandbox.sandboxId,
+    });
+  }
+
+  emitUsage(ctx);
+  ctx.emit("complete", {
+    code: main?.code ?? "",
+    ...(main?.route ? { pages: ctx.files } : {}),
+    sandboxUrl: ctx.sandboxUrl,
+    sandboxId: ctx.sandbox?.sandboxId,
+    quality: ctx.quality?.score,
+    iterations: ctx.iterations,
+    success: ctx.errors.length === 0,
+  });
+}
+
+/**
+ * Starts the pipeline as a background job and streams its events as SSE.
+ * The run continues if the client disconnects; it can reattach through
+ * `/api/jobs/<id>/events` and stop it through `/api/jobs/<id>/cancel`.
+ */
+export async function streamPipeline(
+  request: GenerationRequest,
+  pipeline: Pipeline,
+): Promise<Response> {
+  const job = await startJob(pipeline.name, async (emit, signal) => {
+    let ctx: PipelineContext | undefined;
+    try {
+      ctx = createPipelineContext(request, pipeline, emit, signal);
+      await runPipeline(pipeline, ctx);
+      complete(ctx);
+    } catch (error) {
+      // Calls made before the run stopped still count toward the budget
+      if (ctx) emitUsage(ctx);
+      if (signal.aborted) {
+        emit("log", { message: "🛑 Generation cancelled", level: "warning" });
+        emit("cancelled", { message: "Generation cancelled" });
+        return;
+      }
+      const errMsg = error instanceof Error ? error.message : "Unknown error";
+      emit("log", { message: `❌ Error: ${errMsg}`, level: "error" });
+      emit("error", { message: errMsg });
+    }
+  });
+
+  return streamJobEvents(job.id);
+}
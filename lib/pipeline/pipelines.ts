@@ -0,0 +1,73 @@
+/**
+ * The generation pipelines the API routes run
+ */
+
+import { auditStage } from "./audit";
+import { buildStage } from "./build";
+import { fixStage } from "./fix";
+import { editStage, generateStage } from "./generate";
+import { installStage } from "./install";
+import { refineStage } from "./refine";
+import { sandboxStage } from "./sandbox";
+import { MAX_ITERATIONS, type Pipeline } from "./types";
+import {
+  accessibilityFixStage,
+  diffStage,
+  openFileStage,
+  reauditStage,
+  regionStage,
+} from "./update";
+import { validateStage } from "./validate";
+
+// Sketch → sandbox preview, fixed by the agent until it builds
+export const SKETCH_PIPELINE: Pipeline = {
+  name: "sketch",
+  stages: [
+    generateStage,
+    sandboxStage,
+    installStage,
+    validateStage,
+    buildStage,
+    fixStage,
+    refineStage,
+    auditStage,
+  ],
+};
+
+// Sketch → code only, regenerated until it validates and scores well
+export const DRAFT_PIPELINE: Pipeline = {
+  name: "draft",
+  stages: [generateStage, validateStage, fixStage, auditStage],
+  maxAttempts: MAX_ITERATIONS,
+};
+
+// Edit instruction → patched component in an existing sandbox
+export const EDIT_PIPELINE: Pipeline = {
+  name: "edit",
+  stages: [
+    editStage,
+    sandboxStage,
+    installStage,
+    validateStage,
+    buildStage,
+    fixStage,
+  ],
+};
+
+// Canvas selection → patched region of the file shown in the preview
+export const REGION_PIPELINE: Pipeline = {
+  name: "region",
+  stages: [openFileStage, regionStage],
+};
+
+// Sketch diff → patched file, instead of regenerating it
+export const DIFF_PIPELINE: Pipeline = {
+  name: "diff",
+  stages: [openFileStage, diffStage],
+};
+
+// Accessibility findings → patched file, audited again
+export const A11Y_FIX_PIPELINE: Pipeline = {
+  name: "a11y-fix",
+  stages: [openFileStage, accessibilityFixStage, reauditStage],
+};
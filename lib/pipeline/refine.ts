@@ -0,0 +1,205 @@
+/**
+ * Refine stage: measures how closely the rendered preview matches the
+ * sketch and, when requested, patches the layout toward it
+ */
+
+import { fixImports } from "@/lib/auto-install";
+import { applyPatches, parsePatches } from "@/lib/code-patch";
+import {
+  buildCheck,
+  captureLayout,
+  formatTierTiming,
+  quickCheck,
+} from "@/lib/e2b-sandbox";
+import { createFidelityRefinePrompt } from "@/lib/gemini";
+import type { ModelProvider } from "@/lib/providers/types";
+import { type AppSandbox, SANDBOX_APP_DIR } from "@/lib/sandbox/types";
+import {
+  describeFidelityGaps,
+  type FidelityReport,
+  formatFidelity,
+  scoreFidelity,
+} from "@/lib/visual-fidelity";
+import type { SceneGraph } from "@/types/canvas";
+import type { GeneratedFile } from "@/types/events";
+import type { PipelineContext, Stage } from "./types";
+
+// Optional layout refinement after a successful build
+const MAX_REFINE_ROUNDS = 3;
+const REFINE_TARGET_SCORE = 80;
+
+interface RefineContext {
+  sandbox: AppSandbox;
+  provider: ModelProvider;
+  file: GeneratedFile;
+  sceneGraph: SceneGraph;
+  fidelity: FidelityReport;
+  measure: () => Promise<FidelityReport>;
+}
+
+/**
+ * Patches the built component toward the sketch's layout until the
+ * fidelity target or the round limit is reached. A round that fails the
+ * quick check or doesn't raise the score is reverted and ends the loop.
+ */
+async function refineLayout(
+  ctx: PipelineContext,
+  {
+    sandbox,
+    provider,
+    file,
+    sceneGraph,
+    fidelity: initial,
+    measure,
+  }: RefineContext,
+): Promise<FidelityReport> {
+  const { emit, log } = ctx;
+  const filePath = `${SANDBOX_APP_DIR}/${file.path}`;
+  const originalCode = file.code;
+  let fidelity = initial;
+
+  for (
+    let round = 1;
+    round <= MAX_REFINE_ROUNDS && fidelity.score < REFINE_TARGET_SCORE;
+    round++
+  ) {
+    const gaps = describeFidelityGaps(sceneGraph, fidelity);
+    if (!gaps) break;
+
+    const progress = { round, maxRounds: MAX_REFINE_ROUNDS };
+    log(`🎯 Refinement ${round}/${MAX_REFINE_ROUNDS}...`);
+    emit("refine", {
+      ...progress,
+      status: "started",
+      score: fidelity.score,
+      gaps,
+    });
+
+    const previousCode = file.code;
+    try {
+      ctx.iterations++;
+      const text = await provider.generate(
+        [
+          createFidelityRefinePrompt(previousCode, gaps, sceneGraph),
+          ...(ctx.imagePart ? [ctx.imagePart] : []),
+        ],
+        { temperature: 0.3 },
+      );
+      const patches = parsePatches(text);
+      if (patches.length === 0) {
+        throw new Error("Model response did not contain a patch");
+      }
+
+      const code = fixImports(applyPatches(previousCode, patches)).code;
+      await sandbox.files.write(filePath, code);
+
+      const checks = await quickCheck(sandbox, [file.path]);
+      for (const check of checks) log(formatTierTiming(check));
+      if (!checks.every((check) => check.success)) {
+        throw new Error("Refined code failed the quick check");
+      }
+
+      const next = await measure();
+      if (next.score <= fidelity.score) {
+        throw new Error(
+          `Fidelity didn't improve (${next.score}/100 vs ${fidelity.score}/100)`,
+        );
+      }
+
+      file.code = code;
+      fidelity = next;
+      log(formatFidelity(fidelity));
+      emit("code", { code, path: file.path });
+      emit("fidelity", fidelity);
+      emit("refine", {
+        ...progress,
+        status: "applied",
+        score: fidelity.score,
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Unknown error";
+      await sandbox.files.write(filePath, previousCode);
+      ctx.signal.throwIfAborted();
+      log(`↩️ Refinement reverted: ${reason}`);
+      emit("refine", {
+        ...progress,
+        status: "reverted",
+        score: fidelity.score,
+        reason,
+      });
+      break;
+    }
+  }
+
+  if (fidelity.score >= REFINE_TARGET_SCORE) {
+    log(`✅ Fidelity target of ${REFINE_TARGET_SCORE} reached`);
+  }
+
+  // Refined code is only kept once a full build confirms it
+  if (file.code !== originalCode) {
+    let built = false;
+    try {
+      const build = await buildCheck(sandbox);
+      log(formatTierTiming(build));
+      built = build.success;
+    } catch (error) {
+      ctx.signal.throwIfAborted();
+      const reason = error instanceof Error ? error.message : "Unknown error";
+      log(`⚠️ Full build didn't run: ${reason.split("\n")[0]}`, "warning");
+    } finally {
+      // Also when the build is aborted, so no unverified refinement stays
+      if (!built) {
+        file.code = originalCode;
+        await sandbox.files.write(filePath, originalCode);
+      }
+    }
+    if (!built) {
+      log("⚠️ Refined layout failed the full build, kept the original");
+      emit("code", { code: originalCode, path: file.path });
+      return initial;
+    }
+  }
+
+  return fidelity;
+}
+
+export const refineStage: Stage = {
+  name: "refine",
+  async run(ctx) {
+    // Compare the rendered layout with the sketch it came from
+    const [measured] = ctx.targets;
+    const sceneGraph = measured?.sceneGraph;
+    const { sandbox } = ctx;
+    if (!sandbox || !sceneGraph?.nodes.length) return "continue";
+
+    const measure = async () =>
+      scoreFidelity(
+        sceneGraph,
+        await captureLayout(sandbox, measured.route ?? "/"),
+      );
+
+    ctx.log("📐 Measuring visual fidelity...");
+    try {
+      let fidelity = await measure();
+      ctx.log(formatFidelity(fidelity));
+      ctx.emit("fidelity", fidelity);
+
+      if (ctx.request.refine && ctx.provider && ctx.buildPassed) {
+        fidelity = await refineLayout(ctx, {
+          sandbox,
+          provider: ctx.provider,
+          file: ctx.files[0],
+          sceneGraph,
+          fidelity,
+          measure,
+        });
+      }
+      ctx.fidelity = fidelity;
+    } catch (error) {
+      ctx.signal.throwIfAborted();
+      const reason = error instanceof Error ? error.message : "Unknown error";
+      ctx.log(`⚠️ Fidelity check skipped: ${reason.split("\n")[0]}`);
+    }
+    return "continue";
+  },
+};
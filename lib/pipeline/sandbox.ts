@@ -0,0 +1,100 @@
+/**
+ * Sandbox stage: connects to (or creates) the sandbox and writes the
+ * generated files, the element bridge and the palette theme into it
+ */
+
+import { connectSandbox, createSandbox, writeTheme } from "@/lib/e2b-sandbox";
+import {
+  ELEMENT_BRIDGE_SOURCE,
+  ELEMENT_BRIDGE_TEMPLATE,
+} from "@/lib/element-ids";
+import { type AppSandbox, SANDBOX_APP_DIR } from "@/lib/sandbox/types";
+import { cancellableSandbox } from "./cancel";
+import type { PipelineContext, Stage } from "./types";
+
+async function setupNewSandbox(
+  sandbox: AppSandbox,
+  log: (msg: string) => void,
+): Promise<string> {
+  log("🚀 Starting dev server...");
+  sandbox.commands
+    .run(["npm", "run", "dev"], { cwd: SANDBOX_APP_DIR, timeoutMs: 0 })
+    .catch(() => {});
+  await new Promise((resolve) => setTimeout(resolve, 5000));
+  log("✅ Dev server ready");
+  return sandbox.getUrl(3000);
+}
+
+async function openSandbox(ctx: PipelineContext): Promise<AppSandbox> {
+  const { sandboxId } = ctx.request;
+
+  if (sandboxId) {
+    ctx.log("📝 Connecting to existing sandbox...");
+    try {
+      const sandbox = await connectSandbox(sandboxId);
+      ctx.sandboxUrl = sandbox.getUrl(3000);
+      ctx.log("✅ Connected to sandbox");
+      return sandbox;
+    } catch {
+      ctx.log("⚠️ Could not connect, creating new sandbox...");
+    }
+  } else {
+    ctx.log("🚀 Creating new sandbox...");
+  }
+
+  const sandbox = await createSandbox({ timeoutMs: 600000 });
+  ctx.sandboxUrl = await setupNewSandbox(sandbox, ctx.log);
+  return sandbox;
+}
+
+export const sandboxStage: Stage = {
+  name: "sandbox",
+  async run(ctx) {
+    // Later attempts reuse the sandbox of the first
+    const sandbox =
+      ctx.sandbox ?? cancellableSandbox(await openSandbox(ctx), ctx.signal);
+    ctx.sandbox = sandbox;
+
+    const isMultiPage = !!ctx.files[0]?.route;
+    ctx.log(isMultiPage ? "📝 Writing pages..." : "📝 Writing component...");
+    for (const file of ctx.files) {
+      await sandbox.files.write(`${SANDBOX_APP_DIR}/${file.path}`, file.code);
+    }
+
+    if (!isMultiPage) {
+      const pageContent = `import Component from "./component";
+export default function Page() {
+  return <Component />;
+}`;
+      await sandbox.files.write(`${SANDBOX_APP_DIR}/app/page.tsx`, pageContent);
+    } else if (!ctx.files.some((file) => file.route === "/")) {
+      // No frame is named "/", so send the root to the first page
+      const redirectContent = `import { redirect } from "next/navigation";
+export default function Page() {
+  redirect("${ctx.files[0].route}");
+}`;
+      await sandbox.files.write(
+        `${SANDBOX_APP_DIR}/app/page.tsx`,
+        redirectContent,
+      );
+    }
+
+    // Lets clicks in the preview select the source shape on the canvas
+    await sandbox.files.write(
+      `${SANDBOX_APP_DIR}/app/drawui-bridge.tsx`,
+      ELEMENT_BRIDGE_SOURCE,
+    );
+    await sandbox.files.write(
+      `${SANDBOX_APP_DIR}/app/template.tsx`,
+      ELEMENT_BRIDGE_TEMPLATE,
+    );
+
+    // Semantic classes (bg-primary, ...) resolve to the palette
+    if (ctx.request.colorPalette) {
+      await writeTheme(sandbox, ctx.request.colorPalette);
+      ctx.log("🎨 Applied palette theme");
+    }
+
+    return "continue";
+  },
+};
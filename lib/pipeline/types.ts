@@ -0,0 +1,89 @@
+/**
+ * Shared types of the generation pipeline: the request every generation
+ * route accepts and the stages it is built from. The events it streams
+ * are declared in types/events.ts.
+ */
+
+import type { A11yFinding } from "@/lib/a11y-audit";
+import type { UsageMeter } from "@/lib/model-usage";
+import type { ModelPart, ModelProvider } from "@/lib/providers/types";
+import type { QualityScore } from "@/lib/quality-validator";
+import type { AppSandbox } from "@/lib/sandbox/types";
+import type { SendEvent } from "@/lib/stream-events";
+import type { FidelityReport } from "@/lib/visual-fidelity";
+import type {
+  ColorPalette,
+  SceneGraph,
+  SketchDiff,
+  SketchSelection,
+} from "@/types/canvas";
+import type { GeneratedFile, LogLevel, StageName } from "@/types/events";
+
+// Cap for both regeneration attempts and fix agent iterations
+export const MAX_ITERATIONS = 20;
+
+export interface GenerationRequest {
+  image?: string; // data URL of the sketch
+  sceneGraph?: SceneGraph;
+  styleGuide?: string;
+  customPrompt?: string;
+  colorPalette?: ColorPalette;
+  refine?: boolean; // run the layout refinement loop after the build
+  sandboxId?: string; // sandbox to reuse
+  prompt?: string; // edit instruction for an existing component
+  currentCode?: string; // component being edited
+  path?: string; // generated file an update patches
+  selection?: SketchSelection; // region to regenerate
+  diff?: SketchDiff; // sketch changes to apply
+  findings?: A11yFinding[]; // accessibility problems to fix
+}
+
+export interface GenerationTarget {
+  path: string; // relative to the sandbox app dir
+  route?: string; // set for multi-page sketches
+  prompt: string;
+  sceneGraph?: SceneGraph;
+}
+
+/**
+ * State threaded through the stages of one generation run
+ */
+export interface PipelineContext {
+  request: GenerationRequest;
+  emit: SendEvent;
+  log: (message: string, level?: LogLevel) => void;
+  signal: AbortSignal; // aborted when the job is cancelled
+  provider: ModelProvider | null; // null once we fell back to offline drafts
+  usage: UsageMeter; // every model call of the run
+  imagePart?: ModelPart;
+  targets: GenerationTarget[]; // what the generate stage worked from
+  files: GeneratedFile[]; // files[0] is the main component
+  sandbox?: AppSandbox;
+  sandboxUrl?: string;
+  // Problems found by the latest attempt; the fix stage and the next
+  // attempt's prompt both work from these
+  errors: string[];
+  buildPassed: boolean;
+  fidelity?: FidelityReport;
+  quality?: QualityScore;
+  attempt: number;
+  maxAttempts: number;
+  iterations: number; // model rounds, including fix agent iterations
+}
+
+/**
+ * "retry" starts another attempt from the first stage while attempts
+ * remain, and ends the run otherwise
+ */
+export type StageResult = "continue" | "retry";
+
+export interface Stage {
+  name: StageName;
+  run(ctx: PipelineContext): Promise<StageResult>;
+}
+
+export interface Pipeline {
+  name: string; // recorded as the kind of the job running it
+  stages: Stage[];
+  maxAttempts?: number; // default 1
+}
@@ -0,0 +1,216 @@
+/**
+ * Update stages: patch one generated file of an existing preview from a
+ * canvas selection, a sketch diff or accessibility findings, and write it
+ * back behind a build check
+ */
+
+import {
+  auditComponentCode,
+  auditPalette,
+  describeFindings,
+  summarizeFindings,
+} from "@/lib/a11y-audit";
+import { fixImports } from "@/lib/auto-install";
+import { applyPatches, parsePatches } from "@/lib/code-patch";
+import {
+  auditAccessibility,
+  connectSandbox,
+  writeComponentWithBuildCheck,
+} from "@/lib/e2b-sandbox";
+import {
+  createAccessibilityFixPrompt,
+  createDiffUpdatePrompt,
+  createRegionPrompt,
+} from "@/lib/gemini";
+import type { ModelProvider } from "@/lib/providers/types";
+import { SANDBOX_APP_DIR } from "@/lib/sandbox/types";
+import { countChanges } from "@/lib/sketch-diff";
+import { COMPONENT_PATH, routeForFile } from "@/lib/sketch-pages";
+import type { GeneratedFile } from "@/types/events";
+import { cancellableSandbox } from "./cancel";
+import { withImage } from "./generate";
+import type { PipelineContext, Stage } from "./types";
+
+function currentFile(ctx: PipelineContext): GeneratedFile {
+  const [file] = ctx.files;
+  if (!file) throw new Error("No existing component to update");
+  return file;
+}
+
+function requireProvider(ctx: PipelineContext): ModelProvider {
+  if (!ctx.provider) {
+    throw new Error("No model available to update the component");
+  }
+  ctx.iterations++;
+  return ctx.provider;
+}
+
+/**
+ * Applies the patches of the model's response to the current file and
+ * writes the result into the sandbox, which keeps the previous version if
+ * it doesn't build
+ */
+async function applyResponse(
+  ctx: PipelineContext,
+  text: string,
+): Promise<void> {
+  const file = currentFile(ctx);
+  const patches = parsePatches(text);
+  if (patches.length === 0) {
+    throw new Error("Model response did not contain a patch");
+  }
+
+  const imports = fixImports(applyPatches(file.code, patches));
+  ctx.log(`✅ Applied ${patches.length} patch(es)`);
+  if (imports.fixes.length > 0) {
+    ctx.log(`🔧 Fixed imports: ${imports.fixes.join(", ")}`);
+  }
+  ctx.emit("code", { code: imports.code, path: file.path });
+
+  if (ctx.sandbox) {
+    await writeComponentWithBuildCheck(
+      ctx.sandbox,
+      file.path,
+      imports.code,
+      file.code,
+      ctx.log,
+    );
+    ctx.buildPassed = true;
+  }
+  ctx.files = [{ ...file, code: imports.code }];
+}
+
+// Loads the file being updated, from the sandbox when there is one so
+// manual edits made in the preview's code tab are preserved
+export const openFileStage: Stage = {
+  name: "sandbox",
+  async run(ctx) {
+    const { sandboxId, currentCode } = ctx.request;
+    const path = ctx.request.path ?? COMPONENT_PATH;
+    const route = routeForFile(path);
+    if (route === null) throw new Error(`Not a generated file: ${path}`);
+
+    let code = currentCode ?? "";
+    if (sandboxId) {
+      const sandbox = cancellableSandbox(
+        await connectSandbox(sandboxId),
+        ctx.signal,
+      );
+      ctx.sandbox = sandbox;
+      ctx.sandboxUrl = sandbox.getUrl(3000);
+      try {
+        code = await sandbox.files.read(`${SANDBOX_APP_DIR}/${path}`);
+        ctx.log("📖 Loaded current component from sandbox");
+      } catch {
+        ctx.signal.throwIfAborted();
+        ctx.log("⚠️ Could not read component from sandbox, using last code");
+      }
+    }
+
+    if (!code) throw new Error("No existing component to update");
+    ctx.files = [
+      path === COMPONENT_PATH ? { path, code } : { path, route, code },
+    ];
+    return "continue";
+  },
+};
+
+export const regionStage: Stage = {
+  name: "generate",
+  async run(ctx) {
+    const { selection, customPrompt } = ctx.request;
+    if (!selection) throw new Error("A selection is required");
+    const provider = requireProvider(ctx);
+
+    ctx.log(
+      `🎯 Regenerating selected region (${selection.elementIds.length} elements)...`,
+    );
+    const prompt = createRegionPrompt(
+      currentFile(ctx).code,
+      selection,
+      customPrompt,
+    );
+    const text = await provider.generate(withImage(ctx, prompt), {
+      temperature: 0.4,
+      topP: 0.95,
+      topK: 64,
+    });
+    await applyResponse(ctx, text);
+    return "continue";
+  },
+};
+
+export const diffStage: Stage = {
+  name: "generate",
+  async run(ctx) {
+    const { diff, sceneGraph, customPrompt } = ctx.request;
+    if (!diff) throw new Error("A sketch diff is required");
+    const provider = requireProvider(ctx);
+
+    ctx.log(
+      `✏️ Updating component from ${countChanges(diff)} sketch changes...`,
+    );
+    const prompt = createDiffUpdatePrompt(
+      currentFile(ctx).code,
+      diff,
+      sceneGraph,
+      customPrompt,
+    );
+    const text = await provider.generate(withImage(ctx, prompt), {
+      temperature: 0.4,
+      topP: 0.95,
+      topK: 64,
+    });
+    await applyResponse(ctx, text);
+    return "continue";
+  },
+};
+
+export const accessibilityFixStage: Stage = {
+  name: "generate",
+  async run(ctx) {
+    const { findings } = ctx.request;
+    if (!findings?.length) throw new Error("Audit findings are required");
+    const provider = requireProvider(ctx);
+
+    ctx.log(`♿ Fixing ${findings.length} accessibility finding(s)...`);
+    const prompt = createAccessibilityFixPrompt(
+      currentFile(ctx).code,
+      describeFindings(findings),
+    );
+    const text = await provider.generate([prompt], { temperature: 0.2 });
+    await applyResponse(ctx, text);
+    return "continue";
+  },
+};
+
+// Audits the fixed file again so the client sees what is left
+export const reauditStage: Stage = {
+  name: "audit",
+  async run(ctx) {
+    const file = currentFile(ctx);
+    const { colorPalette } = ctx.request;
+
+    const remaining = [
+      ...auditComponentCode(file.code),
+      ...(colorPalette ? auditPalette(colorPalette) : []),
+    ];
+    if (ctx.sandbox && ctx.buildPassed) {
+      try {
+        remaining.push(
+          ...(await auditAccessibility(
+            ctx.sandbox,
+            routeForFile(file.path) ?? "/",
+          )),
+        );
+      } catch (error) {
+        ctx.signal.throwIfAborted();
+        const reason = error instanceof Error ? error.message : "Unknown error";
+        ctx.log(`⚠️ Page audit skipped: ${reason.split("\n")[0]}`);
+      }
+    }
+    ctx.log(summarizeFindings(remaining));
+    ctx.emit("a11y", { findings: remaining });
+    return "continue";
+  },
+};
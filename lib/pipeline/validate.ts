@@ -0,0 +1,50 @@
+/**
+ * Validate stage: checks syntax, the default export and (when the
+ * compiler is available) types of every generated file in-process,
+ * without a sandbox build
+ */
+
+import { type CodeDiagnostic, formatDiagnostic } from "@/lib/code-analysis";
+import { sandboxValidateCode } from "@/lib/quality-validator";
+import { isTypeCheckAvailable, typeCheckComponent } from "@/lib/type-check";
+import type { Stage } from "./types";
+
+export function formatTypeErrors(
+  filePath: string,
+  diagnostics: CodeDiagnostic[] | null,
+): string[] {
+  return (diagnostics ?? []).map(
+    (diagnostic) => `${filePath}:${formatDiagnostic(diagnostic)}`,
+  );
+}
+
+export const validateStage: Stage = {
+  name: "validate",
+  async run(ctx) {
+    const typeCheck = isTypeCheckAvailable();
+    ctx.log(typeCheck ? "🧪 Type-checking..." : "🔍 Validating syntax...");
+
+    const errors: string[] = [];
+    for (const file of ctx.files) {
+      const syntax = await sandboxValidateCode(file.code);
+      if (!syntax.valid) {
+        errors.push(`${file.path}: ${syntax.error}`);
+      } else if (typeCheck) {
+        errors.push(
+          ...formatTypeErrors(
+            file.path,
+            typeCheckComponent(file.code, file.path),
+          ),
+        );
+      }
+    }
+
+    if (errors.length > 0) {
+      ctx.log(`⚠️ Validation found ${errors.length} error(s)`, "warning");
+      ctx.errors.push(`TypeScript errors:\n${errors.join("\n")}`);
+    } else {
+      ctx.log(typeCheck ? "✅ Type check passed" : "✅ Syntax check passed");
+    }
+    return "continue";
+  },
+};
@@ -0,0 +1,120 @@
+import type {
+  ChatSession,
+  ModelPart,
+  ModelProvider,
+  TokenUsage,
+} from "./types";
+
+/**
+ * Deterministic offline provider for CI and local development.
+ * Always answers with the same component so the whole pipeline
+ * (generate → write → build → preview) can run without network access.
+ */
+
+export const FIXTURE_COMPONENT = `"use client";
+
+import { motion } from "framer-motion";
+import { Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+export default function Component() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-8">
+      <motion.div
+        initial={{ opacity: 0, y: 12 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-md"
+      >
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Sparkles className="h-5 w-5" />
+              Fixture Component
+            </CardTitle>
+            <CardDescription>
+              Generated offline by the fixture model provider
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button className="w-full">Get started</Button>
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}`;
+
+const FIXTURE_RESPONSE = `\`\`\`tsx
+${FIXTURE_COMPONENT}
+\`\`\``;
+
+const STREAM_CHUNK_SIZE = 64;
+
+// Roughly four characters per token, so usage reporting can be exercised
+function estimateUsage(prompt: ModelPart[], response: string): TokenUsage {
+  const promptChars = prompt.reduce(
+    (sum, part) => sum + (typeof part === "string" ? part.length : 0),
+    0,
+  );
+  return {
+    promptTokens: Math.ceil(promptChars / 4),
+    responseTokens: Math.ceil(response.length / 4),
+  };
+}
+
+export function createFixtureProvider(): ModelProvider {
+  return {
+    name: "fixture",
+    model: "fixture",
+
+    async generate(parts, options) {
+      options?.signal?.throwIfAborted();
+      options?.onUsage?.(estimateUsage(parts, FIXTURE_RESPONSE));
+      return FIXTURE_RESPONSE;
+    },
+
+    async *generateStream(parts, options) {
+      for (let i = 0; i < FIXTURE_RESPONSE.length; i += STREAM_CHUNK_SIZE) {
+        options?.signal?.throwIfAborted();
+        yield FIXTURE_RESPONSE.slice(i, i + STREAM_CHUNK_SIZE);
+      }
+      options?.onUsage?.(estimateUsage(parts, FIXTURE_RESPONSE));
+    },
+
+    startChat({ history, tools, signal, onUsage }): ChatSession {
+      const canComplete = tools?.some((t) => t.name === "task_complete");
+
+      // The fixture never edits files: it reports completion straight away
+      return {
+        async send(message) {
+          signal?.throwIfAborted();
+          onUsage?.(
+            estimateUsage(
+              typeof message === "string" ? [...history, message] : history,
+              canComplete ? "" : FIXTURE_RESPONSE,
+            ),
+          );
+          if (canComplete) {
+            return {
+              text: "",
+              toolCalls: [
+                {
+                  name: "task_complete",
+                  args: { success: true, message: "Fixture run" },
+                },
+              ],
+            };
+          }
+          return { text: FIXTURE_RESPONSE, toolCalls: [] };
+        },
+      };
+    },
+  };
+}
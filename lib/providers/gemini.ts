@@ -0,0 +1,150 @@
+import {
+  type FunctionDeclaration,
+  GoogleGenerativeAI,
+  type Part,
+  type Schema,
+  SchemaType,
+  type UsageMetadata,
+} from "@google/generative-ai";
+import type {
+  ChatResponse,
+  ChatSession,
+  ModelPart,
+  ModelProvider,
+  TokenUsage,
+  ToolDeclaration,
+} from "./types";
+
+const DEFAULT_MODEL = "gemini-3-flash-preview";
+
+const schemaTypes = {
+  string: SchemaType.STRING,
+  boolean: SchemaType.BOOLEAN,
+  number: SchemaType.NUMBER,
+} as const;
+
+function toGeminiPart(part: ModelPart): Part {
+  if (typeof part === "string") {
+    return { text: part };
+  }
+  return { inlineData: { data: part.data, mimeType: part.mimeType } };
+}
+
+function toTokenUsage(metadata: UsageMetadata | undefined): TokenUsage {
+  return {
+    promptTokens: metadata?.promptTokenCount ?? 0,
+    responseTokens: metadata?.candidatesTokenCount ?? 0,
+  };
+}
+
+function toFunctionDeclaration(tool: ToolDeclaration): FunctionDeclaration {
+  const properties: Record<string, Schema> = {};
+  for (const [key, param] of Object.entries(tool.parameters.properties)) {
+    properties[key] = {
+      type: schemaTypes[param.type],
+      description: param.description,
+    } as Schema;
+  }
+
+  return {
+    name: tool.name,
+    description: tool.description,
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties,
+      required: tool.parameters.required,
+    },
+  };
+}
+
+export function getGeminiClient() {
+  const apiKey = process.env.GOOGLE_GEMINI_API_KEY || "";
+  if (!apiKey) {
+    throw new Error(
+      "GOOGLE_GEMINI_API_KEY is not set in environment variables",
+    );
+  }
+
+  return new GoogleGenerativeAI(apiKey);
+}
+
+/**
+ * Gemini implementation of the model provider
+ */
+export function createGeminiProvider(
+  modelName = process.env.GEMINI_MODEL || DEFAULT_MODEL,
+): ModelProvider {
+  const genAI = getGeminiClient();
+
+  return {
+    name: "gemini",
+    model: modelName,
+
+    async generate(parts, { signal, onUsage, ...options } = {}) {
+      const model = genAI.getGenerativeModel({
+        model: modelName,
+        generationConfig: options,
+      });
+      const result = await model.generateContent(parts.map(toGeminiPart), {
+        signal,
+      });
+      onUsage?.(toTokenUsage(result.response.usageMetadata));
+      return result.response.text();
+    },
+
+    async *generateStream(parts, { signal, onUsage, ...options } = {}) {
+      const model = genAI.getGenerativeModel({
+        model: modelName,
+        generationConfig: options,
+      });
+      const result = await model.generateContentStream(
+        parts.map(toGeminiPart),
+        { signal },
+      );
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) yield text;
+      }
+      // The aggregated response carries the usage of the whole stream
+      onUsage?.(toTokenUsage((await result.response).usageMetadata));
+    },
+
+    startChat({ history, tools, signal, onUsage, ...options }): ChatSession {
+      const model = genAI.getGenerativeModel({
+        model: modelName,
+        generationConfig: options,
+        tools: tools?.length
+          ? [{ functionDeclarations: tools.map(toFunctionDeclaration) }]
+          : undefined,
+      });
+      const chat = model.startChat({
+        history: [{ role: "user", parts: history.map(toGeminiPart) }],
+      });
+
+      return {
+        async send(message): Promise<ChatResponse> {
+          const request =
+            typeof message === "string"
+              ? message
+              : message.map((r) => ({
+                  functionResponse: {
+                    name: r.name,
+                    response: { result: r.result },
+                  },
+                }));
+          const result = await chat.sendMessage(request, { signal });
+          onUsage?.(toTokenUsage(result.response.usageMetadata));
+          const calls = result.response.functionCalls() ?? [];
+
+          return {
+            text: calls.length > 0 ? "" : result.response.text(),
+            toolCalls: calls.map((call) => ({
+              name: call.name,
+              args: (call.args ?? {}) as Record<string, unknown>,
+            })),
+          };
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Provider-neutral model interface used by every generation route
+ */
+
+export interface ImagePart {
+  mimeType: string;
+  data: string; // base64 without the data URL prefix
+}
+
+export type ModelPart = string | ImagePart;
+
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+}
+
+export interface GenerationOptions {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  signal?: AbortSignal; // aborts the request
+  onUsage?: (usage: TokenUsage) => void; // called once per model call
+}
+
+export interface ToolParameter {
+  type: "string" | "boolean" | "number";
+  description: string;
+}
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: {
+    properties: Record<string, ToolParameter>;
+    required?: string[];
+  };
+}
+
+export interface ToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolResult {
+  name: string;
+  result: string;
+}
+
+export interface ChatResponse {
+  text: string;
+  toolCalls: ToolCall[];
+}
+
+export interface ChatOptions extends GenerationOptions {
+  history: ModelPart[];
+  tools?: ToolDeclaration[];
+}
+
+export interface ChatSession {
+  send(message: string | ToolResult[]): Promise<ChatResponse>;
+}
+
+export interface ModelProvider {
+  readonly name: string;
+  readonly model: string; // model id, used to price its usage
+  generate(parts: ModelPart[], options?: GenerationOptions): Promise<string>;
+  generateStream(
+    parts: ModelPart[],
+    options?: GenerationOptions,
+  ): AsyncIterable<string>;
+  startChat(options: ChatOptions): ChatSession;
+}
@@ -0,0 +1,538 @@
+/**
+ * Pluggable quality rules for generated components. Each rule scores one
+ * aspect of the code from 0 to 1; a rule set picks the rules for a style
+ * guide and gives each a weight and a passing threshold.
+ */
+
+import ts from "typescript";
+import {
+  analyzeCode,
+  inspectDefaultExport,
+  parseTsx,
+} from "@/lib/code-analysis";
+import type { FidelityReport } from "@/lib/visual-fidelity";
+import type { ColorPalette } from "@/types/canvas";
+
+export interface QualityContext {
+  code: string;
+  sourceFile: ts.SourceFile;
+  palette?: ColorPalette;
+  fidelity?: FidelityReport;
+}
+
+export interface RuleConfig {
+  weight: number;
+  threshold?: number; // minimum score to pass, 0–1 (default 1)
+  target?: number; // count that earns full marks, for counting rules
+}
+
+export interface RuleOutcome {
+  score: number; // 0–1
+  message: string; // explains a score below the threshold
+}
+
+export interface QualityRule {
+  id: string;
+  description: string;
+  hint: string; // improvement instruction for the model
+  // Returns null when the rule doesn't apply, e.g. no palette was chosen
+  evaluate(context: QualityContext, config: RuleConfig): RuleOutcome | null;
+}
+
+export interface RuleResult {
+  ruleId: string;
+  weight: number;
+  score: number; // 0–1
+  passed: boolean;
+  message?: string;
+  hint: string;
+}
+
+export type RuleSet = Record<string, RuleConfig>;
+
+/**
+ * Visits every node of the file
+ */
+function walk(sourceFile: ts.SourceFile, visit: (node: ts.Node) => void) {
+  const next = (node: ts.Node) => {
+    visit(node);
+    ts.forEachChild(node, next);
+  };
+  next(sourceFile);
+}
+
+function tagName(
+  node: ts.JsxOpeningLikeElement,
+  sourceFile: ts.SourceFile,
+): string {
+  return node.tagName.getText(sourceFile);
+}
+
+function attributeNames(node: ts.JsxOpeningLikeElement): Set<string> {
+  const names = new Set<string>();
+  for (const property of node.attributes.properties) {
+    if (ts.isJsxAttribute(property)) {
+      names.add(property.name.getText());
+    }
+  }
+  return names;
+}
+
+// String contents of literals and template text, where class names live
+function stringContents(sourceFile: ts.SourceFile): string[] {
+  const strings: string[] = [];
+  walk(sourceFile, (node) => {
+    if (
+      ts.isStringLiteral(node) ||
+      ts.isNoSubstitutionTemplateLiteral(node) ||
+      ts.isTemplateHead(node) ||
+      ts.isTemplateMiddle(node) ||
+      ts.isTemplateTail(node)
+    ) {
+      const attribute = ts.isJsxAttribute(node.parent)
+        ? node.parent.name.getText(sourceFile)
+        : "";
+      if (attribute !== "href" && attribute !== "id") strings.push(node.text);
+    }
+  });
+  return strings;
+}
+
+function countRatio(count: number, target: number): number {
+  return Math.min(1, count / Math.max(1, target));
+}
+
+function hasTextContent(node: ts.JsxChild | ts.JsxElement): boolean {
+  if (ts.isJsxText(node)) return node.text.trim().length > 0;
+  // Expressions usually render text; give them the benefit of the doubt
+  if (ts.isJsxExpression(node)) return !!node.expression;
+  if (ts.isJsxElement(node) || ts.isJsxFragment(node)) {
+    return node.children.some(hasTextContent);
+  }
+  return false;
+}
+
+const useClientRule: QualityRule = {
+  id: "use-client",
+  description: '"use client" is present when the component needs it',
+  hint: 'Add "use client" at the very top of the file',
+  evaluate({ sourceFile }) {
+    let needsClient = false;
+    walk(sourceFile, (node) => {
+      if (
+        (ts.isCallExpression(node) &&
+          ts.isIdentifier(node.expression) &&
+          /^use[A-Z]/.test(node.expression.text)) ||
+        (ts.isJsxAttribute(node) &&
+          /^on[A-Z]/.test(node.name.getText(sourceFile))) ||
+        (ts.isImportDeclaration(node) &&
+          ts.isStringLiteral(node.moduleSpecifier) &&
+          node.moduleSpecifier.text === "framer-motion")
+      ) {
+        needsClient = true;
+      }
+    });
+    if (!needsClient) return { score: 1, message: "" };
+
+    const first = sourceFile.statements[0];
+    const hasDirective =
+      !!first &&
+      ts.isExpressionStatement(first) &&
+      ts.isStringLiteral(first.expression) &&
+      first.expression.text === "use client";
+    return {
+      score: hasDirective ? 1 : 0,
+      message:
+        'Missing "use client" directive (the component uses hooks, events or animations)',
+    };
+  },
+};
+
+const validSyntaxRule: QualityRule = {
+  id: "valid-syntax",
+  description: "Parses and default-exports a GeneratedWebsite component",
+  hint: "Export a single default function GeneratedWebsite that returns JSX, with no TODOs",
+  evaluate({ code }) {
+    const component = inspectDefaultExport(code);
+    const valid =
+      component?.name === "GeneratedWebsite" &&
+      component.returnsJsx &&
+      !analyzeCode(code).some((d) => d.ruleId === "syntax-error") &&
+      !code.includes("// TODO");
+    return {
+      score: valid ? 1 : 0,
+      message: "Basic syntax validation failed",
+    };
+  },
+};
+
+const accessibilityRule: QualityRule = {
+  id: "accessibility",
+  description: "Images have alt text, controls have accessible names",
+  hint: "Give every image an alt, icon-only buttons and links an aria-label, and every input a label or aria-label",
+  evaluate({ sourceFile }) {
+    const labelled = new Set<string>();
+    walk(sourceFile, (node) => {
+      if (
+        ts.isJsxAttribute(node) &&
+        node.name.getText(sourceFile) === "htmlFor" &&
+        node.initializer &&
+        ts.isStringLiteral(node.initializer)
+      ) {
+        labelled.add(node.initializer.text);
+      }
+    });
+
+    let checked = 0;
+    const problems: string[] = [];
+    walk(sourceFile, (node) => {
+      if (!ts.isJsxOpeningElement(node) && !ts.isJsxSelfClosingElement(node)) {
+        return;
+      }
+      const tag = tagName(node, sourceFile);
+      const attributes = attributeNames(node);
+      const hasName =
+        attributes.has("aria-label") ||
+        attributes.has("aria-labelledby") ||
+        attributes.has("title");
+
+      if (tag === "img" || tag === "Image") {
+        checked++;
+        if (!attributes.has("alt")) problems.push(`<${tag}> without alt`);
+      } else if (["button", "Button", "a", "Link"].includes(tag)) {
+        checked++;
+        const element = ts.isJsxOpeningElement(node) ? node.parent : null;
+        if (!hasName && !(element && hasTextContent(element))) {
+          problems.push(`<${tag}> without text or aria-label`);
+        }
+      } else if (
+        ["input", "Input", "textarea", "Textarea", "select"].includes(tag)
+      ) {
+        checked++;
+        const id = node.attributes.properties.find(
+          (property) =>
+            ts.isJsxAttribute(property) &&
+            property.name.getText(sourceFile) === "id",
+        );
+        const idValue =
+          id &&
+          ts.isJsxAttribute(id) &&
+          id.initializer &&
+          ts.isStringLiteral(id.initializer)
+            ? id.initializer.text
+            : "";
+        if (!hasName && !labelled.has(idValue)) {
+          problems.push(`<${tag}> without a label`);
+        }
+      }
+    });
+
+    return {
+      score: checked === 0 ? 1 : 1 - problems.length / checked,
+      message: `${problems.length} accessibility problem(s): ${[
+        ...new Set(problems),
+      ]
+        .slice(0, 3)
+        .join(", ")}`,
+    };
+  },
+};
+
+const noInlineStylesRule: QualityRule = {
+  id: "no-inline-styles",
+  description: "Styling uses Tailwind classes instead of style props",
+  hint: "Replace style={{...}} props with Tailwind classes",
+  evaluate({ sourceFile }) {
+    let count = 0;
+    walk(sourceFile, (node) => {
+      if (
+        ts.isJsxAttribute(node) &&
+        node.name.getText(sourceFile) === "style"
+      ) {
+        count++;
+      }
+    });
+    return {
+      score: Math.max(0, 1 - count / 5),
+      message: `${count} inline style prop(s)`,
+    };
+  },
+};
+
+function normalizeHex(hex: string): string {
+  const digits = hex.slice(1).toLowerCase();
+  return digits.length === 3
+    ? `#${[...digits].map((digit) => digit + digit).join("")}`
+    : `#${digits}`;
+}
+
+const paletteColorsRule: QualityRule = {
+  id: "palette-colors",
+  description: "Hard-coded colors come from the chosen palette",
+  hint: "Use the theme's semantic classes (bg-primary, text-foreground) instead of hex colors",
+  evaluate({ sourceFile, palette }) {
+    if (!palette) return null;
+
+    const allowed = new Set(Object.values(palette).map(normalizeHex));
+    const used = stringContents(sourceFile).flatMap((text) =>
+      [...text.matchAll(/#(?:[0-9a-fA-F]{6}|[0-9a-fA-F]{3})\b/g)].map((match) =>
+        normalizeHex(match[0]),
+      ),
+    );
+    // Semantic classes and Tailwind colors don't hard-code anything
+    if (used.length === 0) return { score: 1, message: "" };
+
+    const offPalette = [...new Set(used.filter((hex) => !allowed.has(hex)))];
+    return {
+      score: 1 - used.filter((hex) => !allowed.has(hex)).length / used.length,
+      message: `Colors outside the palette: ${offPalette.slice(0, 5).join(", ")}`,
+    };
+  },
+};
+
+const responsiveRule: QualityRule = {
+  id: "responsive",
+  description: "Layout adapts with responsive breakpoint classes",
+  hint: "Add responsive breakpoints (sm:, md:, lg:) so the layout works on mobile and desktop",
+  evaluate({ sourceFile }, { target = 3 }) {
+    const count = stringContents(sourceFile)
+      .flatMap((text) => text.split(/\s+/))
+      .filter((token) => /^(?:sm|md|lg|xl|2xl):/.test(token)).length;
+    return {
+      score: countRatio(count, target),
+      message: `Only ${count} responsive breakpoint class(es), need ${target}`,
+    };
+  },
+};
+
+const ANIMATION_PROPS = new Set([
+  "initial",
+  "animate",
+  "whileInView",
+  "whileHover",
+  "whileTap",
+]);
+
+const animationsRule: QualityRule = {
+  id: "animations",
+  description: "Uses framer-motion animations",
+  hint: "Add framer-motion animations (initial, whileInView, whileHover) on hero, cards and buttons",
+  evaluate({ sourceFile }, { target = 5 }) {
+    let count = 0;
+    walk(sourceFile, (node) => {
+      if (
+        ts.isJsxAttribute(node) &&
+        ANIMATION_PROPS.has(node.name.getText(sourceFile))
+      ) {
+        count++;
+      }
+    });
+    return {
+      score: countRatio(count, target),
+      message: `Not enough animations (found ${count}, need ${target})`,
+    };
+  },
+};
+
+function importedNames(sourceFile: ts.SourceFile, module: string): string[] {
+  return sourceFile.statements.flatMap((statement) => {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier) ||
+      statement.moduleSpecifier.text !== module
+    ) {
+      return [];
+    }
+    const bindings = statement.importClause?.namedBindings;
+    return bindings && ts.isNamedImports(bindings)
+      ? bindings.elements.map((element) => element.name.text)
+      : [];
+  });
+}
+
+const iconsRule: QualityRule = {
+  id: "icons",
+  description: "Uses lucide-react icons",
+  hint: "Add lucide-react icons to buttons, cards, features and navigation",
+  evaluate({ sourceFile }, { target = 6 }) {
+    const icons = new Set(importedNames(sourceFile, "lucide-react"));
+    let count = 0;
+    walk(sourceFile, (node) => {
+      if (
+        (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) &&
+        icons.has(tagName(node, sourceFile))
+      ) {
+        count++;
+      }
+    });
+    return {
+      score: countRatio(count, target),
+      message: `Not enough icons (found ${count}, need ${target})`,
+    };
+  },
+};
+
+const shadcnComponentsRule: QualityRule = {
+  id: "shadcn-components",
+  description: "Builds on shadcn/ui components",
+  hint: "Use shadcn/ui components such as Card, Button, Badge, Tabs, Avatar and Separator",
+  evaluate({ sourceFile }, { target = 5 }) {
+    const modules = new Set(
+      sourceFile.statements
+        .filter(ts.isImportDeclaration)
+        .map((statement) => statement.moduleSpecifier)
+        .filter(ts.isStringLiteral)
+        .map((specifier) => specifier.text)
+        .filter((module) => module.startsWith("@/components/ui/")),
+    );
+    return {
+      score: countRatio(modules.size, target),
+      message: `Not enough shadcn components (found ${modules.size}, need ${target})`,
+    };
+  },
+};
+
+const modernEffectsRule: QualityRule = {
+  id: "modern-effects",
+  description: "Uses gradients or glassmorphism",
+  hint: "Add gradient backgrounds or glassmorphism (backdrop-blur, translucent surfaces)",
+  evaluate({ sourceFile }) {
+    const tokens = stringContents(sourceFile).flatMap((text) =>
+      text.split(/\s+/),
+    );
+    const hasEffects = tokens.some((token) =>
+      /(?:^|:)(?:bg-gradient-to-|bg-linear-|backdrop-blur)/.test(token),
+    );
+    return {
+      score: hasEffects ? 1 : 0,
+      message: "No gradients or glassmorphism effects",
+    };
+  },
+};
+
+const fidelityRule: QualityRule = {
+  id: "fidelity",
+  description: "The rendered layout follows the sketch",
+  hint: "Match the sketch's layout: keep the drawn sizes, positions and order of elements",
+  evaluate({ fidelity }) {
+    if (!fidelity) return null;
+    return {
+      score: fidelity.score / 100,
+      message: `Rendered layout drifts from the sketch (fidelity ${fidelity.score}/100)`,
+    };
+  },
+};
+
+const QUALITY_RULES = new Map<string, QualityRule>(
+  [
+    useClientRule,
+    validSyntaxRule,
+    accessibilityRule,
+    noInlineStylesRule,
+    paletteColorsRule,
+    responsiveRule,
+    animationsRule,
+    iconsRule,
+    shadcnComponentsRule,
+    modernEffectsRule,
+    fidelityRule,
+  ].map((rule) => [rule.id, rule]),
+);
+
+/**
+ * Adds a rule that rule sets can then reference by id
+ */
+export function registerQualityRule(rule: QualityRule): void {
+  QUALITY_RULES.set(rule.id, rule);
+}
+
+// Rules every style is held to
+const BASE_RULES: RuleSet = {
+  "valid-syntax": { weight: 15 },
+  "use-client": { weight: 10 },
+  accessibility: { weight: 15, threshold: 0.8 },
+  "no-inline-styles": { weight: 5 },
+  "palette-colors": { weight: 10, threshold: 0.8 },
+  responsive: { weight: 10 },
+  fidelity: { weight: 10, threshold: 0.5 },
+};
+
+export const DEFAULT_RULE_SET = "Modern & Professional";
+
+// Keyed by the style guides offered in the sidebar
+export const RULE_SETS: Record<string, RuleSet> = {
+  "Modern & Professional": {
+    ...BASE_RULES,
+    "shadcn-components": { weight: 10, target: 4 },
+    icons: { weight: 5, target: 4 },
+    animations: { weight: 5, target: 3 },
+  },
+  "Minimal & Clean": {
+    ...BASE_RULES,
+    "no-inline-styles": { weight: 10 },
+    "shadcn-components": { weight: 5, target: 2 },
+  },
+  "Bold & Vibrant": {
+    ...BASE_RULES,
+    animations: { weight: 10, target: 5 },
+    icons: { weight: 10, target: 6 },
+    "modern-effects": { weight: 10 },
+  },
+  "Elegant & Luxury": {
+    ...BASE_RULES,
+    animations: { weight: 5, target: 3 },
+    "shadcn-components": { weight: 5, target: 3 },
+  },
+  "Playful & Fun": {
+    ...BASE_RULES,
+    animations: { weight: 15, target: 6 },
+    icons: { weight: 10, target: 6 },
+    "modern-effects": { weight: 5 },
+  },
+  "Dark & Moody": {
+    ...BASE_RULES,
+    animations: { weight: 5, target: 3 },
+    "modern-effects": { weight: 10 },
+  },
+};
+
+export function getRuleSet(styleGuide?: string): {
+  name: string;
+  rules: RuleSet;
+} {
+  const name =
+    styleGuide && styleGuide in RULE_SETS ? styleGuide : DEFAULT_RULE_SET;
+  return { name, rules: RULE_SETS[name] };
+}
+
+/**
+ * Runs the rules of a set; rules that don't apply are left out
+ */
+export function runQualityRules(
+  context: Omit<QualityContext, "sourceFile">,
+  ruleSet: RuleSet,
+): RuleResult[] {
+  const fullContext = { ...context, sourceFile: parseTsx(context.code) };
+  const results: RuleResult[] = [];
+
+  for (const [ruleId, config] of Object.entries(ruleSet)) {
+    const rule = QUALITY_RULES.get(ruleId);
+    if (!rule) throw new Error(`Unknown quality rule: ${ruleId}`);
+
+    const outcome = rule.evaluate(fullContext, config);
+    if (!outcome) continue;
+
+    const score = Math.max(0, Math.min(1, outcome.score));
+    const passed = score >= (config.threshold ?? 1);
+    results.push({
+      ruleId,
+      weight: config.weight,
+      score,
+      passed,
+      ...(passed ? {} : { message: outcome.message }),
+      hint: rule.hint,
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,127 @@
+import { CommandExitError, Sandbox } from "e2b";
+import type { AppSandbox, RunOptions, SandboxBackend } from "./types";
+
+const TEMPLATE_NAME = "nextjs-shadcn";
+
+function getApiKey(): string {
+  const apiKey = process.env.E2B_API_KEY;
+  if (!apiKey) {
+    throw new Error(
+      "E2B_API_KEY not configured. Add E2B_API_KEY to your .env.local file.",
+    );
+  }
+  return apiKey;
+}
+
+// Quotes an argv array into one command line for the sandbox's shell
+function toCommandLine(command: string | string[]): string {
+  if (typeof command === "string") return command;
+  return command.map((arg) => `'${arg.replaceAll("'", "'\\''")}'`).join(" ");
+}
+
+/**
+ * Runs the command in the background so an abort can kill it
+ */
+async function runCancellable(
+  sandbox: Sandbox,
+  command: string,
+  options: Omit<RunOptions, "signal">,
+  signal: AbortSignal,
+) {
+  signal.throwIfAborted();
+  const handle = await sandbox.commands.run(command, {
+    ...options,
+    background: true,
+  });
+  const kill = () => {
+    handle.kill().catch(() => {});
+  };
+  signal.addEventListener("abort", kill, { once: true });
+  try {
+    return await handle.wait();
+  } finally {
+    signal.removeEventListener("abort", kill);
+  }
+}
+
+function wrapSandbox(sandbox: Sandbox): AppSandbox {
+  return {
+    sandboxId: sandbox.sandboxId,
+    // Commands run inside the isolated E2B VM
+    allowsShell: true,
+
+    files: {
+      read: (path) => sandbox.files.read(path),
+      async write(path, content) {
+        await sandbox.files.write(path, content);
+      },
+      async list(path) {
+        const entries = await sandbox.files.list(path);
+        return entries.map((entry) => ({
+          name: entry.name,
+          path: entry.path,
+          type: entry.type === "dir" ? "dir" : "file",
+        }));
+      },
+    },
+
+    commands: {
+      async run(command, { signal, ...options } = {}) {
+        const commandLine = toCommandLine(command);
+        try {
+          const result = signal
+            ? await runCancellable(sandbox, commandLine, options, signal)
+            : await sandbox.commands.run(commandLine, options);
+          return {
+            stdout: result.stdout,
+            stderr: result.stderr,
+            exitCode: result.exitCode,
+          };
+        } catch (error) {
+          // A killed command exits non-zero; report the abort instead
+          signal?.throwIfAborted();
+          // E2B throws on non-zero exit codes; surface them as results instead
+          if (error instanceof CommandExitError) {
+            return {
+              stdout: error.stdout,
+              stderr: error.stderr,
+              exitCode: error.exitCode,
+            };
+          }
+          throw error;
+        }
+      },
+    },
+
+    getHost: (port) => sandbox.getHost(port),
+    getUrl: (port) => `https://${sandbox.getHost(port)}`,
+
+    async kill() {
+      await sandbox.kill();
+    },
+  };
+}
+
+/**
+ * Sandbox backend running the nextjs-shadcn template on E2B
+ */
+export function createE2BBackend(): SandboxBackend {
+  return {
+    name: "e2b",
+
+    async create({ timeoutMs = 600000 } = {}) {
+      const sandbox = await Sandbox.create(TEMPLATE_NAME, {
+        apiKey: getApiKey(),
+        timeoutMs,
+      });
+      return wrapSandbox(sandbox);
+    },
+
+    async connect(sandboxId) {
+      const sandbox = await Sandbox.connect(sandboxId, {
+        apiKey: getApiKey(),
+      });
+      return wrapSandbox(sandbox);
+    },
+  };
+}
@@ -0,0 +1,382 @@
+import { type ChildProcess, spawn } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import { existsSync } from "node:fs";
+import fs from "node:fs/promises";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import {
+  type AppSandbox,
+  type CommandResult,
+  type RunOptions,
+  SANDBOX_APP_DIR,
+  type SandboxBackend,
+} from "./types";
+
+/**
+ * Sandbox backend that runs the e2b-template Next.js app in a local
+ * working directory with child processes. Intended for air-gapped dev
+ * machines: no E2B key is needed, only node and npm.
+ */
+
+const TEMPLATE_DIR = path.join(process.cwd(), "e2b-template", "files");
+const ROOT_DIR =
+  process.env.LOCAL_SANDBOX_DIR || path.join(os.tmpdir(), "drawui-sandboxes");
+// The template installed once, with the dependencies every sandbox links
+export const INSTALLED_TEMPLATE_DIR = path.join(ROOT_DIR, ".template");
+const BASE_PORT = Number(process.env.LOCAL_SANDBOX_PORT || 3100);
+// Shell strings run unconfined on the host, so they need an explicit opt-in
+const ALLOW_SHELL = process.env.LOCAL_SANDBOX_SHELL === "1";
+
+// Port the template's dev server listens on inside E2B
+const TEMPLATE_DEV_PORT = 3000;
+const DEFAULT_TIMEOUT_MS = 60000;
+
+// Same components the E2B template pre-installs
+const PREINSTALLED_COMPONENTS =
+  "button card input label textarea badge avatar dialog sheet tabs accordion alert separator scroll-area skeleton select switch checkbox radio-group dropdown-menu popover";
+
+interface LocalSandboxState {
+  id: string;
+  dir: string;
+  port: number;
+  processes: Set<ChildProcess>;
+  expiryTimer?: NodeJS.Timeout;
+}
+
+const sandboxes = new Map<string, LocalSandboxState>();
+let nextPort = BASE_PORT;
+let templateReady: Promise<string> | null = null;
+
+function childEnv(port: number): NodeJS.ProcessEnv {
+  const env: Record<string, string | undefined> = {
+    ...process.env,
+    PORT: String(port),
+  };
+  // Don't leak the host app's NODE_ENV into the sandbox's next build
+  delete env.NODE_ENV;
+  return env as NodeJS.ProcessEnv;
+}
+
+function killProcess(child: ChildProcess) {
+  if (!child.pid) return;
+  try {
+    // Negative pid kills the whole process group (npm → next → workers)
+    process.kill(-child.pid, "SIGTERM");
+  } catch {
+    // Already exited
+  }
+}
+
+function spawnCommand(
+  command: string | string[],
+  cwd: string,
+  timeoutMs: number,
+  env: NodeJS.ProcessEnv,
+  processes?: Set<ChildProcess>,
+  signal?: AbortSignal,
+): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    // argv commands never go through a shell
+    const child = Array.isArray(command)
+      ? spawn(command[0], command.slice(1), { cwd, env, detached: true })
+      : spawn(command, { cwd, env, shell: true, detached: true });
+    processes?.add(child);
+
+    const abort = () => {
+      killProcess(child);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+
+    let stdout = "";
+    let stderr = "";
+    child.stdout?.on("data", (chunk) => {
+      stdout += chunk;
+    });
+    child.stderr?.on("data", (chunk) => {
+      stderr += chunk;
+    });
+
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            killProcess(child);
+            reject(
+              new Error(
+                `Command timed out after ${timeoutMs}ms: ${[command].flat().join(" ")}`,
+              ),
+            );
+          }, timeoutMs)
+        : null;
+
+    child.on("error", (error) => {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+      processes?.delete(child);
+      reject(error);
+    });
+
+    child.on("close", (code) => {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+      processes?.delete(child);
+      resolve({ stdout, stderr, exitCode: code ?? 1 });
+    });
+  });
+}
+
+/**
+ * Installs the template once into a shared directory.
+ * Sandboxes copy its sources and symlink its node_modules.
+ */
+function prepareTemplate(): Promise<string> {
+  if (!templateReady) {
+    templateReady = (async () => {
+      const dir = INSTALLED_TEMPLATE_DIR;
+      const marker = path.join(dir, ".ready");
+
+      if (!existsSync(marker)) {
+        await fs.cp(TEMPLATE_DIR, dir, { recursive: true });
+
+        const env = childEnv(TEMPLATE_DEV_PORT);
+        const install = await spawnCommand(["npm", "install"], dir, 0, env);
+        if (install.exitCode !== 0) {
+          throw new Error(`npm install failed:\n${install.stderr}`);
+        }
+
+        // shadcn needs its registry; without it components install on demand
+        await spawnCommand(
+          [
+            "npx",
+            "shadcn@latest",
+            "add",
+            ...PREINSTALLED_COMPONENTS.split(" "),
+            "--yes",
+          ],
+          dir,
+          300000,
+          env,
+        ).catch(() => null);
+
+        await fs.writeFile(marker, new Date().toISOString());
+      }
+
+      return dir;
+    })().catch((error) => {
+      templateReady = null;
+      throw error;
+    });
+  }
+  return templateReady;
+}
+
+async function setDevPort(dir: string, port: number) {
+  const packagePath = path.join(dir, "package.json");
+  const pkg = JSON.parse(await fs.readFile(packagePath, "utf-8"));
+  pkg.scripts.dev = `next dev -p ${port}`;
+  await fs.writeFile(packagePath, JSON.stringify(pkg, null, 2));
+}
+
+async function readDevPort(dir: string): Promise<number> {
+  const pkg = JSON.parse(
+    await fs.readFile(path.join(dir, "package.json"), "utf-8"),
+  );
+  const match = String(pkg.scripts?.dev).match(/-p (\d+)/);
+  return match ? Number(match[1]) : TEMPLATE_DEV_PORT;
+}
+
+function isPortFree(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const server = net.createServer();
+    server.once("error", () => resolve(false));
+    server.listen(port, () => server.close(() => resolve(true)));
+  });
+}
+
+/**
+ * Next port that is free and not assigned to any sandbox on disk, whose
+ * dev server may just not be running since a server restart
+ */
+async function allocatePort(): Promise<number> {
+  const entries = await fs.readdir(ROOT_DIR).catch(() => []);
+  const assigned = new Set(
+    await Promise.all(
+      entries
+        .filter((name) => name.startsWith("local-"))
+        .map((name) =>
+          readDevPort(path.join(ROOT_DIR, name)).catch(() => null),
+        ),
+    ),
+  );
+  // Each candidate is taken before probing so concurrent creates differ
+  for (;;) {
+    const port = nextPort++;
+    if (!assigned.has(port) && (await isPortFree(port))) return port;
+  }
+}
+
+function toLocalPath(state: LocalSandboxState, sandboxPath: string): string {
+  const inAppDir =
+    sandboxPath === SANDBOX_APP_DIR ||
+    sandboxPath.startsWith(`${SANDBOX_APP_DIR}/`);
+  const resolved = path.resolve(
+    state.dir,
+    inAppDir ? `.${sandboxPath.slice(SANDBOX_APP_DIR.length)}` : sandboxPath,
+  );
+
+  if (resolved !== state.dir && !resolved.startsWith(`${state.dir}/`)) {
+    throw new Error(`Path is outside the sandbox: ${sandboxPath}`);
+  }
+  return resolved;
+}
+
+/**
+ * Maps the sandbox paths in an argv array to the working directory. Shell
+ * strings can't be parsed safely, so they only run with LOCAL_SANDBOX_SHELL.
+ */
+function toLocalCommand(
+  state: LocalSandboxState,
+  command: string | string[],
+): string | string[] {
+  if (Array.isArray(command)) {
+    return command.map((arg) =>
+      arg.startsWith(SANDBOX_APP_DIR) ? toLocalPath(state, arg) : arg,
+    );
+  }
+  if (!ALLOW_SHELL) {
+    throw new Error(
+      "Shell commands are disabled for the local sandbox; set LOCAL_SANDBOX_SHELL=1 to allow them",
+    );
+  }
+  return command.replaceAll(SANDBOX_APP_DIR, state.dir);
+}
+
+function toSandboxPath(state: LocalSandboxState, localPath: string): string {
+  return `${SANDBOX_APP_DIR}${localPath.slice(state.dir.length)}`;
+}
+
+async function killSandbox(state: LocalSandboxState) {
+  if (state.expiryTimer) clearTimeout(state.expiryTimer);
+  for (const child of state.processes) {
+    killProcess(child);
+  }
+  sandboxes.delete(state.id);
+  await fs.rm(state.dir, { recursive: true, force: true });
+}
+
+function wrapSandbox(state: LocalSandboxState): AppSandbox {
+  const hostFor = (port: number) =>
+    `localhost:${port === TEMPLATE_DEV_PORT ? state.port : port}`;
+
+  return {
+    sandboxId: state.id,
+    allowsShell: ALLOW_SHELL,
+
+    files: {
+      read: (filePath) => fs.readFile(toLocalPath(state, filePath), "utf-8"),
+      async write(filePath, content) {
+        const target = toLocalPath(state, filePath);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, content);
+      },
+      async list(dirPath) {
+        const target = toLocalPath(state, dirPath);
+        const entries = await fs.readdir(target, { withFileTypes: true });
+        return entries.map((entry) => ({
+          name: entry.name,
+          path: toSandboxPath(state, path.join(target, entry.name)),
+          type: entry.isDirectory() ? "dir" : "file",
+        }));
+      },
+    },
+
+    commands: {
+      async run(command, options: RunOptions = {}) {
+        const cwd = toLocalPath(state, options.cwd ?? SANDBOX_APP_DIR);
+        return spawnCommand(
+          toLocalCommand(state, command),
+          cwd,
+          options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+          childEnv(state.port),
+          state.processes,
+          options.signal,
+        );
+      },
+    },
+
+    getHost: hostFor,
+    getUrl: (port) => `http://${hostFor(port)}`,
+
+    kill: () => killSandbox(state),
+  };
+}
+
+export function createLocalBackend(): SandboxBackend {
+  return {
+    name: "local",
+
+    async create({ timeoutMs = 600000 } = {}) {
+      const templateDir = await prepareTemplate();
+      const id = `local-${randomUUID().slice(0, 8)}`;
+      const dir = path.join(ROOT_DIR, id);
+      const port = await allocatePort();
+
+      await fs.cp(templateDir, dir, {
+        recursive: true,
+        filter: (src) =>
+          !["node_modules", ".next"].includes(path.basename(src)),
+      });
+      await fs.symlink(
+        path.join(templateDir, "node_modules"),
+        path.join(dir, "node_modules"),
+        "dir",
+      );
+
+      const state: LocalSandboxState = {
+        id,
+        dir,
+        port,
+        processes: new Set(),
+      };
+      await setDevPort(dir, state.port);
+
+      // Mirror E2B's sandbox lifetime so idle dev servers don't pile up
+      if (timeoutMs > 0) {
+        state.expiryTimer = setTimeout(() => {
+          killSandbox(state).catch(() => {});
+        }, timeoutMs);
+        state.expiryTimer.unref();
+      }
+
+      sandboxes.set(id, state);
+      return wrapSandbox(state);
+    },
+
+    async connect(sandboxId) {
+      let state = sandboxes.get(sandboxId);
+
+      if (!state) {
+        // Reattach to a sandbox created before a server restart
+        const dir = path.join(ROOT_DIR, sandboxId);
+        if (!/^local-[a-f0-9]+$/.test(sandboxId) || !existsSync(dir)) {
+          throw new Error(`Sandbox ${sandboxId} not found`);
+        }
+        state = {
+          id: sandboxId,
+          dir,
+          port: await readDevPort(dir),
+          processes: new Set(),
+        };
+        sandboxes.set(sandboxId, state);
+      }
+
+      return wrapSandbox(state);
+    },
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Backend-neutral sandbox interface used by every sandbox route
+ */
+
+// Absolute path of the generated Next.js app inside a sandbox
+export const SANDBOX_APP_DIR = "/home/user/app";
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+export interface RunOptions {
+  cwd?: string;
+  timeoutMs?: number; // 0 disables the timeout
+  signal?: AbortSignal; // kills the command when aborted
+}
+
+export interface SandboxEntry {
+  name: string;
+  path: string;
+  type: "file" | "dir";
+}
+
+export interface AppSandbox {
+  readonly sandboxId: string;
+  // Whether shell command strings may run; argv commands always can
+  readonly allowsShell: boolean;
+  files: {
+    read(path: string): Promise<string>;
+    write(path: string, content: string): Promise<void>;
+    list(path: string): Promise<SandboxEntry[]>;
+  };
+  commands: {
+    /**
+     * Runs an argv array directly, or a string through a shell. Prefer
+     * argv for fixed commands so no argument is ever parsed as shell.
+     */
+    run(
+      command: string | string[],
+      options?: RunOptions,
+    ): Promise<CommandResult>;
+  };
+  getHost(port: number): string;
+  getUrl(port: number): string;
+  kill(): Promise<void>;
+}
+
+export interface CreateSandboxOptions {
+  timeoutMs?: number;
+}
+
+export interface SandboxBackend {
+  readonly name: string;
+  create(options?: CreateSandboxOptions): Promise<AppSandbox>;
+  connect(sandboxId: string): Promise<AppSandbox>;
+}
@@ -0,0 +1,360 @@
+/**
+ * Converts raw Excalidraw elements into a normalized layout tree
+ * (containment, exact text, row/column/grid alignment, arrow bindings)
+ * that is sent to the model alongside the sketch image.
+ */
+
+import type {
+  ComponentPosition,
+  SceneArrow,
+  SceneGraph,
+  SceneLayout,
+  SceneNode,
+  SceneNodeKind,
+  SketchElement,
+  SketchSelection,
+} from "@/types/canvas";
+
+const NODE_KINDS: Record<string, SceneNodeKind> = {
+  rectangle: "rectangle",
+  ellipse: "ellipse",
+  diamond: "diamond",
+  text: "text",
+  line: "line",
+  freedraw: "freedraw",
+  image: "image",
+  frame: "frame",
+  magicframe: "frame",
+};
+
+const CONTAINER_KINDS = new Set<SceneNodeKind>([
+  "rectangle",
+  "ellipse",
+  "diamond",
+  "frame",
+]);
+
+// Hand-drawn shapes rarely nest perfectly, so allow a few pixels of overlap
+const CONTAINMENT_TOLERANCE = 8;
+
+function elementBounds(element: SketchElement): ComponentPosition {
+  if (element.points && element.points.length > 0) {
+    const xs = element.points.map(([px]) => element.x + px);
+    const ys = element.points.map(([, py]) => element.y + py);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    return {
+      x: minX,
+      y: minY,
+      width: Math.max(...xs) - minX,
+      height: Math.max(...ys) - minY,
+    };
+  }
+
+  return {
+    x: element.x,
+    y: element.y,
+    width: Math.abs(element.width),
+    height: Math.abs(element.height),
+  };
+}
+
+function area(bounds: ComponentPosition): number {
+  return bounds.width * bounds.height;
+}
+
+export function contains(outer: ComponentPosition, inner: ComponentPosition) {
+  return (
+    inner.x >= outer.x - CONTAINMENT_TOLERANCE &&
+    inner.y >= outer.y - CONTAINMENT_TOLERANCE &&
+    inner.x + inner.width <= outer.x + outer.width + CONTAINMENT_TOLERANCE &&
+    inner.y + inner.height <= outer.y + outer.height + CONTAINMENT_TOLERANCE
+  );
+}
+
+function verticalOverlap(a: ComponentPosition, b: ComponentPosition) {
+  const overlap = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return overlap / Math.max(1, Math.min(a.height, b.height));
+}
+
+/**
+ * Attaches every item to the smallest container that encloses it
+ * and returns the top-level items
+ */
+export function nestByContainment<
+  T extends { bounds: ComponentPosition; children: T[] },
+>(items: T[], canContain: (item: T) => boolean): T[] {
+  const bySize = [...items].sort((a, b) => area(b.bounds) - area(a.bounds));
+  const roots: T[] = [];
+
+  bySize.forEach((item, index) => {
+    let parent: T | undefined;
+    for (const candidate of bySize.slice(0, index)) {
+      if (
+        canContain(candidate) &&
+        contains(candidate.bounds, item.bounds) &&
+        (!parent || area(candidate.bounds) < area(parent.bounds))
+      ) {
+        parent = candidate;
+      }
+    }
+    (parent ? parent.children : roots).push(item);
+  });
+
+  return roots;
+}
+
+/**
+ * Groups items into visual rows (reading order: top→bottom, left→right)
+ */
+export function clusterRows<T extends { bounds: ComponentPosition }>(
+  items: T[],
+): T[][] {
+  const sorted = [...items].sort((a, b) => a.bounds.y - b.bounds.y);
+  const rows: T[][] = [];
+
+  for (const item of sorted) {
+    const row = rows.find((r) =>
+      r.some((member) => verticalOverlap(member.bounds, item.bounds) >= 0.5),
+    );
+    if (row) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  for (const row of rows) {
+    row.sort((a, b) => a.bounds.x - b.bounds.x);
+  }
+  return rows;
+}
+
+/**
+ * Detects whether siblings form a row, a column or a grid and
+ * returns them in reading order
+ */
+export function detectLayout<T extends { bounds: ComponentPosition }>(
+  items: T[],
+): {
+  layout?: SceneLayout;
+  ordered: T[];
+} {
+  if (items.length < 2) {
+    return { ordered: items };
+  }
+
+  const rows = clusterRows(items);
+  const ordered = rows.flat();
+
+  if (rows.length === 1) {
+    return { layout: { type: "row" }, ordered };
+  }
+  if (rows.every((row) => row.length === 1)) {
+    return { layout: { type: "column" }, ordered };
+  }
+  if (rows.every((row) => row.length === rows[0].length)) {
+    return { layout: { type: "grid", columns: rows[0].length }, ordered };
+  }
+  return { ordered };
+}
+
+function arrangeChildren(node: SceneNode) {
+  const { layout, ordered } = detectLayout(node.children);
+  node.children = ordered;
+  if (layout) node.layout = layout;
+  for (const child of node.children) {
+    arrangeChildren(child);
+  }
+}
+
+export function buildSceneGraph(
+  elements: readonly SketchElement[],
+): SceneGraph {
+  const live = elements.filter((el) => !el.isDeleted);
+  const byId = new Map(live.map((el) => [el.id, el]));
+
+  // Text bound to a shape or arrow becomes that element's label
+  const labels = new Map<string, string>();
+  for (const el of live) {
+    if (el.type === "text" && el.containerId && byId.has(el.containerId)) {
+      const existing = labels.get(el.containerId);
+      const text = el.text ?? "";
+      labels.set(el.containerId, existing ? `${existing}\n${text}` : text);
+    }
+  }
+
+  const rawNodes = live.filter(
+    (el) =>
+      NODE_KINDS[el.type] &&
+      !(el.type === "text" && el.containerId && byId.has(el.containerId)),
+  );
+  const rawArrows = live.filter((el) => el.type === "arrow");
+
+  const allBounds = [...rawNodes, ...rawArrows].map(elementBounds);
+  if (allBounds.length === 0) {
+    return { width: 0, height: 0, nodes: [], arrows: [] };
+  }
+
+  const originX = Math.min(...allBounds.map((b) => b.x));
+  const originY = Math.min(...allBounds.map((b) => b.y));
+  const maxX = Math.max(...allBounds.map((b) => b.x + b.width));
+  const maxY = Math.max(...allBounds.map((b) => b.y + b.height));
+
+  const normalize = (b: ComponentPosition): ComponentPosition => ({
+    x: Math.round(b.x - originX),
+    y: Math.round(b.y - originY),
+    width: Math.round(b.width),
+    height: Math.round(b.height),
+  });
+
+  const nodes: SceneNode[] = rawNodes.map((el) => {
+    const kind = NODE_KINDS[el.type];
+    const text =
+      kind === "text"
+        ? el.text
+        : kind === "frame"
+          ? (el.name ?? undefined)
+          : labels.get(el.id);
+    return {
+      id: el.id,
+      kind,
+      bounds: normalize(elementBounds(el)),
+      ...(text ? { text } : {}),
+      children: [],
+    };
+  });
+
+  const roots = nestByContainment(nodes, (node) =>
+    CONTAINER_KINDS.has(node.kind),
+  );
+
+  const { layout, ordered } = detectLayout(roots);
+  for (const root of ordered) {
+    arrangeChildren(root);
+  }
+
+  const arrows: SceneArrow[] = rawArrows.map((el) => {
+    const points = el.points?.length ? el.points : [[0, 0] as const];
+    const [startX, startY] = points[0];
+    const [endX, endY] = points[points.length - 1];
+    const label = labels.get(el.id);
+    return {
+      id: el.id,
+      ...(el.startBinding ? { from: el.startBinding.elementId } : {}),
+      ...(el.endBinding ? { to: el.endBinding.elementId } : {}),
+      ...(label ? { label } : {}),
+      start: {
+        x: Math.round(el.x + startX - originX),
+        y: Math.round(el.y + startY - originY),
+      },
+      end: {
+        x: Math.round(el.x + endX - originX),
+        y: Math.round(el.y + endY - originY),
+      },
+    };
+  });
+
+  return {
+    width: Math.round(maxX - originX),
+    height: Math.round(maxY - originY),
+    nodes: ordered,
+    ...(layout ? { layout } : {}),
+    arrows,
+  };
+}
+
+function collectSelected(
+  nodes: SceneNode[],
+  ids: ReadonlySet<string>,
+): SceneNode[] {
+  return nodes.flatMap((node) =>
+    ids.has(node.id) ? [node] : collectSelected(node.children, ids),
+  );
+}
+
+/**
+ * Narrows the graph to the selected elements; returns null when none of
+ * them made it into the graph (e.g. only arrows are selected)
+ */
+export function selectSubgraph(
+  graph: SceneGraph,
+  elementIds: readonly string[],
+): SketchSelection | null {
+  const nodes = collectSelected(graph.nodes, new Set(elementIds));
+  if (nodes.length === 0) return null;
+
+  const left = Math.min(...nodes.map((n) => n.bounds.x));
+  const top = Math.min(...nodes.map((n) => n.bounds.y));
+  const right = Math.max(...nodes.map((n) => n.bounds.x + n.bounds.width));
+  const bottom = Math.max(...nodes.map((n) => n.bounds.y + n.bounds.height));
+  const { layout, ordered } = detectLayout(nodes);
+
+  return {
+    elementIds: [...elementIds],
+    bounds: { x: left, y: top, width: right - left, height: bottom - top },
+    graph: {
+      width: graph.width,
+      height: graph.height,
+      nodes: ordered,
+      ...(layout ? { layout } : {}),
+      arrows: graph.arrows.filter(
+        (arrow) =>
+          (arrow.from && elementIds.includes(arrow.from)) ||
+          (arrow.to && elementIds.includes(arrow.to)),
+      ),
+    },
+  };
+}
+
+function describeLayout(layout?: SceneLayout): string {
+  if (!layout) return "";
+  return layout.type === "grid"
+    ? ` [grid, ${layout.columns} columns]`
+    : ` [${layout.type}]`;
+}
+
+function describeNode(
+  node: SceneNode,
+  parent: ComponentPosition,
+  depth: number,
+): string[] {
+  const { x, y, width, height } = node.bounds;
+  const widthPct = Math.round((width / Math.max(1, parent.width)) * 100);
+  const heightPct = Math.round((height / Math.max(1, parent.height)) * 100);
+  const text = node.text ? ` "${node.text.replace(/\n/g, " ")}"` : "";
+
+  const line = `${"  ".repeat(depth)}- ${node.kind}${text} #${node.id} at (${x}, ${y}) size ${width}×${height} (${widthPct}% × ${heightPct}% of parent)${describeLayout(node.layout)}`;
+
+  return [
+    line,
+    ...node.children.flatMap((child) =>
+      describeNode(child, node.bounds, depth + 1),
+    ),
+  ];
+}
+
+/**
+ * Renders the scene graph as an indented outline for the prompt
+ */
+export function describeSceneGraph(graph: SceneGraph): string {
+  const canvas = { x: 0, y: 0, width: graph.width, height: graph.height };
+  const lines = [
+    `Sketch size: ${graph.width}×${graph.height} px${describeLayout(graph.layout)}`,
+    ...graph.nodes.flatMap((node) => describeNode(node, canvas, 0)),
+  ];
+
+  if (graph.arrows.length > 0) {
+    lines.push("Arrows:");
+    for (const arrow of graph.arrows) {
+      const from = arrow.from
+        ? `#${arrow.from}`
+        : `(${arrow.start.x}, ${arrow.start.y})`;
+      const to = arrow.to ? `#${arrow.to}` : `(${arrow.end.x}, ${arrow.end.y})`;
+      const label = arrow.label ? ` "${arrow.label}"` : "";
+      lines.push(`- ${from} → ${to}${label}`);
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,56 @@
+/**
+ * The shadcn/ui components the install stage adds to the sandbox when
+ * generated code imports them, keyed by export name
+ */
+
+export const SHADCN_COMPONENTS: Record<string, string> = {
+  Button: "button",
+  Card: "card",
+  CardHeader: "card",
+  CardContent: "card",
+  CardFooter: "card",
+  CardTitle: "card",
+  CardDescription: "card",
+  Input: "input",
+  Label: "label",
+  Textarea: "textarea",
+  Select: "select",
+  Checkbox: "checkbox",
+  RadioGroup: "radio-group",
+  Switch: "switch",
+  Slider: "slider",
+  Progress: "progress",
+  Badge: "badge",
+  Avatar: "avatar",
+  Dialog: "dialog",
+  Sheet: "sheet",
+  Popover: "popover",
+  Tooltip: "tooltip",
+  Tabs: "tabs",
+  Accordion: "accordion",
+  Alert: "alert",
+  AlertDialog: "alert-dialog",
+  Table: "table",
+  Separator: "separator",
+  ScrollArea: "scroll-area",
+  Skeleton: "skeleton",
+  Calendar: "calendar",
+  Command: "command",
+  ContextMenu: "context-menu",
+  DropdownMenu: "dropdown-menu",
+  HoverCard: "hover-card",
+  Menubar: "menubar",
+  NavigationMenu: "navigation-menu",
+  Collapsible: "collapsible",
+  AspectRatio: "aspect-ratio",
+  Toggle: "toggle",
+  ToggleGroup: "toggle-group",
+};
+
+/**
+ * Whether the sandbox can add the component (a `components/ui` file name)
+ * on demand
+ */
+export function isInstallableComponent(name: string): boolean {
+  return Object.values(SHADCN_COMPONENTS).includes(name);
+}
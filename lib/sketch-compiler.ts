@@ -0,0 +1,207 @@
+/**
+ * Heuristic sketch-to-layout compiler. Turns a sketch into
+ * GeneratedComponent[] with plain geometric rules, so a draft can be
+ * produced instantly and offline (no model call involved).
+ */
+
+import { hashString } from "@/lib/canvas-utils";
+import { generateReactCode } from "@/lib/code-generator";
+import { buildSceneGraph } from "@/lib/scene-graph";
+import type {
+  ComponentPosition,
+  GeneratedComponent,
+  SceneGraph,
+  SceneNode,
+  SketchElement,
+} from "@/types/canvas";
+
+// Size limits (px) used to tell controls apart from containers
+const MAX_BUTTON_WIDTH = 320;
+const MAX_BUTTON_HEIGHT = 80;
+const MAX_INPUT_HEIGHT = 60;
+const MIN_INPUT_ASPECT = 3;
+const MIN_SEPARATOR_ASPECT = 3;
+
+// A navbar spans most of the sketch width and hugs its top edge
+const NAVBAR_MIN_WIDTH_RATIO = 0.8;
+const NAVBAR_MAX_TOP_RATIO = 0.05;
+const NAVBAR_MAX_HEIGHT = 120;
+
+const NAVBAR_CLASS =
+  "flex items-center justify-between rounded-none border-x-0 border-t-0 px-6";
+
+interface CompileContext {
+  graph: SceneGraph;
+  sourceDrawingHash: string;
+  timestamp: number;
+  components: GeneratedComponent[];
+}
+
+function isNavbar(
+  node: SceneNode,
+  graph: SceneGraph,
+  parent?: SceneNode,
+): boolean {
+  return (
+    !parent &&
+    node.bounds.width >= graph.width * NAVBAR_MIN_WIDTH_RATIO &&
+    node.bounds.y <= graph.height * NAVBAR_MAX_TOP_RATIO &&
+    node.bounds.height <= NAVBAR_MAX_HEIGHT &&
+    node.bounds.height < graph.height / 2
+  );
+}
+
+function isControlSized(bounds: ComponentPosition): boolean {
+  return bounds.width <= MAX_BUTTON_WIDTH && bounds.height <= MAX_BUTTON_HEIGHT;
+}
+
+/**
+ * Text of a small shape that holds a label and nothing else
+ */
+function buttonLabel(node: SceneNode): string | undefined {
+  if (!isControlSized(node.bounds)) return undefined;
+  if (node.text && node.children.length === 0) return node.text;
+  if (
+    !node.text &&
+    node.children.length === 1 &&
+    node.children[0].kind === "text"
+  ) {
+    return node.children[0].text;
+  }
+  return undefined;
+}
+
+function isInput(node: SceneNode, parent?: SceneNode): boolean {
+  const { width, height } = node.bounds;
+  return (
+    !node.text &&
+    node.children.length === 0 &&
+    parent?.layout?.type !== "grid" &&
+    height <= MAX_INPUT_HEIGHT &&
+    width >= height * MIN_INPUT_ASPECT
+  );
+}
+
+function emit(
+  context: CompileContext,
+  node: SceneNode,
+  type: string,
+  props: GeneratedComponent["props"] = {},
+) {
+  context.components.push({
+    id: node.id,
+    type,
+    props,
+    position: node.bounds,
+    sourceDrawingHash: context.sourceDrawingHash,
+    timestamp: context.timestamp,
+  });
+}
+
+function compileNode(
+  context: CompileContext,
+  node: SceneNode,
+  parent?: SceneNode,
+) {
+  const compileChildren = () => {
+    for (const child of node.children) {
+      compileNode(context, child, node);
+    }
+  };
+
+  switch (node.kind) {
+    case "text":
+      if (node.text) emit(context, node, "label", { children: node.text });
+      return;
+
+    case "line":
+      if (node.bounds.width >= node.bounds.height * MIN_SEPARATOR_ASPECT) {
+        emit(context, node, "separator");
+      }
+      return;
+
+    case "ellipse":
+      emit(
+        context,
+        node,
+        "avatar",
+        node.text ? { children: node.text.slice(0, 2).toUpperCase() } : {},
+      );
+      return;
+
+    case "frame":
+      compileChildren();
+      return;
+
+    case "rectangle":
+    case "diamond": {
+      if (isNavbar(node, context.graph, parent)) {
+        emit(context, node, "card", {
+          className: NAVBAR_CLASS,
+          ...(node.text ? { children: node.text } : {}),
+        });
+        compileChildren();
+        return;
+      }
+
+      const label = buttonLabel(node);
+      if (label) {
+        emit(context, node, "button", { children: label });
+        return;
+      }
+
+      if (isInput(node, parent)) {
+        emit(context, node, "input");
+        return;
+      }
+
+      emit(context, node, "card", node.text ? { children: node.text } : {});
+      compileChildren();
+      return;
+    }
+
+    default:
+      // Freehand strokes and images have no component equivalent
+      return;
+  }
+}
+
+/**
+ * Compiles a scene graph into components, outermost first
+ */
+export function compileSceneGraph(
+  graph: SceneGraph,
+  sourceDrawingHash = "",
+  timestamp = Date.now(),
+): GeneratedComponent[] {
+  const context: CompileContext = {
+    graph,
+    sourceDrawingHash,
+    timestamp,
+    components: [],
+  };
+
+  for (const node of graph.nodes) {
+    compileNode(context, node);
+  }
+
+  return context.components;
+}
+
+export function compileSketch(
+  elements: readonly SketchElement[],
+  timestamp = Date.now(),
+): GeneratedComponent[] {
+  return compileSceneGraph(
+    buildSceneGraph(elements),
+    hashString(JSON.stringify(elements)),
+    timestamp,
+  );
+}
+
+/**
+ * Instant offline draft of the sketch as React code
+ */
+export function compileSceneGraphToCode(graph: SceneGraph): string {
+  return generateReactCode(compileSceneGraph(graph), { annotate: true });
+}
@@ -0,0 +1,158 @@
+/**
+ * Element-level diff between the sketch used for the last generation and
+ * the current canvas, so the model can edit existing code incrementally.
+ */
+
+import type {
+  ComponentPosition,
+  SketchDiff,
+  SketchElement,
+} from "@/types/canvas";
+
+// Hand-drawn edits jitter by a few pixels; ignore anything smaller
+const MOVE_TOLERANCE = 4;
+
+/**
+ * Strips Excalidraw elements down to the fields the diff and scene graph
+ * need, so they stay small enough for history storage
+ */
+export function toSketchElements(
+  elements: readonly SketchElement[],
+): SketchElement[] {
+  return elements
+    .filter((el) => !el.isDeleted)
+    .map((el) => ({
+      id: el.id,
+      type: el.type,
+      x: el.x,
+      y: el.y,
+      width: el.width,
+      height: el.height,
+      ...(el.text !== undefined ? { text: el.text } : {}),
+      ...(el.name ? { name: el.name } : {}),
+      ...(el.containerId ? { containerId: el.containerId } : {}),
+      ...(el.points ? { points: el.points } : {}),
+      ...(el.startBinding
+        ? { startBinding: { elementId: el.startBinding.elementId } }
+        : {}),
+      ...(el.endBinding
+        ? { endBinding: { elementId: el.endBinding.elementId } }
+        : {}),
+    }));
+}
+
+function bounds(element: SketchElement): ComponentPosition {
+  return {
+    x: element.x,
+    y: element.y,
+    width: element.width,
+    height: element.height,
+  };
+}
+
+function hasMoved(a: SketchElement, b: SketchElement): boolean {
+  return (
+    Math.abs(a.x - b.x) > MOVE_TOLERANCE ||
+    Math.abs(a.y - b.y) > MOVE_TOLERANCE ||
+    Math.abs(a.width - b.width) > MOVE_TOLERANCE ||
+    Math.abs(a.height - b.height) > MOVE_TOLERANCE
+  );
+}
+
+export function diffSketch(
+  previous: readonly SketchElement[],
+  current: readonly SketchElement[],
+): SketchDiff {
+  const live = (elements: readonly SketchElement[]) =>
+    new Map(elements.filter((el) => !el.isDeleted).map((el) => [el.id, el]));
+  const before = live(previous);
+  const after = live(current);
+
+  const diff: SketchDiff = {
+    added: [],
+    removed: [],
+    moved: [],
+    relabelled: [],
+  };
+
+  for (const [id, element] of after) {
+    const old = before.get(id);
+    if (!old) {
+      diff.added.push(element);
+      continue;
+    }
+    if ((old.text ?? "") !== (element.text ?? "")) {
+      diff.relabelled.push({ element, from: old.text ?? "" });
+    }
+    // Bound text follows its container, so only the container is reported
+    if (!element.containerId && hasMoved(old, element)) {
+      diff.moved.push({ element, from: bounds(old) });
+    }
+  }
+
+  for (const [id, element] of before) {
+    if (!after.has(id)) diff.removed.push(element);
+  }
+
+  return diff;
+}
+
+export function isEmptyDiff(diff: SketchDiff): boolean {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.moved.length === 0 &&
+    diff.relabelled.length === 0
+  );
+}
+
+export function countChanges(diff: SketchDiff): number {
+  return (
+    diff.added.length +
+    diff.removed.length +
+    diff.moved.length +
+    diff.relabelled.length
+  );
+}
+
+function describeElement(element: SketchElement): string {
+  const { x, y, width, height } = bounds(element);
+  const text = element.text ? ` "${element.text.replace(/\n/g, " ")}"` : "";
+  const owner = element.containerId
+    ? ` (label of #${element.containerId})`
+    : "";
+  return `${element.type}${text} #${element.id}${owner} at (${Math.round(x)}, ${Math.round(y)}) size ${Math.round(width)}×${Math.round(height)}`;
+}
+
+/**
+ * Renders the diff as a change list for the prompt
+ */
+export function describeSketchDiff(diff: SketchDiff): string {
+  const lines: string[] = [];
+
+  for (const element of diff.added) {
+    lines.push(`+ ADDED ${describeElement(element)}`);
+  }
+  for (const element of diff.removed) {
+    lines.push(`- REMOVED ${describeElement(element)}`);
+  }
+  for (const { element, from } of diff.moved) {
+    const dx = Math.round(element.x - from.x);
+    const dy = Math.round(element.y - from.y);
+    const resized =
+      Math.abs(element.width - from.width) > MOVE_TOLERANCE ||
+      Math.abs(element.height - from.height) > MOVE_TOLERANCE
+        ? `, resized from ${Math.round(from.width)}×${Math.round(from.height)}`
+        : "";
+    lines.push(
+      `~ MOVED ${describeElement(element)} (by ${dx}, ${dy}${resized})`,
+    );
+  }
+  for (const { element, from } of diff.relabelled) {
+    lines.push(
+      `~ RELABELLED ${describeElement(element)} (was "${from.replace(/\n/g, " ")}")`,
+    );
+  }
+
+  return lines.join("\n");
+}
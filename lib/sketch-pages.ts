@@ -0,0 +1,169 @@
+/**
+ * Splits a multi-page sketch into routes: every top-level Excalidraw
+ * frame is one page (frame name = path) and arrows between frames
+ * become navigation links.
+ */
+
+import { contains } from "@/lib/scene-graph";
+import type {
+  PageLink,
+  SceneGraph,
+  SceneNode,
+  SketchPage,
+} from "@/types/canvas";
+
+/**
+ * Turns a frame name into a route: "/", "Pricing" → "/pricing",
+ * "settings/Profile" → "/settings/profile"
+ */
+export function routeFromFrameName(name: string): string {
+  const segments = name
+    .split("/")
+    .map((segment) =>
+      segment
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9-_[\]]+/g, "-")
+        .replace(/^-+|-+$/g, ""),
+    )
+    .filter(Boolean);
+
+  if (
+    segments.length === 0 ||
+    (segments.length === 1 && segments[0] === "index")
+  ) {
+    return "/";
+  }
+  return `/${segments.join("/")}`;
+}
+
+// Sandbox-relative file of a single-page sketch's component
+export const COMPONENT_PATH = "app/component.tsx";
+
+// Page files with the route segments routeFromFrameName produces
+const PAGE_FILE_PATTERN = /^app((?:\/[a-z0-9-_[\]]+)*)\/page\.tsx$/;
+
+/**
+ * Sandbox-relative page file for a route
+ */
+export function pageFilePath(route: string): string {
+  return route === "/" ? "app/page.tsx" : `app${route}/page.tsx`;
+}
+
+/**
+ * Route a generated file renders, or null if the path isn't a generated
+ * file. The single-page component renders at "/".
+ */
+export function routeForFile(filePath: string): string | null {
+  if (filePath === COMPONENT_PATH) return "/";
+  const match = filePath.match(PAGE_FILE_PATTERN);
+  return match ? match[1] || "/" : null;
+}
+
+function shiftNode(node: SceneNode, dx: number, dy: number): SceneNode {
+  return {
+    ...node,
+    bounds: { ...node.bounds, x: node.bounds.x - dx, y: node.bounds.y - dy },
+    children: node.children.map((child) => shiftNode(child, dx, dy)),
+  };
+}
+
+function findNode(nodes: SceneNode[], id: string): SceneNode | undefined {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const found = findNode(node.children, id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function pointInFrame(frame: SceneNode, point: { x: number; y: number }) {
+  return contains(frame.bounds, { ...point, width: 0, height: 0 });
+}
+
+export function extractPages(graph: SceneGraph): SketchPage[] {
+  const frames = graph.nodes.filter((node) => node.kind === "frame");
+  const usedRoutes = new Set<string>();
+
+  const pages = frames.map((frame, index) => {
+    let route = routeFromFrameName(frame.text ?? `page-${index + 1}`);
+    if (usedRoutes.has(route)) {
+      route = `${route === "/" ? "/page" : route}-${index + 1}`;
+    }
+    usedRoutes.add(route);
+
+    const { x, y, width, height } = frame.bounds;
+    const page: SketchPage = {
+      name: frame.text ?? route,
+      route,
+      graph: {
+        width,
+        height,
+        nodes: frame.children.map((child) => shiftNode(child, x, y)),
+        ...(frame.layout ? { layout: frame.layout } : {}),
+        arrows: [],
+      },
+      links: [],
+    };
+    return { frame, page };
+  });
+
+  const frameOf = (elementId?: string, point?: { x: number; y: number }) =>
+    pages.find(
+      ({ frame }) =>
+        (elementId &&
+          (frame.id === elementId || findNode(frame.children, elementId))) ||
+        (!elementId && point && pointInFrame(frame, point)),
+    );
+
+  for (const arrow of graph.arrows) {
+    const source = frameOf(arrow.from, arrow.start);
+    const target = frameOf(arrow.to, arrow.end);
+    if (!source || !target || source === target) continue;
+
+    const element =
+      arrow.from && arrow.from !== source.frame.id
+        ? findNode(source.frame.children, arrow.from)
+        : undefined;
+    const label = element?.text ?? arrow.label;
+    const link: PageLink = {
+      ...(element ? { elementId: element.id } : {}),
+      ...(label ? { label } : {}),
+      route: target.page.route,
+    };
+    source.page.links.push(link);
+  }
+
+  return pages.map(({ page }) => page);
+}
+
+/**
+ * Prompt section telling the model which page to build and where it links
+ */
+export function describePage(page: SketchPage, pages: SketchPage[]): string {
+  const others = pages
+    .filter((p) => p !== page)
+    .map((p) => `- "${p.name}" → ${p.route}`)
+    .join("\n");
+  const links = page.links
+    .map((link) => {
+      const source = link.elementId
+        ? `#${link.elementId}${link.label ? ` "${link.label}"` : ""}`
+        : link.label
+          ? `"${link.label}"`
+          : "a visible navigation link";
+      return `- ${source} → <Link href="${link.route}">`;
+    })
+    .join("\n");
+
+  return `📄 MULTI-PAGE SKETCH:
+The sketch has ${pages.length} pages drawn as frames. Build ONLY the page in the frame named "${page.name}" (route ${page.route}).
+${others ? `Other pages in this app:\n${others}\n` : ""}${
+  links
+    ? `
+🔗 NAVIGATION (import Link from "next/link"):
+${links}
+Wrap the listed element in the Link (or render it as one) so the flow is clickable.`
+    : ""
+}`;
+}
@@ -0,0 +1,249 @@
+/**
+ * The SSE protocol of the generation and update routes: a validating
+ * sender for the server and a chunk-safe reader for the client
+ */
+
+import type {
+  StreamEvent,
+  StreamEventName,
+  StreamEvents,
+} from "@/types/events";
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+};
+
+// The events after which the server closes the stream
+export const TERMINAL_EVENTS: readonly StreamEventName[] = [
+  "complete",
+  "error",
+  "cancelled",
+];
+
+type FieldType = "string" | "number" | "boolean" | "object" | "array";
+
+// Required fields of each event; optional ones are left unchecked
+const REQUIRED_FIELDS: Record<StreamEventName, Record<string, FieldType>> = {
+  job: { jobId: "string" },
+  log: { message: "string" },
+  stage: { stage: "string", status: "string" },
+  iteration: { current: "number", max: "number" },
+  page: { route: "string", path: "string" },
+  "code-delta": { delta: "string" },
+  code: { code: "string" },
+  quality: { score: "number", details: "object" },
+  fidelity: {
+    score: "number",
+    matched: "array",
+    missing: "array",
+    extra: "array",
+  },
+  refine: {
+    round: "number",
+    maxRounds: "number",
+    status: "string",
+    score: "number",
+  },
+  a11y: { findings: "array" },
+  sandbox: { url: "string", sandboxId: "string" },
+  usage: { calls: "number", promptTokens: "number", responseTokens: "number" },
+  complete: { code: "string", success: "boolean" },
+  error: { message: "string" },
+  cancelled: { message: "string" },
+};
+
+function hasType(value: unknown, type: FieldType): boolean {
+  if (type === "array") return Array.isArray(value);
+  if (type === "object") {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+  return typeof value === type;
+}
+
+/**
+ * Checks that an event name is known and its data has the required fields
+ */
+export function isStreamEvent(event: string, data: unknown): boolean {
+  if (!Object.hasOwn(REQUIRED_FIELDS, event)) return false;
+  if (typeof data !== "object" || data === null) return false;
+
+  const fields = REQUIRED_FIELDS[event as StreamEventName];
+  const record = data as Record<string, unknown>;
+  return Object.entries(fields).every(([key, type]) =>
+    hasType(record[key], type),
+  );
+}
+
+export function formatStreamEvent<E extends StreamEventName>(
+  event: E,
+  data: StreamEvents[E],
+  id?: string,
+): string {
+  const idLine = id === undefined ? "" : `id: ${id}\n`;
+  return `${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export type SendEvent = <E extends StreamEventName>(
+  event: E,
+  data: StreamEvents[E],
+) => void;
+
+/**
+ * Returns a sender that writes events to a stream controller. Events that
+ * don't match the protocol are a bug in the route, so they throw instead
+ * of reaching the client.
+ */
+export function createEventSender(
+  controller: ReadableStreamDefaultController<Uint8Array>,
+): SendEvent {
+  const encoder = new TextEncoder();
+  return (event, data) => {
+    if (!isStreamEvent(event, data)) {
+      throw new Error(`Invalid "${event}" event: ${JSON.stringify(data)}`);
+    }
+    controller.enqueue(encoder.encode(formatStreamEvent(event, data)));
+  };
+}
+
+export interface ParsedMessage {
+  id?: string;
+  event: string;
+  data: string;
+}
+
+/**
+ * Incremental SSE parser. Chunks may end anywhere, including inside a
+ * line; messages are only emitted once their blank line has arrived.
+ */
+export function createStreamParser(
+  onMessage: (message: ParsedMessage) => void,
+) {
+  let buffer = "";
+  let message: { id?: string; event?: string; data: string[] } = { data: [] };
+
+  const dispatch = () => {
+    if (message.data.length > 0) {
+      onMessage({
+        id: message.id,
+        event: message.event ?? "message",
+        data: message.data.join("\n"),
+      });
+    }
+    message = { data: [] };
+  };
+
+  const processLine = (line: string) => {
+    if (line === "") {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(":")) return; // comment / keep-alive
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "event") message.event = value;
+    else if (field === "data") message.data.push(value);
+    else if (field === "id") message.id = value;
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      // A trailing "\r" may be the first half of "\r\n", so keep it back
+      const held = buffer.endsWith("\r");
+      const lines = (held ? buffer.slice(0, -1) : buffer).split(/\r\n|\r|\n/);
+      buffer = (lines.pop() ?? "") + (held ? "\r" : "");
+      for (const line of lines) processLine(line);
+    },
+    end() {
+      if (buffer) processLine(buffer.replace(/\r$/, ""));
+      buffer = "";
+      dispatch();
+    },
+  };
+}
+
+export type StreamHandlers = {
+  [E in StreamEventName]?: (data: StreamEvents[E]) => unknown;
+};
+
+export interface StreamResult {
+  lastEventId?: string;
+  terminated: boolean; // a complete, error or cancelled event was received
+}
+
+export interface ReadStreamOptions {
+  signal?: AbortSignal; // cancels the underlying body
+  onEventId?: (id: string) => void; // ids arrive before their handlers run
+}
+
+/**
+ * Reads a response body event by event, calling the matching handler for
+ * each valid event in order. Unknown or malformed events are skipped.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  handlers: StreamHandlers,
+  { signal, onEventId }: ReadStreamOptions = {},
+): Promise<StreamResult> {
+  const reader = body.getReader();
+  const cancel = () => {
+    reader.cancel().catch(() => {});
+  };
+  signal?.addEventListener("abort", cancel);
+  const decoder = new TextDecoder();
+  const events: StreamEvent[] = [];
+  const result: StreamResult = { terminated: false };
+
+  const parser = createStreamParser(({ id, event, data }) => {
+    if (id !== undefined) {
+      result.lastEventId = id;
+      onEventId?.(id);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      console.warn(`Skipping "${event}" event with invalid JSON`);
+      return;
+    }
+    if (!isStreamEvent(event, parsed)) {
+      console.warn(`Skipping unknown or malformed "${event}" event`);
+      return;
+    }
+    events.push({ event, data: parsed } as StreamEvent);
+  });
+
+  const dispatch = async () => {
+    for (const { event, data } of events.splice(0)) {
+      if (TERMINAL_EVENTS.includes(event)) result.terminated = true;
+      const handler = handlers[event] as
+        | ((data: StreamEvent["data"]) => unknown)
+        | undefined;
+      await handler?.(data);
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.push(decoder.decode(value, { stream: true }));
+      await dispatch();
+    }
+    parser.push(decoder.decode());
+    parser.end();
+    await dispatch();
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+    reader.releaseLock();
+  }
+
+  return result;
+}
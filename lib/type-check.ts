@@ -0,0 +1,153 @@
+/**
+ * Type-checks generated components in-process against an installed copy
+ * of the sandbox template: its components/ui sources and its type
+ * declarations of react, lucide-react and framer-motion, so most errors
+ * surface without a `next build` in the sandbox. Imports of ui components
+ * the template lacks but the install stage adds to the sandbox are not
+ * reported.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import ts from "typescript";
+import type { CodeDiagnostic } from "@/lib/code-analysis";
+import { INSTALLED_TEMPLATE_DIR } from "@/lib/sandbox/local";
+import { isInstallableComponent } from "@/lib/shadcn-components";
+
+const UI_MODULE_PREFIX = "@/components/ui/";
+// "Cannot find module"
+const MODULE_NOT_FOUND = 2307;
+
+// Declarations and ui sources only change between deploys
+const sourceFileCache = new Map<string, ts.SourceFile>();
+let previousProgram: ts.Program | undefined;
+
+function isInstalledTemplate(dir: string): boolean {
+  return (
+    fs.existsSync(path.join(dir, "components", "ui", "button.tsx")) &&
+    fs.existsSync(
+      path.join(dir, "node_modules", "@types", "react", "index.d.ts"),
+    )
+  );
+}
+
+/**
+ * TYPECHECK_TEMPLATE_DIR, else the template the local sandbox backend
+ * installed, else e2b-template/files once installed in place. Null when
+ * none is installed.
+ */
+function templateRoot(): string | null {
+  const override = process.env.TYPECHECK_TEMPLATE_DIR;
+  const candidates = override
+    ? [override]
+    : [
+        INSTALLED_TEMPLATE_DIR,
+        path.join(process.cwd(), "e2b-template", "files"),
+      ];
+  return candidates.find(isInstalledTemplate) ?? null;
+}
+
+function compilerOptions(root: string): ts.CompilerOptions {
+  return {
+    target: ts.ScriptTarget.ES2020,
+    lib: ["lib.dom.d.ts", "lib.dom.iterable.d.ts", "lib.esnext.d.ts"],
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.ReactJSX,
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    esModuleInterop: true,
+    isolatedModules: true,
+    types: [],
+    baseUrl: root,
+    paths: { "@/*": ["./*"] },
+  };
+}
+
+/**
+ * Needs an installed template; until there is one, type errors are left
+ * to the sandbox build
+ */
+export function isTypeCheckAvailable(): boolean {
+  return templateRoot() !== null;
+}
+
+/**
+ * Semantic and syntactic diagnostics for one generated file, or null when
+ * type-checking is unavailable
+ */
+export function typeCheckComponent(
+  code: string,
+  fileName = "app/component.tsx",
+): CodeDiagnostic[] | null {
+  const root = templateRoot();
+  if (!root) return null;
+
+  // Generated files live in a virtual directory so they never shadow real ones
+  const virtualPath = path.join(root, ".drawui-typecheck", fileName);
+  const options = compilerOptions(root);
+  const host = ts.createCompilerHost(options);
+  const { fileExists, readFile } = host;
+
+  host.fileExists = (file) => file === virtualPath || fileExists(file);
+  host.readFile = (file) => (file === virtualPath ? code : readFile(file));
+  host.getSourceFile = (file, languageVersion) => {
+    if (file === virtualPath) {
+      return ts.createSourceFile(file, code, languageVersion, true);
+    }
+    let sourceFile = sourceFileCache.get(file);
+    if (!sourceFile) {
+      const text = readFile(file);
+      if (text === undefined) return undefined;
+      sourceFile = ts.createSourceFile(file, text, languageVersion, true);
+      sourceFileCache.set(file, sourceFile);
+    }
+    return sourceFile;
+  };
+
+  const program = ts.createProgram({
+    rootNames: [virtualPath],
+    options,
+    host,
+    oldProgram: previousProgram,
+  });
+  previousProgram = program;
+
+  const sourceFile = program.getSourceFile(virtualPath);
+  if (!sourceFile) return null;
+
+  return [
+    ...program.getSyntacticDiagnostics(sourceFile),
+    ...program.getSemanticDiagnostics(sourceFile),
+  ]
+    .filter((diagnostic) => !isInstallableImport(diagnostic, code))
+    .map((diagnostic) => {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+        diagnostic.start ?? 0,
+      );
+      return {
+        ruleId: "type-error",
+        severity: "error",
+        message: `TS${diagnostic.code}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, " ")}`,
+        line: line + 1,
+        column: character + 1,
+      };
+    });
+}
+
+// A missing ui module the install stage adds once the code imports it
+function isInstallableImport(diagnostic: ts.Diagnostic, code: string): boolean {
+  if (diagnostic.code !== MODULE_NOT_FOUND || diagnostic.start === undefined) {
+    return false;
+  }
+  // The diagnostic spans the quoted module specifier
+  const specifier = code.slice(
+    diagnostic.start + 1,
+    diagnostic.start + (diagnostic.length ?? 0) - 1,
+  );
+  return (
+    specifier.startsWith(UI_MODULE_PREFIX) &&
+    isInstallableComponent(specifier.slice(UI_MODULE_PREFIX.length))
+  );
+}
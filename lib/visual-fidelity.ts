@@ -0,0 +1,229 @@
+/**
+ * Visual fidelity: how closely the rendered preview follows the sketch.
+ * Boxes of the DOM elements tagged with `data-drawui-id` are compared with
+ * the bounding boxes of the sketch elements they were generated from.
+ */
+
+import type {
+  ComponentPosition,
+  SceneGraph,
+  SceneNode,
+  SceneNodeKind,
+} from "@/types/canvas";
+
+export interface LayoutBox extends ComponentPosition {
+  id: string;
+}
+
+/**
+ * Layout of the rendered page, captured headlessly in the sandbox
+ */
+export interface RenderedLayout {
+  width: number; // document size in CSS px
+  height: number;
+  boxes: LayoutBox[];
+  screenshot?: string; // JPEG data URL
+}
+
+export interface RegionMatch {
+  elementId: string;
+  kind: SceneNodeKind;
+  iou: number; // 0–1
+  sketch: ComponentPosition; // normalized to the shared extent, 0–1
+  rendered: ComponentPosition;
+}
+
+export interface FidelityReport {
+  score: number; // 0–100
+  matched: RegionMatch[];
+  missing: string[]; // sketch elements with no rendered box
+  extra: string[]; // rendered ids that are not in the sketch
+  screenshot?: string;
+}
+
+// Below this the layout has drifted noticeably from the sketch
+export const FIDELITY_THRESHOLD = 50;
+
+// Regions overlapping less than this are described to the model
+const GAP_IOU = 0.6;
+
+// Size and position differences below this are not worth a mention
+const GAP_TOLERANCE = 0.1;
+
+// Strokes have no area to overlap
+const IGNORED_KINDS = new Set<SceneNodeKind>(["line", "freedraw"]);
+
+function sketchRegions(nodes: SceneNode[]): SceneNode[] {
+  return nodes.flatMap((node) => [
+    ...(IGNORED_KINDS.has(node.kind) ? [] : [node]),
+    ...sketchRegions(node.children),
+  ]);
+}
+
+function unionBounds(boxes: ComponentPosition[]): ComponentPosition {
+  const left = Math.min(...boxes.map((box) => box.x));
+  const top = Math.min(...boxes.map((box) => box.y));
+  const right = Math.max(...boxes.map((box) => box.x + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+// Maps a box into the unit square of its frame
+function normalize(
+  box: ComponentPosition,
+  frame: ComponentPosition,
+): ComponentPosition {
+  const width = frame.width || 1;
+  const height = frame.height || 1;
+  return {
+    x: (box.x - frame.x) / width,
+    y: (box.y - frame.y) / height,
+    width: box.width / width,
+    height: box.height / height,
+  };
+}
+
+export function intersectionOverUnion(
+  a: ComponentPosition,
+  b: ComponentPosition,
+): number {
+  const overlapWidth = Math.max(
+    0,
+    Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x),
+  );
+  const overlapHeight = Math.max(
+    0,
+    Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y),
+  );
+  const intersection = overlapWidth * overlapHeight;
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Scores a rendered layout against the sketch. Both sides are normalized
+ * to the extent of the elements they share, so page padding and extra
+ * sections don't count against the layout. Missing and extra regions
+ * score 0.
+ */
+export function scoreFidelity(
+  graph: SceneGraph,
+  layout: RenderedLayout,
+): FidelityReport {
+  const regions = sketchRegions(graph.nodes);
+  const regionIds = new Set(regions.map((region) => region.id));
+
+  // Elements rendered in a loop share an id; treat them as one region
+  const rendered = new Map<string, ComponentPosition>();
+  for (const { id, ...box } of layout.boxes) {
+    const previous = rendered.get(id);
+    rendered.set(id, previous ? unionBounds([previous, box]) : box);
+  }
+
+  const present = regions.filter((region) => rendered.has(region.id));
+  const matched: RegionMatch[] = [];
+  if (present.length > 0) {
+    const sketchFrame = unionBounds(present.map((region) => region.bounds));
+    const renderedFrame = unionBounds(
+      present.map((region) => rendered.get(region.id) as ComponentPosition),
+    );
+    for (const region of present) {
+      const sketch = normalize(region.bounds, sketchFrame);
+      const box = normalize(
+        rendered.get(region.id) as ComponentPosition,
+        renderedFrame,
+      );
+      matched.push({
+        elementId: region.id,
+        kind: region.kind,
+        iou: Math.round(intersectionOverUnion(sketch, box) * 100) / 100,
+        sketch,
+        rendered: box,
+      });
+    }
+  }
+
+  const missing = regions
+    .filter((region) => !rendered.has(region.id))
+    .map((region) => region.id);
+  const extra = [...rendered.keys()].filter((id) => !regionIds.has(id));
+
+  const total = regions.length + extra.length;
+  const score =
+    total > 0
+      ? Math.round(
+          (100 * matched.reduce((sum, match) => sum + match.iou, 0)) / total,
+        )
+      : 0;
+
+  return {
+    score,
+    matched,
+    missing,
+    extra,
+    ...(layout.screenshot ? { screenshot: layout.screenshot } : {}),
+  };
+}
+
+export function formatFidelity(report: FidelityReport): string {
+  return `🎯 Fidelity: ${report.score}/100 (${report.matched.length} matched, ${report.missing.length} missing, ${report.extra.length} extra)`;
+}
+
+function percent(value: number): number {
+  return Math.round(value * 100);
+}
+
+function describeMismatch({ sketch, rendered, iou }: RegionMatch): string {
+  const gaps: string[] = [];
+  const compare = (
+    actual: number,
+    expected: number,
+    describe: (value: number) => string,
+  ) => {
+    if (Math.abs(actual - expected) >= GAP_TOLERANCE) {
+      gaps.push(`${describe(actual)}, sketch shows ${percent(expected)}%`);
+    }
+  };
+
+  compare(rendered.width, sketch.width, (v) => `is ${percent(v)}% wide`);
+  compare(rendered.height, sketch.height, (v) => `is ${percent(v)}% tall`);
+  compare(rendered.x, sketch.x, (v) => `starts ${percent(v)}% from the left`);
+  compare(rendered.y, sketch.y, (v) => `starts ${percent(v)}% from the top`);
+
+  return gaps.length > 0
+    ? gaps.join("; ")
+    : `overlaps its sketched position by only ${percent(iou)}%`;
+}
+
+/**
+ * Lists the worst layout discrepancies for a refinement prompt.
+ * Percentages are relative to the area spanned by the matched elements.
+ */
+export function describeFidelityGaps(
+  graph: SceneGraph,
+  report: FidelityReport,
+  limit = 12,
+): string {
+  const regions = new Map(
+    sketchRegions(graph.nodes).map((region) => [region.id, region]),
+  );
+  const label = (id: string) => {
+    const region = regions.get(id);
+    if (!region) return `#${id}`;
+    const text = region.text ? ` "${region.text.replace(/\n/g, " ")}"` : "";
+    return `${region.kind}${text} #${id}`;
+  };
+
+  const lines = [
+    ...report.missing.map((id) => `- ${label(id)} is not rendered`),
+    ...report.matched
+      .filter((match) => match.iou < GAP_IOU)
+      .sort((a, b) => a.iou - b.iou)
+      .map((match) => `- ${label(match.elementId)} ${describeMismatch(match)}`),
+    ...report.extra.map(
+      (id) => `- #${id} is rendered but is not an element of the sketch`,
+    ),
+  ];
+
+  return lines.slice(0, limit).join("\n");
+}
@@ -31,3 +31,119 @@ export interface AnalyzeDrawingResponse {
   components: GeminiComponentResponse[];
   error?: string;
 }
+
+/**
+ * Subset of an Excalidraw element that the scene graph reads
+ */
+export interface SketchElement {
+  id: string;
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  isDeleted?: boolean;
+  text?: string;
+  name?: string | null;
+  containerId?: string | null;
+  points?: readonly (readonly [number, number])[];
+  startBinding?: { elementId: string } | null;
+  endBinding?: { elementId: string } | null;
+}
+
+export type SceneNodeKind =
+  | "rectangle"
+  | "ellipse"
+  | "diamond"
+  | "text"
+  | "line"
+  | "freedraw"
+  | "image"
+  | "frame";
+
+export interface SceneLayout {
+  type: "row" | "column" | "grid";
+  columns?: number;
+}
+
+export interface SceneNode {
+  id: string;
+  kind: SceneNodeKind;
+  bounds: ComponentPosition; // px, relative to the top-left of the sketch
+  text?: string; // exact string for text nodes and labelled shapes
+  layout?: SceneLayout; // how the children are arranged
+  children: SceneNode[];
+}
+
+export interface SceneArrow {
+  id: string;
+  from?: string; // bound element ids
+  to?: string;
+  label?: string;
+  start: { x: number; y: number };
+  end: { x: number; y: number };
+}
+
+export interface SceneGraph {
+  width: number;
+  height: number;
+  nodes: SceneNode[];
+  layout?: SceneLayout;
+  arrows: SceneArrow[];
+}
+
+export interface PageLink {
+  elementId?: string; // element the arrow starts from, if any
+  label?: string;
+  route: string;
+}
+
+/**
+ * One Excalidraw frame of a multi-page sketch
+ */
+export interface SketchPage {
+  name: string;
+  route: string; // "/" or "/pricing"
+  graph: SceneGraph; // frame contents, relative to the frame
+  links: PageLink[];
+}
+
+/**
+ * Elements selected on the canvas, in scene graph coordinates
+ */
+export interface SketchSelection {
+  elementIds: string[];
+  bounds: ComponentPosition;
+  graph: SceneGraph; // only the selected nodes (and their children)
+}
+
+export interface MovedElement {
+  element: SketchElement;
+  from: ComponentPosition;
+}
+
+export interface RelabelledElement {
+  element: SketchElement;
+  from: string;
+}
+
+/**
+ * Element-level changes between two versions of a sketch
+ */
+export interface SketchDiff {
+  added: SketchElement[];
+  removed: SketchElement[];
+  moved: MovedElement[];
+  relabelled: RelabelledElement[];
+}
+
+/**
+ * Colors picked in the sidebar, as hex strings
+ */
+export interface ColorPalette {
+  primary: string;
+  secondary: string;
+  accent: string;
+  background: string;
+  text: string;
+}
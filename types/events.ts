@@ -0,0 +1,73 @@
+import type { A11yFinding } from "@/lib/a11y-audit";
+import type { QualityScore } from "@/lib/quality-validator";
+import type { FidelityReport } from "@/lib/visual-fidelity";
+
+export type StageName =
+  | "generate"
+  | "sandbox"
+  | "install"
+  | "validate"
+  | "build"
+  | "fix"
+  | "refine"
+  | "audit";
+
+export type LogLevel = "info" | "warning" | "error";
+
+export interface GeneratedFile {
+  path: string; // relative to the sandbox app dir
+  route?: string; // set for multi-page sketches
+  code: string;
+}
+
+// Model usage of one run, or summed over several
+export interface GenerationUsage {
+  calls: number;
+  promptTokens: number;
+  responseTokens: number;
+  costUsd?: number; // unset when the model has no known price
+}
+
+/**
+ * Every event a generation or update stream can carry, keyed by SSE
+ * event name
+ */
+export interface StreamEvents {
+  job: { jobId: string }; // first event of a resumable job
+  log: { message: string; level?: LogLevel };
+  stage: { stage: StageName; status: "started" | "finished" };
+  iteration: { current: number; max: number };
+  page: { route: string; path: string };
+  "code-delta": { delta: string };
+  code: { code: string; path?: string };
+  quality: { score: number; details: QualityScore["details"] };
+  fidelity: FidelityReport;
+  refine: {
+    round: number;
+    maxRounds: number;
+    status: "started" | "applied" | "reverted";
+    score: number;
+    gaps?: string;
+    reason?: string;
+  };
+  a11y: { findings: A11yFinding[] };
+  sandbox: { url: string; sandboxId: string };
+  usage: GenerationUsage; // sent before the run's terminal event
+  complete: {
+    code: string;
+    pages?: GeneratedFile[];
+    sandboxUrl?: string;
+    sandboxId?: string;
+    quality?: number;
+    iterations?: number;
+    success: boolean;
+  };
+  error: { message: string };
+  cancelled: { message: string };
+}
+
+export type StreamEventName = keyof StreamEvents;
+
+export type StreamEvent = {
+  [E in StreamEventName]: { event: E; data: StreamEvents[E] };
+}[StreamEventName];
@@ -1,3 +1,6 @@
+import type { ColorPalette, SketchElement } from "./canvas";
+import type { GenerationUsage } from "./events";
+
 export interface GenerationHistoryEntry {
   id: string;
   code: string;
@@ -5,14 +8,10 @@ export interface GenerationHistoryEntry {
   timestamp: number;
   styleGuide: string;
   customPrompt?: string;
-  colorPalette: {
-    primary: string;
-    secondary: string;
-    accent: string;
-    background: string;
-    text: string;
-  };
+  colorPalette: ColorPalette;
   generationTime: number; // in seconds
+  elements?: SketchElement[]; // sketch the code was generated from
+  usage?: GenerationUsage; // model tokens spent on the generation
 }
 
 export interface HistoryState {